@@ -0,0 +1,235 @@
+// server/relay.js
+/**
+ * COLLABORATION RELAY
+ *
+ * A tiny WebSocket relay for live collaboration. Browsers connect to
+ * ws://<host>:<port>/?room=<room id>, and every message one of them sends is
+ * forwarded as-is to everyone else in the same room. The relay knows nothing
+ * about boards: merging happens in the browsers, so the relay holds no state
+ * beyond who is connected to which room.
+ *
+ * Uses only Node built-ins so it runs without installing anything:
+ *
+ *   npm run relay                 # listens on port 8787
+ *   RELAY_PORT=9000 npm run relay
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+/** Magic value from RFC 6455 used to answer the handshake */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** Largest message accepted from a browser (a full board document fits easily) */
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+/** Connections that don't answer a ping within this time are dropped */
+const HEARTBEAT_MS = 30_000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** room id → connected peers */
+const rooms = new Map();
+
+/**
+ * Encodes one unmasked frame (servers never mask).
+ */
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reads as many complete frames as `buffer` holds.
+ * Returns the frames and whatever bytes belong to the next, incomplete one.
+ */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length - cursor < 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) break;
+      const bigLength = buffer.readBigUInt64BE(cursor);
+      if (bigLength > BigInt(MAX_MESSAGE_BYTES)) throw new Error('Frame too large');
+      length = Number(bigLength);
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Frame too large');
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - cursor < maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Sends a text message to one peer, ignoring peers that already went away.
+ */
+function sendText(peer, text) {
+  if (!peer.socket.destroyed) peer.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+}
+
+function broadcast(room, sender, text) {
+  for (const peer of rooms.get(room) ?? []) {
+    if (peer !== sender) sendText(peer, text);
+  }
+}
+
+/**
+ * Handles one complete message from a peer: remember who they are, then pass it on.
+ */
+function handleMessage(peer, text) {
+  try {
+    const message = JSON.parse(text);
+    if (typeof message?.clientId === 'string') peer.clientId = message.clientId;
+  } catch {
+    return; // Not ours; don't forward garbage to the room
+  }
+  broadcast(peer.room, peer, text);
+}
+
+function removePeer(peer) {
+  const peers = rooms.get(peer.room);
+  if (!peers?.delete(peer)) return;
+  if (peers.size === 0) rooms.delete(peer.room);
+  if (peer.clientId) broadcast(peer.room, peer, JSON.stringify({ type: 'leave', clientId: peer.clientId }));
+  console.log(`[relay] ${peer.clientId ?? 'peer'} left room "${peer.room}" (${peers.size} remaining)`);
+}
+
+function closeConnection(peer, code = 1000) {
+  if (peer.socket.destroyed) return;
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code, 0);
+  peer.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  const peerCount = Array.from(rooms.values()).reduce((sum, peers) => sum + peers.size, 0);
+  response.end(`Scenario Viewer collaboration relay: ${rooms.size} room(s), ${peerCount} peer(s)\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room');
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !room) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const peer = { socket, room, clientId: null, isAlive: true };
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room).add(peer);
+  console.log(`[relay] peer joined room "${room}" (${rooms.get(room).size} connected)`);
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+
+  socket.on('data', chunk => {
+    pending = Buffer.concat([pending, chunk]);
+    let decoded;
+    try {
+      decoded = decodeFrames(pending);
+    } catch (err) {
+      console.warn(`[relay] dropping peer: ${err.message}`);
+      closeConnection(peer, 1009);
+      return;
+    }
+    pending = Buffer.from(decoded.rest);
+
+    for (const frame of decoded.frames) {
+      switch (frame.opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_CONTINUATION:
+          fragments.push(frame.payload);
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            handleMessage(peer, text);
+          }
+          break;
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          break;
+        case OPCODE_PONG:
+          peer.isAlive = true;
+          break;
+        case OPCODE_CLOSE:
+          closeConnection(peer);
+          break;
+        default:
+          closeConnection(peer, 1003); // Binary frames are not part of the protocol
+      }
+    }
+  });
+
+  socket.on('end', () => socket.end()); // Upgraded sockets stay half-open unless closed explicitly
+  socket.on('close', () => removePeer(peer));
+  socket.on('error', err => console.warn('[relay] socket error', err.message));
+});
+
+// Drop peers whose browser vanished without closing the connection
+setInterval(() => {
+  for (const peers of rooms.values()) {
+    for (const peer of peers) {
+      if (!peer.isAlive) {
+        peer.socket.destroy();
+        continue;
+      }
+      peer.isAlive = false;
+      peer.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+    }
+  }
+}, HEARTBEAT_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`[relay] Scenario Viewer collaboration relay listening on ws://localhost:${PORT}`);
+});
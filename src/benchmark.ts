@@ -0,0 +1,209 @@
+// src/benchmark.ts
+/**
+ * RENDER BENCHMARK
+ *
+ * Renders a synthetic board of 200 cards and 300 connections and times the
+ * interactions that redraw it most often. Opened from /benchmark.html; nothing
+ * here is saved, and card pages are never loaded (cards show placeholders).
+ *
+ * Product Features:
+ * - Times the first render, dragging one card, panning and selecting
+ * - Compares each against redrawing the whole board from scratch, which is
+ *   roughly what every frame cost before rendering was keyed per card
+ */
+
+import { html, render } from 'lit-html';
+import { renderApp } from './templates/app';
+import { $allCards, $allConnections, $activeDraggedCard, $selectedCardIds, CardLayout, Connection, updateCardPosition } from './state';
+import { $camera, panCamera } from './state/camera';
+import { $cardViews } from './state/card-views';
+import { $connectionViews } from './state/connection-geometry';
+import { beginTransaction, commitTransaction } from './state/history';
+import { log, error } from './utils/logger';
+
+const CARD_COUNT = 200;
+const CONNECTION_COUNT = 300;
+const COLUMNS = 20;
+/** Frames timed per interaction */
+const STEPS = 60;
+
+interface BenchmarkResult {
+  name: string;
+  keyed: number[];
+  fullRedraw: number[];
+}
+
+/**
+ * Puts a grid of cards on the board with connections between neighbours.
+ * Sets the stores directly, so no workspace is created or saved.
+ */
+function seedBoard(): void {
+  const cards: CardLayout[] = Array.from({ length: CARD_COUNT }, (_, index) => ({
+    id: index + 1,
+    x: (index % COLUMNS) * 420,
+    y: Math.floor(index / COLUMNS) * 320,
+    width: 360,
+    height: 260,
+    zIndex: index + 1
+  }));
+
+  const connections: Connection[] = Array.from({ length: CONNECTION_COUNT }, (_, index) => {
+    const fromCardId = (index % CARD_COUNT) + 1;
+    const goesDown = index >= CARD_COUNT || fromCardId % COLUMNS === 0;
+    const toCardId = goesDown ? ((fromCardId + COLUMNS - 1) % CARD_COUNT) + 1 : fromCardId + 1;
+    return {
+      id: `bench-${index}`,
+      fromCardId,
+      fromSide: goesDown ? 2 : 1,
+      fromPosition: 0.5,
+      toCardId,
+      toSide: goesDown ? 0 : 3,
+      toPosition: 0.5
+    };
+  });
+
+  $allCards.set(cards);
+  $allConnections.set(connections);
+  $camera.set({ x: 0, y: 0, zoom: 0.5 });
+}
+
+/**
+ * Renders the board and forces layout, returning how long both took.
+ * From scratch renders into a new workspace element, so lit has no previous
+ * parts to update and creates every node again.
+ */
+function timeRender(host: HTMLElement, fromScratch: boolean): number {
+  const start = performance.now();
+  let root = host.firstElementChild as HTMLElement | null;
+  if (!root || fromScratch) {
+    const fresh = document.createElement('div');
+    fresh.className = 'workspace';
+    render(renderApp(), fresh);
+    if (root) host.replaceChild(fresh, root);
+    else host.appendChild(fresh);
+    root = fresh;
+  } else {
+    render(renderApp(), root);
+  }
+  void root.offsetHeight; // Layout is part of what the user waits for
+  return performance.now() - start;
+}
+
+/**
+ * Runs one interaction STEPS times, timing the render after each step.
+ */
+function measure(host: HTMLElement, fromScratch: boolean, step: (index: number) => void): number[] {
+  const times: number[] = [];
+  for (let index = 0; index < STEPS; index++) {
+    step(index);
+    times.push(timeRender(host, fromScratch));
+  }
+  return times;
+}
+
+function runInteraction(name: string, host: HTMLElement, setup: () => void, step: (index: number) => void, teardown: () => void): BenchmarkResult {
+  const results = { name, keyed: [] as number[], fullRedraw: [] as number[] };
+  for (const fromScratch of [false, true]) {
+    seedBoard();
+    timeRender(host, true);
+    setup();
+    const times = measure(host, fromScratch, step);
+    teardown();
+    if (fromScratch) results.fullRedraw = times;
+    else results.keyed = times;
+  }
+  return results;
+}
+
+function runBenchmark(host: HTMLElement): BenchmarkResult[] {
+  const results: BenchmarkResult[] = [];
+
+  // First render: every card is new either way, so both columns time a cold render
+  const firstRender: number[] = [];
+  for (let index = 0; index < 5; index++) {
+    seedBoard();
+    firstRender.push(timeRender(host, true));
+  }
+  results.push({ name: `First render (${CARD_COUNT} cards)`, keyed: firstRender, fullRedraw: firstRender });
+
+  const draggedCardId = 45;
+  results.push(runInteraction('Drag one card', host,
+    () => { beginTransaction('Benchmark drag'); $activeDraggedCard.set(draggedCardId); },
+    index => {
+      const card = $allCards.get().find(c => c.id === draggedCardId);
+      if (card) updateCardPosition(draggedCardId, card.x + 4, card.y + (index % 2 ? 3 : -2));
+    },
+    () => { $activeDraggedCard.set(null); commitTransaction(); }
+  ));
+
+  results.push(runInteraction('Pan the board', host, () => {}, index => panCamera(index % 2 ? -12 : 15, 8), () => {}));
+
+  results.push(runInteraction('Select a card', host, () => {}, index => $selectedCardIds.set([(index * 7) % CARD_COUNT + 1]), () => $selectedCardIds.set([])));
+
+  return results;
+}
+
+function percentile(times: number[], fraction: number): number {
+  const sorted = [...times].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0;
+}
+
+function renderResults(results: BenchmarkResult[]) {
+  const format = (value: number) => `${value.toFixed(1)} ms`;
+  return html`
+    <table class="benchmark-results">
+      <thead>
+        <tr>
+          <th>Interaction</th>
+          <th>Keyed median</th>
+          <th>Keyed p95</th>
+          <th>Full redraw median</th>
+          <th>Full redraw p95</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${results.map(result => html`
+          <tr>
+            <td>${result.name}</td>
+            <td>${format(percentile(result.keyed, 0.5))}</td>
+            <td>${format(percentile(result.keyed, 0.95))}</td>
+            <td>${format(percentile(result.fullRedraw, 0.5))}</td>
+            <td>${format(percentile(result.fullRedraw, 0.95))}</td>
+          </tr>
+        `)}
+      </tbody>
+    </table>
+  `;
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  const board = document.getElementById('benchmark-board');
+  const panel = document.getElementById('benchmark-panel');
+  const runButton = document.getElementById('benchmark-run') as HTMLButtonElement | null;
+  if (!board || !panel || !runButton) {
+    error('Benchmark page is missing its elements');
+    return;
+  }
+
+  // The derived stores only cache while something listens to them, as in the app
+  $cardViews.listen(() => {});
+  $connectionViews.listen(() => {});
+
+  runButton.addEventListener('click', () => {
+    runButton.disabled = true;
+    render(html`<p>Running…</p>`, panel);
+    // Let the message paint before the main thread is busy
+    requestAnimationFrame(() => setTimeout(() => {
+      try {
+        const results = runBenchmark(board);
+        log('Benchmark finished', results.map(result => ({ name: result.name, keyed: percentile(result.keyed, 0.5), fullRedraw: percentile(result.fullRedraw, 0.5) })));
+        render(renderResults(results), panel);
+      } catch (err) {
+        error('Benchmark failed', err);
+        render(html`<p>Benchmark failed, see the console.</p>`, panel);
+      } finally {
+        runButton.disabled = false;
+      }
+    }));
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * SCENARIO BRIDGE PROTOCOL
+ *
+ * The messages scenario pages and the viewer exchange with postMessage.
+ * This file has no dependencies so scenario authors can copy the `client`
+ * folder into their own project.
+ *
+ * Every message is an object `{ protocol: 'scenario-viewer', version, type, ... }`.
+ * Receivers ignore anything else, and messages from a newer protocol version
+ * than they understand.
+ *
+ * Scenario → viewer:
+ *   ready                      the page uses the bridge (sent once it has loaded)
+ *   title { title }            replaces the card title
+ *   status { status, message } ok / warning / error, shown as a dot in the card header
+ *   badges { badges }          replaces the badges shown in the card header
+ *   event { name, detail }     anything else worth noting, shown as the latest event
+ *
+ * Viewer → scenario:
+ *   hello { cardId, scenarioId, environment }   answer to `ready`
+ *   reload                                      reload the page
+ *   set-params { params }                       change query parameters
+ *   navigate { path }                           go to another page of the scenario
+ *
+ * Version history:
+ *   1 - the messages above
+ */
+
+export const PROTOCOL_NAME = 'scenario-viewer';
+
+/** Version written by this build */
+export const PROTOCOL_VERSION = 1;
+
+/** Longest title, badge label or event name kept; longer text is cut off */
+const MAX_TEXT_LENGTH = 120;
+/** Most badges shown on one card */
+const MAX_BADGES = 6;
+/** Badge colors: hex (#rgb, #rgba, #rrggbb, #rrggbbaa) or a named color like "teal" */
+const BADGE_COLOR = /^(?:#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|[a-z]+)$/i;
+
+export type ScenarioStatus = 'ok' | 'warning' | 'error';
+
+export interface ScenarioBadge {
+  label: string;
+  /** A hex or named CSS color; the viewer picks one when unset or invalid */
+  color?: string;
+}
+
+/** Messages a scenario page sends to the viewer */
+export type ScenarioMessage =
+  | { type: 'ready' }
+  | { type: 'title'; title: string }
+  | { type: 'status'; status: ScenarioStatus; message?: string }
+  | { type: 'badges'; badges: ScenarioBadge[] }
+  | { type: 'event'; name: string; detail?: unknown };
+
+/** Messages the viewer sends to a scenario page */
+export type ViewerMessage =
+  | { type: 'hello'; cardId: number; scenarioId: number; environment: string }
+  | { type: 'reload' }
+  | { type: 'set-params'; params: Record<string, string> }
+  | { type: 'navigate'; path: string };
+
+export type ViewerCommand = Exclude<ViewerMessage, { type: 'hello' }>;
+
+/** A message as it travels through postMessage */
+export type Envelope<M> = M & { protocol: typeof PROTOCOL_NAME; version: number };
+
+const SCENARIO_STATUSES: ScenarioStatus[] = ['ok', 'warning', 'error'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const clip = (text: string) => text.trim().substring(0, MAX_TEXT_LENGTH);
+
+/**
+ * Adds the protocol fields to a message before posting it.
+ */
+export function wrapMessage<M extends ScenarioMessage | ViewerMessage>(message: M): Envelope<M> {
+  return { ...message, protocol: PROTOCOL_NAME, version: PROTOCOL_VERSION };
+}
+
+/**
+ * Whether posted data is a bridge message this build can read.
+ * Newer versions are left alone rather than half understood.
+ */
+export function isEnvelope(data: unknown): data is Record<string, unknown> & { type: string } {
+  return isRecord(data) &&
+    data.protocol === PROTOCOL_NAME &&
+    Number.isInteger(data.version) &&
+    (data.version as number) >= 1 &&
+    (data.version as number) <= PROTOCOL_VERSION &&
+    typeof data.type === 'string';
+}
+
+/**
+ * Reads a message sent by a scenario page; null when it isn't one or is malformed.
+ * Text is trimmed and cut to a sensible length so a page can't flood the card header.
+ */
+export function parseScenarioMessage(data: unknown): ScenarioMessage | null {
+  if (!isEnvelope(data)) return null;
+
+  switch (data.type) {
+    case 'ready':
+      return { type: 'ready' };
+    case 'title':
+      return isText(data.title) ? { type: 'title', title: clip(data.title) } : null;
+    case 'status':
+      if (!SCENARIO_STATUSES.includes(data.status as ScenarioStatus)) return null;
+      return {
+        type: 'status',
+        status: data.status as ScenarioStatus,
+        ...(isText(data.message) ? { message: clip(data.message) } : {})
+      };
+    case 'badges':
+      if (!Array.isArray(data.badges)) return null;
+      return {
+        type: 'badges',
+        badges: data.badges
+          .filter((badge): badge is Record<string, unknown> => isRecord(badge) && isText(badge.label))
+          .slice(0, MAX_BADGES)
+          .map(badge => ({
+            label: clip(badge.label as string),
+            // The color goes into the card's style, so anything else is dropped
+            ...(isText(badge.color) && BADGE_COLOR.test(badge.color.trim()) ? { color: badge.color.trim() } : {})
+          }))
+      };
+    case 'event':
+      return isText(data.name)
+        ? { type: 'event', name: clip(data.name), ...(data.detail !== undefined ? { detail: data.detail } : {}) }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a message sent by the viewer; null when it isn't one or is malformed.
+ */
+export function parseViewerMessage(data: unknown): ViewerMessage | null {
+  if (!isEnvelope(data)) return null;
+
+  switch (data.type) {
+    case 'hello':
+      return Number.isInteger(data.cardId) && Number.isInteger(data.scenarioId) && typeof data.environment === 'string'
+        ? { type: 'hello', cardId: data.cardId as number, scenarioId: data.scenarioId as number, environment: data.environment }
+        : null;
+    case 'reload':
+      return { type: 'reload' };
+    case 'set-params':
+      if (!isRecord(data.params) || !Object.values(data.params).every(value => typeof value === 'string')) return null;
+      return { type: 'set-params', params: data.params as Record<string, string> };
+    case 'navigate':
+      return isText(data.path) ? { type: 'navigate', path: data.path.trim() } : null;
+    default:
+      return null;
+  }
+}
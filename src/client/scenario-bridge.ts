@@ -0,0 +1,156 @@
+/**
+ * SCENARIO BRIDGE CLIENT
+ *
+ * A small helper for scenario pages shown inside the viewer. It reports the
+ * page's title, status, badges and events to the card that shows it, and
+ * receives the viewer's commands.
+ *
+ * Usage (copy this folder into the scenario project):
+ *
+ *   import { connectToViewer } from './client/scenario-bridge';
+ *
+ *   const viewer = connectToViewer({ viewerOrigin: 'https://viewer.example.com' });
+ *   viewer.setTitle('Checkout – guest');
+ *   viewer.setStatus('warning', 'Payment sandbox is slow');
+ *   viewer.setBadges([{ label: 'v2.3' }, { label: 'feature flag', color: '#f08c00' }]);
+ *   viewer.sendEvent('order-placed', { total: 42 });
+ *   viewer.onCommand(command => { if (command.type === 'set-params') applyParams(command.params); });
+ *
+ * Outside the viewer (page opened on its own) every call does nothing.
+ */
+
+import {
+  ScenarioBadge,
+  ScenarioMessage,
+  ScenarioStatus,
+  ViewerCommand,
+  parseViewerMessage,
+  wrapMessage
+} from './protocol';
+
+export type { ScenarioBadge, ScenarioStatus, ViewerCommand } from './protocol';
+
+export interface ViewerBridgeOptions {
+  /**
+   * Origin of the viewer, e.g. `https://viewer.example.com`. Messages are only
+   * posted to and accepted from this origin. Without it, any page embedding the
+   * scenario receives its reports, so set it whenever the reports are private.
+   */
+  viewerOrigin?: string;
+}
+
+/**
+ * What the viewer said about the card showing this page.
+ */
+export interface ViewerContext {
+  cardId: number;
+  scenarioId: number;
+  /** Name of the environment the card loads from, e.g. "staging" */
+  environment: string;
+}
+
+export interface ViewerBridge {
+  /** Whether the page is shown inside a viewer card */
+  readonly isEmbedded: boolean;
+  /** Details about the card, once the viewer has answered */
+  readonly context: ViewerContext | null;
+  setTitle(title: string): void;
+  setStatus(status: ScenarioStatus, message?: string): void;
+  /** Replaces every badge; pass [] to clear them */
+  setBadges(badges: ScenarioBadge[]): void;
+  sendEvent(name: string, detail?: unknown): void;
+  /**
+   * Handles viewer commands; returns a function that stops handling them.
+   * While no handler is registered, commands get a default behavior:
+   * reload reloads the page, navigate opens the path, set-params reloads
+   * with the new query parameters.
+   */
+  onCommand(handler: (command: ViewerCommand) => void): () => void;
+  /** Called once the viewer has answered `ready` */
+  onConnect(handler: (context: ViewerContext) => void): () => void;
+  /** Stops listening to the viewer */
+  disconnect(): void;
+}
+
+/**
+ * Connects the page to the viewer that embeds it and announces it is ready.
+ */
+export function connectToViewer(options: ViewerBridgeOptions = {}): ViewerBridge {
+  const parent = window.parent;
+  const isEmbedded = parent !== window;
+  const targetOrigin = options.viewerOrigin ?? '*';
+  const commandHandlers = new Set<(command: ViewerCommand) => void>();
+  const connectHandlers = new Set<(context: ViewerContext) => void>();
+  let context: ViewerContext | null = null;
+
+  const post = (message: ScenarioMessage) => {
+    if (isEmbedded) parent.postMessage(wrapMessage(message), targetOrigin);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== parent) return;
+    if (options.viewerOrigin && event.origin !== options.viewerOrigin) return;
+    const message = parseViewerMessage(event.data);
+    if (!message) return;
+
+    if (message.type === 'hello') {
+      const { type: _type, ...details } = message;
+      context = details;
+      connectHandlers.forEach(handler => handler(details));
+    } else if (commandHandlers.size > 0) {
+      commandHandlers.forEach(handler => handler(message));
+    } else {
+      runDefaultCommand(message);
+    }
+  };
+
+  if (isEmbedded) {
+    window.addEventListener('message', handleMessage);
+    post({ type: 'ready' });
+  }
+
+  return {
+    isEmbedded,
+    get context() {
+      return context;
+    },
+    setTitle: title => post({ type: 'title', title }),
+    setStatus: (status, message) => post({ type: 'status', status, ...(message ? { message } : {}) }),
+    setBadges: badges => post({ type: 'badges', badges }),
+    sendEvent: (name, detail) => post({ type: 'event', name, ...(detail !== undefined ? { detail } : {}) }),
+    onCommand(handler) {
+      commandHandlers.add(handler);
+      return () => commandHandlers.delete(handler);
+    },
+    onConnect(handler) {
+      connectHandlers.add(handler);
+      if (context) handler(context);
+      return () => connectHandlers.delete(handler);
+    },
+    disconnect() {
+      window.removeEventListener('message', handleMessage);
+      commandHandlers.clear();
+      connectHandlers.clear();
+    }
+  };
+}
+
+function runDefaultCommand(command: ViewerCommand) {
+  switch (command.type) {
+    case 'reload':
+      location.reload();
+      break;
+    case 'navigate': {
+      // Only within the scenario's own site: never a javascript: URL or another origin
+      const url = new URL(command.path, location.href);
+      if (url.origin === location.origin) location.assign(url.href);
+      break;
+    }
+    case 'set-params': {
+      const url = new URL(location.href);
+      Object.entries(command.params).forEach(([key, value]) => url.searchParams.set(key, value));
+      location.assign(url.href);
+      break;
+    }
+  }
+}
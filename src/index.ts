@@ -4,8 +4,21 @@ import { html, render } from 'lit-html';
 import { renderApp } from './templates/app';
 import { setupDragAndDrop } from './interactions/card-drag';
 import { setupConnectionSystem } from './interactions/connections';
-import { initializeLayoutPersistence, resetLayout } from './interactions/layout'; // Added resetLayout for completeness
+import { setupCardResize } from './interactions/card-resize';
+import { setupCanvasNavigation } from './interactions/canvas';
+import { setupSelectionSystem } from './interactions/selection';
+import { setupKeyboardShortcuts } from './interactions/keyboard';
+import { setupCollaborationPresence } from './interactions/collaboration';
+import { openSharedBoardPreview } from './interactions/share-link';
+import { setupScenarioBridge } from './interactions/scenario-bridge';
+import { setupCardVirtualization } from './interactions/card-virtualization';
+import { setupCardKeyboard } from './interactions/card-keyboard';
+import { registerWorkspaceActions } from './interactions/actions';
 import { loadDefaultCards } from './state/loading';
+import { initializeScenarioCatalog } from './state/catalog';
+import { initializeCardLoadMonitoring } from './state/card-loading';
+import { initializeWorkspaces } from './state/workspaces';
+import { SHARE_LINK_PARAM } from './state/share-link';
 import { atom } from 'nanostores';
 
 
@@ -20,9 +33,8 @@ console.table({
 
 log('Script execution started: index.ts');
 
-// Create a dirty flag to track state changes for rendering
-const $isDirty = atom<boolean>(false);
-log('Dirty flag atom created for render loop');
+// Renders happen on demand: a state change schedules one for the next frame, and nothing runs while the board is idle
+let isRenderScheduled = false;
 
 // No need for stateAtoms set if not used for anything other than logging in subscribe
 // const stateAtoms = new Set<any>();
@@ -46,20 +58,38 @@ document.addEventListener('DOMContentLoaded', () => {
   success('Workspace element (appRoot) found successfully', { id: appRoot.id, className: appRoot.className });
 
   log('Subscribing to state changes for render updates');
-  subscribeToStateChanges(); // Sets up $isDirty flag on state changes
+  subscribeToStateChanges(); // Schedules a render on state changes
   
-  log('Initializing layout persistence (localStorage)');
-  initializeLayoutPersistence(); // Also subscribes to cards/connections for its own purpose
+  // Listen before any card iframe exists so no scenario's first messages are missed
+  log('Setting up scenario bridge (postMessage)');
+  setupScenarioBridge();
   
-  // Check if layout was loaded from localStorage, otherwise load defaults
-  const cardsFromStorage = localStorage.getItem('scenario-viewer-layout');
-  if (!cardsFromStorage || JSON.parse(cardsFromStorage).cards.length === 0) {
-    log('No existing layout in localStorage or empty cards, loading default cards.');
-    loadDefaultCards();
-  } else {
-    log('Layout successfully loaded from localStorage, skipping default card load.');
-    // State should already be set by initializeLayoutPersistence if data was valid
-  }
+  // A shared link is previewed before (and instead of) opening the saved workspaces
+  log('Checking the URL for a shared board link');
+  openSharedBoardPreview()
+    .then(isPreviewing => {
+      if (isPreviewing) return;
+      log('Initializing workspaces (IndexedDB)');
+      return initializeWorkspaces();
+    })
+    .catch(err => {
+      error('Failed to restore workspaces, starting with default cards', err);
+      loadDefaultCards();
+    });
+  // Pasting a shared link into the address bar of an open viewer only changes the fragment
+  window.addEventListener('hashchange', () => {
+    if (new URLSearchParams(location.hash.substring(1)).has(SHARE_LINK_PARAM)) location.reload();
+  });
+  
+  log('Initializing scenario catalog (manifest from content source)');
+  initializeScenarioCatalog();
+  
+  log('Initializing card load monitoring');
+  initializeCardLoadMonitoring();
+  
+  // The header, shortcuts and command palette all run these
+  log('Registering workspace actions');
+  registerWorkspaceActions();
   
   log('Performing initial application render');
   try {
@@ -76,76 +106,148 @@ document.addEventListener('DOMContentLoaded', () => {
   requestAnimationFrame(() => {
     log('Executing interaction system setup (post-render)');
     try {
+      setupCanvasNavigation();
+      setupSelectionSystem();
       setupDragAndDrop();
+      setupCardResize();
       setupConnectionSystem();
-      success('Interaction systems (drag & drop, connections) set up.');
+      setupKeyboardShortcuts();
+      setupCardKeyboard();
+      setupCollaborationPresence();
+      setupCardVirtualization();
+      success('Interaction systems (canvas, drag & drop, connections, keyboard, presence, virtualization) set up.');
     } catch (err) {
         error('Error setting up interaction systems', err);
     }
   });
   
-  log('Starting application render loop');
-  runRenderLoop();
   success('Application initialization sequence complete.');
 });
 
-function runRenderLoop() {
-  // log('Render loop initialized'); // Can be verbose
-  let lastRenderTime = performance.now();
+/**
+ * Renders the app in the next animation frame, once however many state
+ * changes happen before it.
+ */
+function scheduleRender() {
+  if (isRenderScheduled) return;
+  isRenderScheduled = true;
+  requestAnimationFrame(renderFrame);
+}
 
-  function renderLoop(currentTime: number) {
-    if ($isDirty.get()) {
-      const startTime = performance.now();
-      // log('Render loop: $isDirty is true, re-rendering application.');
-      const appRoot = document.getElementById('workspace');
-      if (appRoot) {
-        try {
-            render(renderApp(), appRoot);
-            // log('Re-render complete.');
-        } catch (err) {
-            error('Error during re-render in loop', err);
-        }
-        $isDirty.set(false);
-        // log(`Render took ${performance.now() - startTime}ms`);
-      } else {
-        error('CRITICAL: Lost workspace element (appRoot) during render loop. Halting loop.');
-        return; // Stop the loop if workspace is gone
-      }
-    }
-    requestAnimationFrame(renderLoop);
+function renderFrame() {
+  isRenderScheduled = false;
+  const appRoot = document.getElementById('workspace');
+  if (!appRoot) {
+    error('CRITICAL: Lost workspace element (appRoot), cannot render.');
+    return;
+  }
+  try {
+    // const startTime = performance.now();
+    render(renderApp(), appRoot);
+    // log(`Render took ${performance.now() - startTime}ms`);
+  } catch (err) {
+    error('Error during re-render', err);
   }
-  
-  requestAnimationFrame(renderLoop);
 }
 
 function subscribeToStateChanges() {
   log('Attempting to subscribe to core state atoms for UI updates.');
-  import('./state').then(stateModule => {
+  Promise.all([
+    import('./state'),
+    import('./state/history'),
+    import('./state/camera'),
+    import('./state/catalog'),
+    import('./state/workspaces'),
+    import('./state/export'),
+    import('./state/collaboration'),
+    import('./state/share-link'),
+    import('./state/environments'),
+    import('./state/scenario-bridge'),
+    import('./state/card-loading'),
+    import('./state/accessibility'),
+    import('./state/keyboard-connection'),
+    import('./state/actions'),
+    import('./state/command-palette'),
+    import('./state/card-views'),
+    import('./state/connection-geometry')
+  ]).then(([stateModule, historyModule, cameraModule, catalogModule, workspacesModule, exportModule, collaborationModule, shareLinkModule, environmentsModule, scenarioBridgeModule, cardLoadingModule, accessibilityModule, keyboardConnectionModule, actionsModule, commandPaletteModule, cardViewsModule, connectionGeometryModule]) => {
     success('State module imported successfully for subscriptions.');
-    const { $allCards, $allConnections, $activeDraggedCard, $pendingConnection, $hostUrl } = stateModule;
+    const { $allCards, $allConnections, $activeDraggedCard, $activeResizedCard, $selectedCardIds, $selectedConnectionId, $marquee, $pendingConnection, $connectionEndDrag, $hostUrl, $connectionRouting, $gridSettings, $snapGuides, $layoutLoadReport } = stateModule;
+    const { $undoStack, $redoStack } = historyModule;
+    const { $camera } = cameraModule;
+    const { $scenarioCatalog, $catalogSource, $isScenarioPickerOpen } = catalogModule;
+    const { $workspaces, $activeWorkspaceId } = workspacesModule;
+    const { $exportOptions, $isExportDialogOpen } = exportModule;
+    const { $collaboration, $collaborators, $collaboratorName, $relayUrl } = collaborationModule;
+    const { $sharedBoardPreview } = shareLinkModule;
+    const { $environments, $isEnvironmentPanelOpen } = environmentsModule;
+    const { $scenarioReports } = scenarioBridgeModule;
+    const { $cardLoadStates, $mountedCardIds } = cardLoadingModule;
+    const { $announcement } = accessibilityModule;
+    const { $keyboardConnection } = keyboardConnectionModule;
+    const { $shortcutOverrides, $isShortcutSettingsOpen, $recordingShortcutFor } = actionsModule;
+    const { $commandPalette } = commandPaletteModule;
+    const { $cardViews } = cardViewsModule;
+    const { $connectionViews } = connectionGeometryModule;
     
     const atomsToWatch = {
       $allCards,
       $allConnections, 
       $activeDraggedCard,
+      $activeResizedCard,
+      $selectedCardIds,
+      $selectedConnectionId,
+      $marquee,
       $pendingConnection,
-      $hostUrl
+      $connectionEndDrag,
+      $hostUrl,
+      $connectionRouting,
+      $gridSettings,
+      $snapGuides,
+      $layoutLoadReport,
+      $camera,
+      $scenarioCatalog,
+      $catalogSource,
+      $isScenarioPickerOpen,
+      $workspaces,
+      $activeWorkspaceId,
+      $exportOptions,
+      $isExportDialogOpen,
+      $collaboration,
+      $collaborators,
+      $collaboratorName,
+      $relayUrl,
+      $sharedBoardPreview,
+      $environments,
+      $isEnvironmentPanelOpen,
+      $scenarioReports,
+      $cardLoadStates,
+      $mountedCardIds,
+      $announcement,
+      $keyboardConnection,
+      $shortcutOverrides, // Shortcuts shown in tooltips and the palette
+      $isShortcutSettingsOpen,
+      $recordingShortcutFor,
+      $commandPalette,
+      // Derived stores stay computed (and keep reusing unchanged views) while they are watched
+      $cardViews,
+      $connectionViews,
+      $undoStack, // Keeps undo/redo buttons in sync
+      $redoStack
     };
     
     for (const [name, atomInstance] of Object.entries(atomsToWatch)) {
       if (atomInstance && typeof atomInstance.subscribe === 'function') {
         atomInstance.subscribe((value: any) => { // Add type for value if known, or use 'unknown'/'any'
           // log(`State change detected in ${name}`, value); // Can be very verbose
-          if (!$isDirty.get()) { // Set dirty only if not already set, minor optimization
-            $isDirty.set(true);
-          }
+          scheduleRender();
         });
-        log(`Successfully subscribed to ${name} for $isDirty updates.`);
+        log(`Successfully subscribed to ${name} for render updates.`);
       } else {
         error(`Failed to subscribe to ${name}: not a valid store.`, { atomInstance });
       }
     }
-    success('All core state subscriptions for $isDirty complete.');
+    success('All core state subscriptions for render updates complete.');
   }).catch(err => {
     error('CRITICAL: Failed to import state module for subscriptions. UI updates will not occur.', err);
   });
@@ -0,0 +1,427 @@
+/**
+ * BUILT-IN WORKSPACE ACTIONS
+ *
+ * Everything the header, the keyboard shortcuts and the command palette can
+ * do, registered with the action registry (state/actions.ts).
+ *
+ * Product Features:
+ * - History, view, selection, layout, scenario, connection, content source,
+ *   workspace and export actions
+ * - Jump to a card by its title, rename it or open its notes, connect two cards, remove a connection
+ * - The default shortcuts (Ctrl+Z, Shift+1, Ctrl+K, ...)
+ */
+
+import {
+  $allCards,
+  $allConnections,
+  $selectedCardIds,
+  clearSelection,
+  createConnection,
+  removeCards,
+  removeConnection,
+  selectAllCards,
+  selectCards
+} from '../state';
+import { WorkspaceAction, registerActions, $isShortcutSettingsOpen } from '../state/actions';
+import { announce, describeConnection, getCardName } from '../state/accessibility';
+import { undo, redo, $undoStack, $redoStack } from '../state/history';
+import { $isScenarioPickerOpen, $scenarioCatalog } from '../state/catalog';
+import {
+  $environments,
+  $isEnvironmentPanelOpen,
+  isValidBaseUrl,
+  setDefaultEnvironmentProfile,
+  updateEnvironmentProfile
+} from '../state/environments';
+import {
+  $workspaces,
+  $activeWorkspaceId,
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  renameWorkspace,
+  switchWorkspace
+} from '../state/workspaces';
+import { $isExportDialogOpen } from '../state/export';
+import { $sharedBoardPreview } from '../state/share-link';
+import { reloadAllCards } from '../state/card-loading';
+import { getFacingSide } from '../state/keyboard-connection';
+import { openCommandPalette } from '../state/command-palette';
+import { openNotes, startEditingTitle } from '../state/card-metadata';
+import { zoomIn, zoomOut, resetZoom, zoomToFit, zoomToSelection } from './canvas';
+import { resetLayout, autoArrange, saveLayoutToFile } from './layout';
+import { copyShareLink } from './share-link';
+import { addScenarioCard } from './scenarios';
+import { log, error } from '../utils/logger';
+
+/** The header only exists outside shared link previews, and some actions open its panels */
+const hasHeader = () => !$sharedBoardPreview.get();
+
+const cardOptions = (excludeIds: number[] = []) => $allCards.get()
+  .filter(card => !excludeIds.includes(card.id))
+  .map(card => ({ value: String(card.id), label: getCardName(card.id) }));
+
+const findWorkspace = (id: string | null) => $workspaces.get().find(w => w.id === id);
+
+/**
+ * Registers every built-in action.
+ * Product Purpose: One list of everything the workspace can do, for the palette and for shortcuts.
+ */
+export function registerWorkspaceActions() {
+  const actions: WorkspaceAction[] = [
+    // History
+    {
+      id: 'history.undo',
+      title: 'Undo',
+      category: 'History',
+      defaultShortcuts: ['Mod+Z'],
+      editsBoard: true,
+      isEnabled: () => $undoStack.get().length > 0,
+      run: () => {
+        const entry = $undoStack.get()[$undoStack.get().length - 1];
+        undo();
+        announce(`Undid ${entry.label.toLowerCase()}`);
+      }
+    },
+    {
+      id: 'history.redo',
+      title: 'Redo',
+      category: 'History',
+      defaultShortcuts: ['Mod+Shift+Z', 'Mod+Y'],
+      editsBoard: true,
+      isEnabled: () => $redoStack.get().length > 0,
+      run: () => {
+        const entry = $redoStack.get()[$redoStack.get().length - 1];
+        redo();
+        announce(`Redid ${entry.label.toLowerCase()}`);
+      }
+    },
+
+    // View
+    { id: 'view.zoom-in', title: 'Zoom in', category: 'View', defaultShortcuts: ['Mod+=', 'Mod+Shift+=', 'Mod+Plus'], run: zoomIn },
+    { id: 'view.zoom-out', title: 'Zoom out', category: 'View', defaultShortcuts: ['Mod+-'], run: zoomOut },
+    { id: 'view.zoom-reset', title: 'Zoom to 100%', category: 'View', keywords: ['reset zoom'], defaultShortcuts: ['Mod+0'], run: resetZoom },
+    { id: 'view.zoom-fit', title: 'Show all cards', category: 'View', keywords: ['zoom to fit'], defaultShortcuts: ['Shift+1'], run: zoomToFit },
+    {
+      id: 'view.zoom-selection',
+      title: 'Zoom to selection',
+      category: 'View',
+      defaultShortcuts: ['Shift+2'],
+      isEnabled: () => $selectedCardIds.get().length > 0,
+      run: zoomToSelection
+    },
+    {
+      id: 'card.go-to',
+      title: 'Go to card',
+      category: 'View',
+      keywords: ['jump', 'find', 'scenario'],
+      args: [{ prompt: 'Go to card…', options: () => cardOptions() }],
+      run: ([cardId]) => goToCard(Number(cardId))
+    },
+
+    // Selection
+    { id: 'selection.all', title: 'Select all cards', category: 'Selection', defaultShortcuts: ['Mod+A'], run: selectAllCards },
+    { id: 'selection.clear', title: 'Clear selection', category: 'Selection', defaultShortcuts: ['Escape'], run: clearSelection },
+    {
+      id: 'selection.remove',
+      title: 'Remove selected cards',
+      category: 'Selection',
+      keywords: ['delete'],
+      defaultShortcuts: ['Delete', 'Backspace'],
+      editsBoard: true,
+      isEnabled: () => $selectedCardIds.get().length > 0,
+      run: () => {
+        const selectedIds = $selectedCardIds.get();
+        const message = selectedIds.length === 1 ? `Removed ${getCardName(selectedIds[0])}` : `Removed ${selectedIds.length} cards`;
+        removeCards(selectedIds);
+        announce(message);
+      }
+    },
+
+    // Layout
+    { id: 'layout.reset', title: 'Reset layout', category: 'Layout', keywords: ['grid'], editsBoard: true, run: resetLayout },
+    { id: 'layout.arrange-lr', title: 'Arrange left to right', category: 'Layout', keywords: ['auto'], editsBoard: true, run: () => autoArrange('LR') },
+    { id: 'layout.arrange-tb', title: 'Arrange top to bottom', category: 'Layout', keywords: ['auto'], editsBoard: true, run: () => autoArrange('TB') },
+    { id: 'layout.save', title: 'Save layout to a file', category: 'Layout', keywords: ['download', 'json'], defaultShortcuts: ['Mod+S'], run: saveLayoutToFile },
+    {
+      id: 'layout.load',
+      title: 'Load layout from a file',
+      category: 'Layout',
+      keywords: ['open', 'import', 'mermaid', 'dot'],
+      defaultShortcuts: ['Mod+O'],
+      editsBoard: true,
+      // The file input lives in the header
+      run: () => document.getElementById('layout-file-input')?.click()
+    },
+    { id: 'layout.copy-link', title: 'Copy link to this board', category: 'Layout', keywords: ['share', 'url'], run: () => { copyShareLink(); } },
+
+    // Scenarios
+    {
+      id: 'scenario.add',
+      title: 'Add scenario',
+      category: 'Scenarios',
+      keywords: ['new card', 'catalog'],
+      editsBoard: true,
+      args: [{
+        prompt: 'Add which scenario…',
+        options: () => $scenarioCatalog.get()
+          .filter(scenario => !$allCards.get().some(card => card.id === scenario.id))
+          .map(scenario => ({ value: String(scenario.id), label: scenario.title, detail: scenario.description }))
+      }],
+      run: ([scenarioId]) => addScenarioCard(Number(scenarioId))
+    },
+    {
+      id: 'scenario.browse',
+      title: 'Browse scenario catalog',
+      category: 'Scenarios',
+      isEnabled: hasHeader,
+      run: () => $isScenarioPickerOpen.set(!$isScenarioPickerOpen.get())
+    },
+    { id: 'scenario.reload-all', title: 'Reload all scenarios', category: 'Scenarios', run: reloadAllCards },
+    {
+      id: 'card.rename',
+      title: 'Rename card',
+      category: 'Scenarios',
+      keywords: ['title'],
+      editsBoard: true,
+      args: [{ prompt: 'Rename which card…', options: () => cardOptions() }],
+      run: ([cardId]) => {
+        goToCard(Number(cardId));
+        // After goToCard has focused the card, so the title field keeps focus
+        requestAnimationFrame(() => startEditingTitle(Number(cardId)));
+      }
+    },
+    {
+      id: 'card.notes',
+      title: 'Open card notes',
+      category: 'Scenarios',
+      keywords: ['details', 'tags', 'owner', 'description', 'color'],
+      args: [{ prompt: 'Notes of which card…', options: () => cardOptions() }],
+      run: ([cardId]) => {
+        goToCard(Number(cardId));
+        openNotes(Number(cardId));
+      }
+    },
+
+    // Connections
+    {
+      id: 'connection.create',
+      title: 'Connect cards',
+      category: 'Connections',
+      keywords: ['link', 'arrow'],
+      editsBoard: true,
+      isEnabled: () => $allCards.get().length > 1,
+      args: [
+        { prompt: 'Connect from…', options: () => cardOptions() },
+        { prompt: 'Connect to…', options: ([fromId]) => cardOptions([Number(fromId)]) }
+      ],
+      run: ([fromId, toId]) => connectCards(Number(fromId), Number(toId))
+    },
+    {
+      id: 'connection.remove',
+      title: 'Remove connection',
+      category: 'Connections',
+      keywords: ['delete', 'unlink'],
+      editsBoard: true,
+      isEnabled: () => $allConnections.get().length > 0,
+      args: [{
+        prompt: 'Remove which connection…',
+        options: () => $allConnections.get().map(connection => ({ value: connection.id, label: describeConnection(connection) }))
+      }],
+      run: ([connectionId]) => {
+        const connection = $allConnections.get().find(c => c.id === connectionId);
+        if (!connection) return;
+        const description = describeConnection(connection);
+        removeConnection(connectionId);
+        announce(`Removed connection: ${description}`);
+      }
+    },
+
+    // Content source
+    {
+      id: 'environment.switch',
+      title: 'Change content source',
+      category: 'Content source',
+      keywords: ['environment', 'host', 'default'],
+      editsBoard: true,
+      args: [{
+        prompt: 'Load scenarios from…',
+        options: () => $environments.get().profiles.map(profile => ({ value: profile.id, label: profile.name, detail: profile.baseUrl }))
+      }],
+      run: ([profileId]) => setDefaultEnvironmentProfile(profileId)
+    },
+    {
+      id: 'environment.edit-url',
+      title: 'Change content source address',
+      category: 'Content source',
+      keywords: ['environment', 'host', 'url'],
+      editsBoard: true,
+      run: editDefaultSourceUrl
+    },
+    {
+      id: 'environment.manage',
+      title: 'Manage environments',
+      category: 'Content source',
+      isEnabled: hasHeader,
+      run: () => $isEnvironmentPanelOpen.set(!$isEnvironmentPanelOpen.get())
+    },
+
+    // Workspaces
+    {
+      id: 'workspace.switch',
+      title: 'Switch workspace',
+      category: 'Workspaces',
+      editsBoard: true,
+      isEnabled: () => $workspaces.get().length > 1,
+      args: [{
+        prompt: 'Switch to…',
+        options: () => $workspaces.get()
+          .filter(workspace => workspace.id !== $activeWorkspaceId.get())
+          .map(workspace => ({ value: workspace.id, label: workspace.name }))
+      }],
+      run: ([id]) => { switchWorkspace(id); }
+    },
+    { id: 'workspace.new', title: 'New workspace', category: 'Workspaces', editsBoard: true, run: newWorkspace },
+    {
+      id: 'workspace.rename',
+      title: 'Rename workspace',
+      category: 'Workspaces',
+      editsBoard: true,
+      isEnabled: () => !!$activeWorkspaceId.get(),
+      run: renameActiveWorkspace
+    },
+    {
+      id: 'workspace.duplicate',
+      title: 'Duplicate workspace',
+      category: 'Workspaces',
+      editsBoard: true,
+      isEnabled: () => !!$activeWorkspaceId.get(),
+      run: () => {
+        const id = $activeWorkspaceId.get();
+        if (id) duplicateWorkspace(id);
+      }
+    },
+    {
+      id: 'workspace.delete',
+      title: 'Delete workspace',
+      category: 'Workspaces',
+      editsBoard: true,
+      isEnabled: () => $workspaces.get().length > 1,
+      run: deleteActiveWorkspace
+    },
+
+    // Export
+    {
+      id: 'export.open',
+      title: 'Export image or diagram',
+      category: 'Export',
+      keywords: ['svg', 'png', 'mermaid', 'dot'],
+      isEnabled: hasHeader,
+      run: () => $isExportDialogOpen.set(!$isExportDialogOpen.get())
+    },
+
+    // Help
+    {
+      id: 'palette.open',
+      title: 'Command palette',
+      category: 'Help',
+      defaultShortcuts: ['Mod+K'],
+      run: () => {
+        openCommandPalette();
+        // After the next render, which adds the search field
+        requestAnimationFrame(() => document.querySelector<HTMLInputElement>('.command-palette-input')?.focus());
+      }
+    },
+    {
+      id: 'shortcuts.edit',
+      title: 'Keyboard shortcuts',
+      category: 'Help',
+      keywords: ['keys', 'bindings', 'hotkeys'],
+      run: () => $isShortcutSettingsOpen.set(true)
+    }
+  ];
+
+  registerActions(actions);
+}
+
+/**
+ * Selects a card, brings it into view and gives it keyboard focus.
+ * Product Flow: User types the start of a scenario title in the palette → the board jumps to that card
+ */
+function goToCard(cardId: number) {
+  if (!$allCards.get().some(card => card.id === cardId)) {
+    error('goToCard: Card not found', { cardId });
+    return;
+  }
+  selectCards([cardId]);
+  zoomToSelection();
+  // After the next render, so focus lands on the card at its new position
+  requestAnimationFrame(() => {
+    document.querySelector<HTMLElement>(`.card[data-card-id="${cardId}"]`)?.focus({ preventScroll: true });
+  });
+}
+
+/**
+ * Connects two cards on the sides that face each other.
+ * Product Flow: User picks "Connect cards…" → Scenario 2 → Scenario 5 → "Connected Scenario 2 to Scenario 5"
+ */
+function connectCards(fromCardId: number, toCardId: number) {
+  const cards = $allCards.get();
+  const from = cards.find(card => card.id === fromCardId);
+  const to = cards.find(card => card.id === toCardId);
+  if (!from || !to || from.id === to.id) {
+    error('connectCards: Cards not found', { fromCardId, toCardId });
+    return;
+  }
+  const countBefore = $allConnections.get().length;
+  createConnection({
+    fromCardId,
+    fromSide: getFacingSide(from, to),
+    fromPosition: 0.5,
+    toCardId,
+    toSide: getFacingSide(to, from),
+    toPosition: 0.5
+  });
+  announce($allConnections.get().length > countBefore
+    ? `Connected ${getCardName(fromCardId)} to ${getCardName(toCardId)}`
+    : `${getCardName(fromCardId)} is already connected to ${getCardName(toCardId)}`);
+}
+
+/**
+ * Asks for a new address for the default environment.
+ */
+function editDefaultSourceUrl() {
+  const settings = $environments.get();
+  const profile = settings.profiles.find(p => p.id === settings.defaultProfileId);
+  if (!profile) return;
+  const url = prompt(`Address scenarios are loaded from (${profile.name}):`, profile.baseUrl);
+  if (url === null || url.trim() === profile.baseUrl) return;
+  if (!isValidBaseUrl(url)) {
+    alert('Please enter a full address starting with http:// or https://');
+    return;
+  }
+  log('Content source address changed', { profileId: profile.id, url });
+  updateEnvironmentProfile(profile.id, { baseUrl: url.trim() });
+}
+
+function newWorkspace() {
+  const name = prompt('Name for the new workspace:', 'Untitled workspace');
+  if (!name?.trim()) return;
+  createWorkspace(name.trim());
+}
+
+function renameActiveWorkspace() {
+  const id = $activeWorkspaceId.get();
+  const current = findWorkspace(id);
+  if (!id || !current) return;
+  const name = prompt('Rename workspace:', current.name);
+  if (!name || name === current.name) return;
+  renameWorkspace(id, name);
+}
+
+function deleteActiveWorkspace() {
+  const id = $activeWorkspaceId.get();
+  const current = findWorkspace(id);
+  if (!id || !current || !confirm(`Delete the workspace "${current.name}"? This cannot be undone.`)) return;
+  deleteWorkspace(id);
+}
@@ -0,0 +1,252 @@
+/**
+ * CANVAS NAVIGATION
+ *
+ * This module turns the workspace into an infinite canvas that users can
+ * pan and zoom. It also converts pointer positions from the screen into
+ * world coordinates so dragging and connecting work at any zoom level.
+ *
+ * Product Features:
+ * - Mouse wheel / trackpad pinch zooms around the cursor
+ * - Hold Space and drag (or drag with the middle mouse button) to pan
+ * - Zoom in/out/reset, zoom to fit and zoom to selection commands
+ */
+
+import { $allCards, $selectedCardIds } from '../state';
+import {
+  $camera,
+  Point,
+  Bounds,
+  MAX_ZOOM,
+  viewportToWorld,
+  panCamera,
+  zoomCameraTo,
+  fitCameraToBounds,
+  getCardsBounds
+} from '../state/camera';
+import { log, error } from '../utils/logger';
+
+/** Multiplicative zoom step used by buttons and keyboard shortcuts */
+const ZOOM_STEP = 1.2;
+
+/** Whether the Space key is currently held down (pan mode) */
+let isSpaceHeld = false;
+
+/**
+ * Initializes wheel zoom and drag-to-pan on the workspace.
+ * Product Purpose: Lets teams reach every card on boards larger than the screen.
+ */
+export function setupCanvasNavigation() {
+  log('Setting up canvas navigation');
+
+  const workspace = document.getElementById('workspace');
+  if (!workspace) {
+    error('Cannot setup canvas navigation: workspace element not found');
+    return;
+  }
+
+  workspace.addEventListener('wheel', handleWheel, { passive: false });
+  // Capture phase so panning wins over card dragging while Space is held
+  workspace.addEventListener('pointerdown', handlePanStart, true);
+  document.addEventListener('keydown', handleSpaceDown);
+  document.addEventListener('keyup', handleSpaceUp);
+  window.addEventListener('blur', () => setSpaceHeld(false));
+}
+
+/**
+ * Returns the on-screen element that defines the viewport coordinate system.
+ */
+function getViewportElement(): HTMLElement | null {
+  return document.getElementById('workspace-content');
+}
+
+/**
+ * Converts a pointer position (clientX/clientY) to viewport coordinates.
+ */
+export function clientToViewport(clientX: number, clientY: number): Point {
+  const viewport = getViewportElement();
+  const rect = viewport?.getBoundingClientRect();
+  return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+}
+
+/**
+ * Converts a pointer position (clientX/clientY) to world coordinates.
+ * Product Purpose: Cards follow the cursor exactly no matter how far the user has zoomed.
+ */
+export function clientToWorld(clientX: number, clientY: number): Point {
+  return viewportToWorld(clientToViewport(clientX, clientY));
+}
+
+function getViewportSize(): { width: number; height: number } {
+  const viewport = getViewportElement();
+  return { width: viewport?.clientWidth ?? window.innerWidth, height: viewport?.clientHeight ?? window.innerHeight };
+}
+
+function getViewportCenter(): Point {
+  const { width, height } = getViewportSize();
+  return { x: width / 2, y: height / 2 };
+}
+
+/**
+ * Returns the world point currently shown at the center of the viewport.
+ * Product Purpose: New cards appear where the user is looking, not at the world origin.
+ */
+export function getVisibleWorldCenter(): Point {
+  return viewportToWorld(getViewportCenter());
+}
+
+/**
+ * Returns the part of the world currently visible in the viewport.
+ */
+export function getVisibleWorldBounds(): Bounds {
+  const { width, height } = getViewportSize();
+  const topLeft = viewportToWorld({ x: 0, y: 0 });
+  const { zoom } = $camera.get();
+  return { x: topLeft.x, y: topLeft.y, width: width / zoom, height: height / zoom };
+}
+
+/**
+ * Zooms around the cursor on wheel / pinch gestures.
+ */
+function handleWheel(event: WheelEvent) {
+  if (!(event.target as Element).closest('#workspace-content')) return;
+  if ((event.target as Element).closest('.card-notes-panel')) return; // Long notes scroll instead
+  event.preventDefault();
+
+  // Line-based deltas (classic mouse wheels) are much coarser than pixel deltas
+  const pixelDelta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+  const factor = Math.exp(-pixelDelta * 0.0015);
+  zoomCameraTo($camera.get().zoom * factor, clientToViewport(event.clientX, event.clientY));
+}
+
+function setSpaceHeld(held: boolean) {
+  isSpaceHeld = held;
+  document.body.classList.toggle('space-pan-mode', held);
+}
+
+/**
+ * Space pans only while focus is on the board itself (nothing, the workspace or
+ * a card); on buttons, swatches and text fields it keeps pressing and typing.
+ */
+function isPanFocusTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof Element)) return true;
+  return target === document.body || target.matches('#workspace, #workspace-content, .card');
+}
+
+function handleSpaceDown(event: KeyboardEvent) {
+  if (event.code !== 'Space' || !isPanFocusTarget(event.target)) return;
+  event.preventDefault(); // Don't scroll the page
+  if (!isSpaceHeld) setSpaceHeld(true);
+}
+
+function handleSpaceUp(event: KeyboardEvent) {
+  if (event.code !== 'Space') return;
+  setSpaceHeld(false);
+}
+
+/**
+ * Starts panning when the user presses with Space held or with the middle button.
+ * Product Flow: User holds Space → drags the board → releases to stop
+ */
+function handlePanStart(event: PointerEvent) {
+  const isMiddleButton = event.button === 1;
+  if (!isSpaceHeld && !isMiddleButton) return;
+  if (!(event.target as Element).closest('#workspace-content')) return;
+
+  event.preventDefault();
+  event.stopPropagation(); // Don't start card drags or connections
+  log('Canvas pan started');
+
+  let lastX = event.clientX;
+  let lastY = event.clientY;
+  document.body.classList.add('panning');
+
+  function handleMove(moveEvent: PointerEvent) {
+    if (moveEvent.pointerId !== event.pointerId) return;
+    panCamera(moveEvent.clientX - lastX, moveEvent.clientY - lastY);
+    lastX = moveEvent.clientX;
+    lastY = moveEvent.clientY;
+  }
+
+  // Also runs when the browser cancels the pointer (e.g. the OS takes over a touch)
+  function handleRelease(releaseEvent: PointerEvent) {
+    if (releaseEvent.pointerId !== event.pointerId) return;
+    document.removeEventListener('pointermove', handleMove);
+    document.removeEventListener('pointerup', handleRelease);
+    document.removeEventListener('pointercancel', handleRelease);
+    document.body.classList.remove('panning');
+    log('Canvas pan ended', { camera: $camera.get() });
+  }
+
+  document.addEventListener('pointermove', handleMove);
+  document.addEventListener('pointerup', handleRelease);
+  document.addEventListener('pointercancel', handleRelease);
+}
+
+/**
+ * Zooms in one step around the center of the viewport.
+ */
+export function zoomIn() {
+  zoomCameraTo($camera.get().zoom * ZOOM_STEP, getViewportCenter());
+}
+
+/**
+ * Zooms out one step around the center of the viewport.
+ */
+export function zoomOut() {
+  zoomCameraTo($camera.get().zoom / ZOOM_STEP, getViewportCenter());
+}
+
+/**
+ * Returns to 100% zoom, keeping the center of the viewport in place.
+ */
+export function resetZoom() {
+  zoomCameraTo(1, getViewportCenter());
+}
+
+/**
+ * Frames every card on the board.
+ * Product Flow: User clicks "Fit" → all scenarios become visible at once
+ */
+export function zoomToFit() {
+  const bounds = getCardsBounds($allCards.get());
+  if (!bounds) {
+    log('Zoom to fit skipped: no cards');
+    return;
+  }
+  fitCameraToBounds(bounds, getViewportSize());
+}
+
+/**
+ * Frames the selected cards, zooming in if they are small.
+ * Product Flow: User picks a card → clicks "Selection" → that card fills the view
+ */
+export function zoomToSelection() {
+  const selectedIds = $selectedCardIds.get();
+  const bounds = getCardsBounds($allCards.get().filter(card => selectedIds.includes(card.id)));
+  if (!bounds) {
+    log('Zoom to selection skipped: nothing selected');
+    return;
+  }
+  fitCameraToBounds(bounds, getViewportSize(), MAX_ZOOM / 2);
+}
+
+/**
+ * Pans just enough to bring a world rectangle into view (as much of it as fits).
+ * Product Flow: User tabs to a card off-screen → the board scrolls it into view
+ */
+export function panToReveal(bounds: Bounds, padding = 40) {
+  const { zoom } = $camera.get();
+  const visible = getVisibleWorldBounds();
+  const margin = padding / zoom;
+  const overflow = (start: number, size: number, visibleStart: number, visibleSize: number) => {
+    if (start - margin < visibleStart) return start - margin - visibleStart;
+    if (start + size + margin > visibleStart + visibleSize) {
+      // Too large to fit: show its start rather than its end
+      return Math.min(start + size + margin - visibleStart - visibleSize, start - margin - visibleStart);
+    }
+    return 0;
+  };
+  const dx = overflow(bounds.x, bounds.width, visible.x, visible.width);
+  const dy = overflow(bounds.y, bounds.height, visible.y, visible.height);
+  if (dx !== 0 || dy !== 0) panCamera(-dx * zoom, -dy * zoom);
+}
@@ -10,11 +10,33 @@
  * - Visual feedback during dragging  
  * - Smooth animation for position updates
  * - Brings dragged card to front (prevents hiding)
+ * - Shift-click to add cards to the selection; dragging moves the whole selection
+ * - Both cards of a comparison pair move together
+ * - Snaps to the grid and to other cards' edges, centers and spacing (hold Alt to disable)
+ * - A whole drag is recorded as a single undo step
  */
 
-import { $allCards, $activeDraggedCard, updateCardPosition, bringCardToFront } from '../state';
+import {
+  $allCards,
+  $activeDraggedCard,
+  $selectedCardIds,
+  $gridSettings,
+  $snapGuides,
+  moveCards,
+  bringCardsToFront,
+  selectCards,
+  toggleCardSelection
+} from '../state';
+import { $camera, getCardsBounds } from '../state/camera';
+import { computeSnap } from '../utils/snapping';
+import { beginTransaction, commitTransaction } from '../state/history';
+import { withComparisonPartners } from '../state/comparison';
+import { $sharedBoardPreview } from '../state/share-link';
 import { log, error } from '../utils/logger';
 
+/** How close (in screen pixels) an edge must get before it snaps */
+const SNAP_THRESHOLD_PX = 6;
+
 
 /**
  * Initializes the drag-and-drop system for all scenario cards.
@@ -35,16 +57,20 @@ export function setupDragAndDrop() {
   
 
 /**
- * Handles clicks on the workspace to initialize card dragging.
- * Product Behavior: Only allows dragging by the handle to prevent accidental moves.
+ * Handles clicks on the workspace to update the selection and start dragging.
+ * Product Behavior: Only allows dragging by the handle to prevent accidental moves;
+ * clicking elsewhere on a card header just selects it.
  */
 function handleWorkspaceClick(event: PointerEvent) {
-  const handle = (event.target as Element).closest('[data-drag-handle]');
+  if ($sharedBoardPreview.get()) return; // Shared link previews are read-only
+  const target = event.target as Element;
+  const handle = target.closest('[data-drag-handle]');
+  const header = target.closest('.card-header');
   log('Workspace click event for drag', { target: event.target, hasHandle: !!handle });
   
-  if (!handle) return;
+  if (!handle && (!header || target.closest('button, input, select, textarea'))) return;
   
-  const cardElement = handle.closest('.card') as HTMLElement; // Renamed to cardElement to avoid conflict
+  const cardElement = target.closest('.card') as HTMLElement; // Renamed to cardElement to avoid conflict
   if (!cardElement) {
     error('No card element found for handle');
     return;
@@ -56,62 +82,111 @@ function handleWorkspaceClick(event: PointerEvent) {
     return;
   }
   
-  log('Card drag initiated', { cardId });
+  if (event.shiftKey) {
+    toggleCardSelection(cardId);
+  } else if (!$selectedCardIds.get().includes(cardId)) {
+    selectCards([cardId]);
+  }
+  
+  // Shift-clicking a selected card removes it from the selection; don't drag it then
+  if (!handle || !$selectedCardIds.get().includes(cardId)) return;
+  
+  log('Card drag initiated', { cardId, selection: $selectedCardIds.get() });
   startDraggingCard(cardElement, cardId, event);
 }
 
 /**
- * Initiates card dragging when user clicks on a handle.
- * Product Flow: User grabs handle → card becomes moveable → follows cursor
+ * Initiates dragging of the grabbed card and every other selected card.
+ * Product Flow: User grabs handle → selection becomes moveable → follows cursor
  */
 function startDraggingCard(element: HTMLElement, cardId: number, event: PointerEvent) {
     log('Card drag started', { cardId, clientX: event.clientX, clientY: event.clientY });
     
     event.preventDefault(); // Prevent text selection or other default actions
     $activeDraggedCard.set(cardId);
-    bringCardToFront(cardId);
+    
+    const selectedIds = withComparisonPartners($selectedCardIds.get());
     
     const startX = event.clientX;
     const startY = event.clientY;
-    const currentCards = $allCards.get(); // Get current state of cards
-    const cardData = currentCards.find(c => c.id === cardId);
+    const draggedCards = $allCards.get().filter(c => selectedIds.includes(c.id)); // Get current state of cards
     
-    if (!cardData) {
+    if (!draggedCards.some(c => c.id === cardId)) {
       error('Card data not found for dragging', { cardId });
       $activeDraggedCard.set(null); // Reset active card if data is missing
       return;
     }
     
-    log('Card initial position for drag', { cardId, x: cardData.x, y: cardData.y });
+    log('Initial positions for drag', draggedCards.map(c => ({ id: c.id, x: c.x, y: c.y })));
     
-    const initialX = cardData.x;
-    const initialY = cardData.y;
+    // The selection snaps as one block against the cards that stay put
+    const initialBounds = getCardsBounds(draggedCards)!;
+    const stationaryCards = $allCards.get().filter(c => !selectedIds.includes(c.id));
+    // The undo step opens on the first real move, so a click that moves nothing records none
+    let hasMoved = false;
+    let isReleased = false;
     
     function handleMove(moveEvent: PointerEvent) {
-      const deltaX = moveEvent.clientX - startX;
-      const deltaY = moveEvent.clientY - startY;
-      const newX = initialX + deltaX;
-      const newY = initialY + deltaY;
+      if (moveEvent.pointerId !== event.pointerId) return;
+      if (!hasMoved) {
+        if (moveEvent.clientX === startX && moveEvent.clientY === startY) return;
+        hasMoved = true;
+        beginTransaction('Move cards'); // Everything until release is one undo step
+        bringCardsToFront(selectedIds);
+      }
+
+      // Screen pixels shrink or grow with zoom; convert the delta to world pixels
+      const zoom = $camera.get().zoom;
+      let deltaX = (moveEvent.clientX - startX) / zoom;
+      let deltaY = (moveEvent.clientY - startY) / zoom;
+      
+      const settings = $gridSettings.get();
+      if (!moveEvent.altKey && (settings.snapToGrid || settings.guides)) {
+        const snap = computeSnap(
+          { ...initialBounds, x: initialBounds.x + deltaX, y: initialBounds.y + deltaY },
+          stationaryCards,
+          { gridSize: settings.snapToGrid ? settings.size : 0, guides: settings.guides, threshold: SNAP_THRESHOLD_PX / zoom }
+        );
+        deltaX += snap.dx;
+        deltaY += snap.dy;
+        $snapGuides.set(snap.guides);
+      } else if ($snapGuides.get().length > 0) {
+        $snapGuides.set([]);
+      }
       
-      // log('Card position update (drag)', { cardId, x: newX, y: newY, deltaX, deltaY }); // Can be too verbose
-      updateCardPosition(cardId, newX, newY);
+      // log('Card position update (drag)', { cardId, deltaX, deltaY }); // Can be too verbose
+      moveCards(draggedCards.map(card => ({ id: card.id, x: card.x + deltaX, y: card.y + deltaY })));
     }
     
+    // Also runs when the browser cancels the pointer (e.g. a touch turned into a scroll) or capture is lost
     function handleRelease(releaseEvent: PointerEvent) {
+      if (releaseEvent.pointerId !== event.pointerId || isReleased) return;
+      isReleased = true;
       const finalCards = $allCards.get(); // Get latest state
       const finalPosition = finalCards.find(c => c.id === cardId);
       log('Card drag ended', { 
         cardId, 
+        movedCards: draggedCards.length,
         finalPosition: finalPosition ? { x: finalPosition.x, y: finalPosition.y } : 'not found' 
       });
       
       document.removeEventListener('pointermove', handleMove);
       document.removeEventListener('pointerup', handleRelease);
+      document.removeEventListener('pointercancel', handleRelease);
+      element.removeEventListener('lostpointercapture', handleRelease);
       
       $activeDraggedCard.set(null);
+      $snapGuides.set([]);
+      if (hasMoved) commitTransaction();
     }
 
-    // ******** FIX: ADD THE EVENT LISTENERS ********
     document.addEventListener('pointermove', handleMove);
     document.addEventListener('pointerup', handleRelease);
-  }
\ No newline at end of file
+    document.addEventListener('pointercancel', handleRelease);
+    element.addEventListener('lostpointercapture', handleRelease);
+    try {
+      element.setPointerCapture(event.pointerId); // Keeps the drag when the pointer leaves the window
+    } catch {
+      // The pointer is already gone; pointerup/pointercancel still end the drag
+    }
+  }
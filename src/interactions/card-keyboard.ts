@@ -0,0 +1,194 @@
+/**
+ * CARD KEYBOARD ACCESS
+ *
+ * Makes the board usable without a pointer. Cards are focusable (Tab reaches
+ * each of them in turn); while a card has focus:
+ * - Arrow keys move it (and the rest of the selection), Shift+arrow moves further
+ * - Alt+arrow moves focus to the nearest card in that direction
+ * - C starts connecting it to another card (see state/keyboard-connection.ts)
+ * - F2 renames it on its header (see state/card-metadata.ts)
+ * - Delete removes it (see keyboard.ts)
+ *
+ * Product Features:
+ * - Focusing a card selects it and scrolls it into view
+ * - Moves and connections are announced to screen readers
+ * - Shared link previews can be explored but not changed
+ */
+
+import { $allCards, $gridSettings, $selectedCardIds, CardLayout, moveCards, selectCards } from '../state';
+import { announce, getCardName } from '../state/accessibility';
+import { withComparisonPartners } from '../state/comparison';
+import { startEditingTitle } from '../state/card-metadata';
+import {
+  $keyboardConnection,
+  advanceKeyboardConnection,
+  cancelKeyboardConnection,
+  cycleKeyboardConnectionTarget,
+  pickKeyboardConnectionSide,
+  startKeyboardConnection
+} from '../state/keyboard-connection';
+import { $sharedBoardPreview } from '../state/share-link';
+import { panToReveal } from './canvas';
+import { log } from '../utils/logger';
+
+/** How far an arrow key moves a card when the grid is off */
+const MOVE_STEP = 10;
+
+/** How many steps Shift+arrow moves at once */
+const LARGE_STEP_FACTOR = 5;
+
+const ARROW_DIRECTIONS: Record<string, { dx: number; dy: number; side: number }> = {
+  ArrowUp: { dx: 0, dy: -1, side: 0 },
+  ArrowRight: { dx: 1, dy: 0, side: 1 },
+  ArrowDown: { dx: 0, dy: 1, side: 2 },
+  ArrowLeft: { dx: -1, dy: 0, side: 3 }
+};
+
+/**
+ * Initializes keyboard focus, movement and connecting for cards.
+ * Product Purpose: Keyboard-only teammates can arrange and connect scenarios too.
+ */
+export function setupCardKeyboard() {
+  log('Setting up card keyboard access');
+  // Capture phase: while connecting, keys like Escape and Delete mean something else than usual
+  document.addEventListener('keydown', handleKeyDown, true);
+  document.addEventListener('focusin', handleFocusIn);
+  // Using the pointer ends a keyboard connection
+  document.addEventListener('pointerdown', cancelKeyboardConnection);
+  // A card that disappears (e.g. removed by a collaborator) ends it too
+  $allCards.listen(cards => {
+    const connection = $keyboardConnection.get();
+    if (!connection) return;
+    const ids = cards.map(card => card.id);
+    if (!ids.includes(connection.fromCardId) || (connection.toCardId !== null && !ids.includes(connection.toCardId))) {
+      cancelKeyboardConnection();
+    }
+  });
+}
+
+/**
+ * The card whose own element has focus (not a control inside it).
+ */
+function getFocusedCard(target: EventTarget | null): CardLayout | null {
+  if (!(target instanceof HTMLElement) || !target.classList.contains('card')) return null;
+  const cardId = parseInt(target.dataset.cardId || '', 10);
+  return $allCards.get().find(card => card.id === cardId) ?? null;
+}
+
+/**
+ * Selects a card reached with the keyboard and brings it into view.
+ */
+function handleFocusIn(event: FocusEvent) {
+  const card = getFocusedCard(event.target);
+  if (!card) return;
+  // Focus can scroll the viewport element even though it hides overflow; the camera does the panning
+  const viewport = document.getElementById('workspace-content');
+  if (viewport) {
+    viewport.scrollLeft = 0;
+    viewport.scrollTop = 0;
+  }
+  // Clicking a card focuses it as well, and card-drag.ts already handled the selection then
+  if (!(event.target as HTMLElement).matches(':focus-visible')) return;
+  if (!$selectedCardIds.get().includes(card.id)) selectCards([card.id]);
+  panToReveal(card);
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if ($keyboardConnection.get()) {
+    handleConnectionKey(event);
+    return;
+  }
+
+  const card = getFocusedCard(event.target);
+  if (!card || event.ctrlKey || event.metaKey) return;
+  const isReadOnly = !!$sharedBoardPreview.get();
+  const direction = ARROW_DIRECTIONS[event.key];
+
+  if (direction && event.altKey) {
+    event.preventDefault(); // Alt+Left would otherwise go back in the browser history
+    focusNearestCard(card, direction);
+  } else if (direction && !isReadOnly) {
+    event.preventDefault(); // Don't scroll the page
+    moveFocusedCard(card, direction, event.shiftKey);
+  } else if (event.key.toLowerCase() === 'c' && !event.altKey && !isReadOnly) {
+    event.preventDefault();
+    startKeyboardConnection(card.id);
+  } else if (event.key === 'F2' && !isReadOnly) {
+    event.preventDefault();
+    startEditingTitle(card.id);
+  }
+}
+
+/**
+ * Keys while a keyboard connection is in progress. They are all taken here
+ * so Tab doesn't leave the card and Escape doesn't also clear the selection.
+ */
+function handleConnectionKey(event: KeyboardEvent) {
+  const direction = ARROW_DIRECTIONS[event.key];
+  if (direction) {
+    pickKeyboardConnectionSide(direction.side);
+  } else if (event.key === 'Tab') {
+    cycleKeyboardConnectionTarget(event.shiftKey ? -1 : 1);
+  } else if (event.key === 'Enter' || event.key === ' ') {
+    advanceKeyboardConnection();
+  } else if (event.key === 'Escape') {
+    cancelKeyboardConnection();
+  } else {
+    return;
+  }
+  event.preventDefault();
+  event.stopPropagation();
+}
+
+/**
+ * Moves the focused card, or the whole selection when the card is part of it,
+ * by one grid step (or several with Shift).
+ * Product Flow: User focuses a card → presses Shift+Right → the card moves 5 grid steps right
+ */
+function moveFocusedCard(card: CardLayout, direction: { dx: number; dy: number }, isLargeStep: boolean) {
+  const grid = $gridSettings.get();
+  const step = (grid.snapToGrid ? grid.size : MOVE_STEP) * (isLargeStep ? LARGE_STEP_FACTOR : 1);
+  const selectedIds = $selectedCardIds.get();
+  const ids = withComparisonPartners(selectedIds.includes(card.id) ? selectedIds : [card.id]);
+
+  moveCards($allCards.get()
+    .filter(c => ids.includes(c.id))
+    .map(c => ({ id: c.id, x: c.x + direction.dx * step, y: c.y + direction.dy * step })));
+
+  const moved = $allCards.get().find(c => c.id === card.id);
+  if (!moved) return;
+  panToReveal(moved);
+  announce(ids.length === 1
+    ? `${getCardName(card.id)} moved to ${Math.round(moved.x)}, ${Math.round(moved.y)}`
+    : `${ids.length} cards moved to ${Math.round(moved.x)}, ${Math.round(moved.y)}`);
+}
+
+/**
+ * Focuses the card nearest to the given one in a direction, preferring cards
+ * straight ahead over cards off to the side.
+ */
+function focusNearestCard(card: CardLayout, direction: { dx: number; dy: number }) {
+  const centerOf = (c: CardLayout) => ({ x: c.x + c.width / 2, y: c.y + c.height / 2 });
+  const from = centerOf(card);
+
+  let nearest: CardLayout | null = null;
+  let nearestScore = Infinity;
+  for (const other of $allCards.get()) {
+    if (other.id === card.id) continue;
+    const to = centerOf(other);
+    const ahead = (to.x - from.x) * direction.dx + (to.y - from.y) * direction.dy;
+    if (ahead <= 0) continue;
+    const aside = Math.abs((to.x - from.x) * direction.dy) + Math.abs((to.y - from.y) * direction.dx);
+    const score = ahead + aside * 2;
+    if (score < nearestScore) {
+      nearest = other;
+      nearestScore = score;
+    }
+  }
+
+  if (!nearest) {
+    announce(`No card in that direction from ${getCardName(card.id)}`);
+    return;
+  }
+  document.querySelector<HTMLElement>(`.card[data-card-id="${nearest.id}"]`)?.focus({ preventScroll: true });
+}
@@ -0,0 +1,140 @@
+/**
+ * CARD RESIZING INTERACTIONS
+ *
+ * This module lets users change the size of scenario cards by dragging
+ * handles on their edges and corners. Larger cards make full-page
+ * scenarios readable; smaller ones keep overview boards compact.
+ *
+ * Product Features:
+ * - Resize from any edge or corner
+ * - Minimum and maximum card sizes are enforced
+ * - Connection lines follow the card while it is resized
+ * - The other card of a comparison pair takes the same size
+ * - A whole resize is recorded as a single undo step
+ */
+
+import { $allCards, $activeResizedCard, updateCardSize, bringCardToFront, clampCardSize } from '../state';
+import { beginTransaction, commitTransaction } from '../state/history';
+import { $camera } from '../state/camera';
+import { alignComparisonPartner } from '../state/comparison';
+import { $sharedBoardPreview } from '../state/share-link';
+import { log, error } from '../utils/logger';
+
+/**
+ * Which edges a resize handle moves, e.g. "se" moves the bottom and right edges.
+ */
+type ResizeDirection = 'n' | 'e' | 's' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+/**
+ * Initializes the resize system for all scenario cards.
+ * Product Purpose: Lets teams give important scenarios more room.
+ */
+export function setupCardResize() {
+  log('Setting up card resize system');
+
+  const workspace = document.getElementById('workspace');
+  if (!workspace) {
+    error('Cannot setup card resize: workspace element not found');
+    return;
+  }
+
+  workspace.addEventListener('pointerdown', handleResizeHandlePress);
+}
+
+/**
+ * Detects presses on a resize handle and starts resizing its card.
+ */
+function handleResizeHandlePress(event: PointerEvent) {
+  const handle = (event.target as Element).closest('[data-resize-handle]') as HTMLElement | null;
+  if (!handle || $sharedBoardPreview.get()) return; // Shared link previews are read-only
+
+  const cardElement = handle.closest('.card') as HTMLElement | null;
+  const cardId = parseInt(cardElement?.dataset.cardId || '', 10);
+  const direction = handle.dataset.resizeHandle as ResizeDirection;
+
+  if (isNaN(cardId) || !direction) {
+    error('Invalid resize handle', { cardId: cardElement?.dataset.cardId, direction });
+    return;
+  }
+
+  startResizingCard(handle, cardId, direction, event);
+}
+
+/**
+ * Follows the pointer and resizes the card until the pointer is released.
+ * Product Flow: User grabs an edge → card grows/shrinks with cursor → release keeps the new size
+ */
+function startResizingCard(handle: HTMLElement, cardId: number, direction: ResizeDirection, event: PointerEvent) {
+  const cardData = $allCards.get().find(c => c.id === cardId);
+  if (!cardData) {
+    error('Card data not found for resizing', { cardId });
+    return;
+  }
+
+  log('Card resize started', { cardId, direction, width: cardData.width, height: cardData.height });
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  beginTransaction('Resize card');
+  $activeResizedCard.set(cardId);
+  bringCardToFront(cardId);
+
+  const startX = event.clientX;
+  const startY = event.clientY;
+  const initial = { x: cardData.x, y: cardData.y, width: cardData.width, height: cardData.height };
+  let isReleased = false;
+
+  function handleMove(moveEvent: PointerEvent) {
+    if (moveEvent.pointerId !== event.pointerId) return;
+    const zoom = $camera.get().zoom;
+    const deltaX = (moveEvent.clientX - startX) / zoom;
+    const deltaY = (moveEvent.clientY - startY) / zoom;
+
+    let requestedWidth = initial.width;
+    let requestedHeight = initial.height;
+    if (direction.includes('e')) requestedWidth = initial.width + deltaX;
+    if (direction.includes('w')) requestedWidth = initial.width - deltaX;
+    if (direction.includes('s')) requestedHeight = initial.height + deltaY;
+    if (direction.includes('n')) requestedHeight = initial.height - deltaY;
+
+    const { width, height } = clampCardSize(requestedWidth, requestedHeight);
+
+    // When dragging the top or left edge, the opposite edge stays anchored
+    const x = direction.includes('w') ? initial.x + initial.width - width : initial.x;
+    const y = direction.includes('n') ? initial.y + initial.height - height : initial.y;
+
+    updateCardSize(cardId, width, height, { x, y });
+    alignComparisonPartner(cardId);
+  }
+
+  // Also runs when the browser cancels the pointer (e.g. a touch turned into a scroll) or capture is lost
+  function handleRelease(releaseEvent: PointerEvent) {
+    if (releaseEvent.pointerId !== event.pointerId || isReleased) return;
+    isReleased = true;
+    const finalCard = $allCards.get().find(c => c.id === cardId);
+    log('Card resize ended', {
+      cardId,
+      finalSize: finalCard ? { width: finalCard.width, height: finalCard.height } : 'not found'
+    });
+
+    document.removeEventListener('pointermove', handleMove);
+    document.removeEventListener('pointerup', handleRelease);
+    document.removeEventListener('pointercancel', handleRelease);
+    handle.removeEventListener('lostpointercapture', handleRelease);
+
+    $activeResizedCard.set(null);
+    commitTransaction();
+  }
+
+  document.addEventListener('pointermove', handleMove);
+  document.addEventListener('pointerup', handleRelease);
+  document.addEventListener('pointercancel', handleRelease);
+  handle.addEventListener('lostpointercapture', handleRelease);
+  try {
+    // Keep receiving pointer events even when the cursor passes over an iframe
+    handle.setPointerCapture(event.pointerId);
+  } catch {
+    // The pointer is already gone; pointerup/pointercancel still end the resize
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * CARD VIRTUALIZATION
+ *
+ * Works out which cards should show a live iframe: those in or near the
+ * viewport, as long as the board isn't zoomed out too far to read them.
+ * Cards closest to the middle of the screen come first; state/card-loading.ts
+ * mounts them a few at a time.
+ *
+ * Product Features:
+ * - Off-screen cards, and every card on a zoomed-out board, show a placeholder instead of an iframe
+ * - Cards just outside the viewport load ahead of time and stay a while, so panning doesn't flicker
+ * - Cards being dragged or resized keep their iframe wherever they go
+ */
+
+import { $allCards, $activeDraggedCard, $activeResizedCard, $selectedCardIds, CardLayout } from '../state';
+import { $camera, Bounds } from '../state/camera';
+import { $cardLoadStates, $mountedCardIds, MIN_LIVE_ZOOM, updateMountedCards } from '../state/card-loading';
+import { withComparisonPartners } from '../state/comparison';
+import { getVisibleWorldBounds } from './canvas';
+import { log } from '../utils/logger';
+
+/** How far around the viewport cards load ahead of time, as a share of the viewport size */
+const PRELOAD_MARGIN = 0.25;
+
+/** How far around the viewport cards keep their iframe, as a share of the viewport size */
+const KEEP_MARGIN = 1;
+
+let isUpdateScheduled = false;
+
+/**
+ * Keeps the set of live iframes in step with what the user can see.
+ * Product Purpose: Boards with dozens of scenarios stay responsive.
+ */
+export function setupCardVirtualization() {
+  log('Setting up card virtualization');
+
+  $camera.listen(scheduleUpdate);
+  $allCards.listen(scheduleUpdate);
+  $activeDraggedCard.listen(scheduleUpdate);
+  $activeResizedCard.listen(scheduleUpdate);
+  // A finished load frees a slot for the next card
+  $cardLoadStates.listen(scheduleUpdate);
+  $mountedCardIds.listen(scheduleUpdate);
+  window.addEventListener('resize', scheduleUpdate);
+
+  updateLiveCards();
+}
+
+/**
+ * Updates at most once per frame, however many changes came in.
+ */
+function scheduleUpdate() {
+  if (isUpdateScheduled) return;
+  isUpdateScheduled = true;
+  requestAnimationFrame(() => {
+    isUpdateScheduled = false;
+    updateLiveCards();
+  });
+}
+
+function updateLiveCards() {
+  if ($camera.get().zoom < MIN_LIVE_ZOOM) {
+    updateMountedCards([]);
+    return;
+  }
+
+  const visible = getVisibleWorldBounds();
+  const preloadArea = expand(visible, PRELOAD_MARGIN);
+  const keepArea = expand(visible, KEEP_MARGIN);
+  const centerX = visible.x + visible.width / 2;
+  const centerY = visible.y + visible.height / 2;
+  const distanceToCenter = (card: CardLayout) =>
+    Math.hypot(card.x + card.width / 2 - centerX, card.y + card.height / 2 - centerY);
+
+  const cards = $allCards.get();
+  const heldIds = getHeldCardIds();
+  const wantedIds = cards
+    .filter(card => intersects(card, preloadArea))
+    .sort((a, b) => distanceToCenter(a) - distanceToCenter(b))
+    .map(card => card.id);
+  const keepIds = cards
+    .filter(card => heldIds.includes(card.id) || intersects(card, keepArea))
+    .map(card => card.id);
+
+  updateMountedCards(wantedIds, keepIds);
+}
+
+/**
+ * Cards the user is moving or resizing right now (a drag moves the whole
+ * selection and comparison partners along).
+ */
+function getHeldCardIds(): number[] {
+  const draggedId = $activeDraggedCard.get();
+  const resizedId = $activeResizedCard.get();
+  const held = draggedId !== null ? withComparisonPartners([draggedId, ...$selectedCardIds.get()]) : [];
+  return resizedId !== null ? [...held, resizedId] : held;
+}
+
+function expand(bounds: Bounds, share: number): Bounds {
+  const dx = bounds.width * share;
+  const dy = bounds.height * share;
+  return { x: bounds.x - dx, y: bounds.y - dy, width: bounds.width + dx * 2, height: bounds.height + dy * 2 };
+}
+
+function intersects(card: CardLayout, area: Bounds): boolean {
+  return card.x < area.x + area.width && area.x < card.x + card.width &&
+    card.y < area.y + area.height && area.y < card.y + card.height;
+}
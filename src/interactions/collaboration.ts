@@ -0,0 +1,51 @@
+/**
+ * COLLABORATION PRESENCE
+ *
+ * Tells the others in a shared room where your pointer is, so they can see
+ * what you are pointing at. Board changes themselves are picked up from the
+ * state stores by state/collaboration.ts.
+ *
+ * Product Features:
+ * - Your cursor appears on everyone else's board, with your name
+ * - The cursor disappears for others when yours leaves the board
+ */
+
+import { $collaboration, updatePresence } from '../state/collaboration';
+import { clientToWorld } from './canvas';
+import { log, error } from '../utils/logger';
+
+/** Whether the last shared cursor position was on the board */
+let isCursorShared = false;
+
+/**
+ * Starts sharing the pointer position while a collaboration session is active.
+ */
+export function setupCollaborationPresence() {
+  log('Setting up collaboration presence');
+
+  const workspace = document.getElementById('workspace');
+  if (!workspace) {
+    error('Cannot setup collaboration presence: workspace element not found');
+    return;
+  }
+
+  workspace.addEventListener('pointermove', handlePointerMove);
+  workspace.addEventListener('pointerleave', handlePointerLeave);
+}
+
+function handlePointerMove(event: PointerEvent) {
+  if (!$collaboration.get()) return;
+  // Only the board counts; the header and panels are not shared space
+  if (!(event.target as Element).closest('#workspace-content')) {
+    handlePointerLeave();
+    return;
+  }
+  isCursorShared = true;
+  updatePresence({ cursor: clientToWorld(event.clientX, event.clientY) });
+}
+
+function handlePointerLeave() {
+  if (!$collaboration.get() || !isCursorShared) return;
+  isCursorShared = false;
+  updatePresence({ cursor: null });
+}
@@ -9,18 +9,35 @@
  * Product Features:
  * - Click and drag from any card edge dot to another card
  * - Real-time preview line during drawing
- * - Automatic snapping to nearest connection point
+ * - Lines attach to the point of the target card's edge nearest the cursor
+ * - Either end of an existing line can be dragged to another spot, side or card
  * - Connection removal via double-click
  */
 
 import { 
   $pendingConnection, 
+  $connectionEndDrag,
+  $allCards,
   $allConnections, 
   createConnection, 
-  Connection 
+  moveConnectionEnd,
+  ConnectionAnchor,
+  CardLayout
 } from '../state';
+import { $camera } from '../state/camera';
+import { $sharedBoardPreview } from '../state/share-link';
+import { clientToWorld } from './canvas';
+import { nearestEdgeAnchor, clampEdgePosition } from '../utils/anchors';
 import { log, error } from '../utils/logger';
 
+/** How close to a card (in screen pixels) the cursor must be for a line to snap to its edge */
+const SNAP_DISTANCE = 24;
+/** Pointer travel (in screen pixels) below which grabbing an end handle is just a click */
+const CLICK_TOLERANCE = 4;
+
+/** Where the pointer went down on an end handle, in client coordinates */
+let endDragStart: { x: number; y: number } | null = null;
+
 /**
  * Initializes the connection drawing system.
  * Product Purpose: Enables teams to visually link related scenarios.
@@ -44,12 +61,20 @@ export function setupConnectionSystem() {
 }
 
 /**
- * Detects when user starts drawing a connection from a card dot.
+ * Detects when user starts drawing a connection from a card dot, or grabs
+ * the end of an existing connection.
  * Product Flow: User clicks on a dot → connection drawing begins
  */
 function handlePossibleConnectionStart(event: PointerEvent) {
+  if ($sharedBoardPreview.get()) return; // Shared link previews are read-only
+
+  const endHandle = (event.target as Element).closest('.connection-end-handle');
+  if (endHandle) {
+    startConnectionEndDrag(event, endHandle);
+    return;
+  }
+
   const dot = (event.target as Element).closest('.connection-dot');
-      
   if (!dot) {
     return; 
   }
@@ -84,13 +109,21 @@ function handlePossibleConnectionStart(event: PointerEvent) {
     return;
   }
   
+  const startPoint = clientToWorld(event.clientX, event.clientY);
+  const card = $allCards.get().find(c => c.id === cardId);
+  // Where along the dot's side the pointer went down
+  const fromPosition = !card ? 0.5 : clampEdgePosition(side === 0 || side === 2
+    ? (startPoint.x - card.x) / card.width
+    : (startPoint.y - card.y) / card.height);
   const pendingState = {
     fromCardId: cardId,
     fromSide: side,
-    startX: event.clientX, 
-    startY: event.clientY,
-    currentX: event.clientX,
-    currentY: event.clientY
+    fromPosition,
+    startX: startPoint.x, 
+    startY: startPoint.y,
+    currentX: startPoint.x,
+    currentY: startPoint.y,
+    target: null
   };
   
   log('Setting pending connection state', {
@@ -98,34 +131,116 @@ function handlePossibleConnectionStart(event: PointerEvent) {
   });
   
   $pendingConnection.set(pendingState);
+  document.body.classList.add('connecting');
+}
+
+/**
+ * Picks up one end of an existing connection.
+ * Product Flow: User drags the dot at the end of a line → the line follows the cursor
+ */
+function startConnectionEndDrag(event: PointerEvent, handle: Element) {
+  const connectionId = handle.getAttribute('data-connection-id');
+  const end = handle.getAttribute('data-end');
+  if (!connectionId || (end !== 'from' && end !== 'to')) {
+    error('startConnectionEndDrag - Missing data attributes on end handle', { connectionId, end });
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const cursor = clientToWorld(event.clientX, event.clientY);
+  log('Connection end picked up', { connectionId, end });
+  endDragStart = { x: event.clientX, y: event.clientY };
+  $connectionEndDrag.set({ connectionId, end, currentX: cursor.x, currentY: cursor.y, target: null });
+  document.body.classList.add('connecting');
+}
+
+/**
+ * The edge point a line would attach to at a world position: on the topmost
+ * card under the cursor (or, failing that, just next to it), unless that is
+ * `excludeCardId`.
+ */
+function findAnchorAt(point: { x: number; y: number }, excludeCardId: number): ConnectionAnchor | null {
+  const margin = SNAP_DISTANCE / $camera.get().zoom;
+  const isNear = (card: CardLayout, inflate: number) =>
+    point.x >= card.x - inflate && point.x <= card.x + card.width + inflate &&
+    point.y >= card.y - inflate && point.y <= card.y + card.height + inflate;
+  const topmostFirst = [...$allCards.get()].sort((a, b) => b.zIndex - a.zIndex);
+  const card = topmostFirst.find(c => isNear(c, 0)) ?? topmostFirst.find(c => isNear(c, margin));
+  if (!card || card.id === excludeCardId) return null;
+  return { cardId: card.id, ...nearestEdgeAnchor(card, point) };
+}
+
+/**
+ * The card the dragged end of a connection must stay off (the card at its other end).
+ */
+function getFixedEndCardId(connectionId: string, end: 'from' | 'to'): number | null {
+  const connection = $allConnections.get().find(c => c.id === connectionId);
+  if (!connection) return null;
+  return end === 'from' ? connection.toCardId : connection.fromCardId;
 }
 
 /**
  * Updates the preview connection line as user moves mouse.
- * Product Feedback: Shows real-time line from starting point to cursor.
+ * Product Feedback: Shows real-time line from starting point to cursor, snapped to the edge it would attach to.
  */
 function handleConnectionDragMove(event: PointerEvent) {
   const pending = $pendingConnection.get();
-  if (!pending) return;
+  const endDrag = $connectionEndDrag.get();
+  if (!pending && !endDrag) return;
   
   // Prevent default to avoid text selection during drag
   event.preventDefault();
 
-  $pendingConnection.set({
-    ...pending,
-    currentX: event.clientX,
-    currentY: event.clientY
-  });
-  // log('Pending connection move', { currentX: event.clientX, currentY: event.clientY }); // Can be very verbose
+  const cursor = clientToWorld(event.clientX, event.clientY);
+  if (pending) {
+    $pendingConnection.set({
+      ...pending,
+      currentX: cursor.x,
+      currentY: cursor.y,
+      target: findAnchorAt(cursor, pending.fromCardId)
+    });
+    // log('Pending connection move', { currentX: event.clientX, currentY: event.clientY }); // Can be very verbose
+  } else if (endDrag) {
+    const fixedCardId = getFixedEndCardId(endDrag.connectionId, endDrag.end);
+    $connectionEndDrag.set({
+      ...endDrag,
+      currentX: cursor.x,
+      currentY: cursor.y,
+      target: fixedCardId === null ? null : findAnchorAt(cursor, fixedCardId)
+    });
+  }
 }
 
 /**
  * Completes or cancels connection drawing when mouse released.
- * Product Logic: If released over another card's dot, create connection.
- * Otherwise, cancel the operation.
+ * Product Logic: If released over (or next to) another card, connect to the
+ * nearest point of its edge. Otherwise, cancel the operation.
  */
 function handleConnectionEnd(event: PointerEvent) {
   const pending = $pendingConnection.get();
+  const endDrag = $connectionEndDrag.get();
+  if (!pending && !endDrag) return;
+  document.body.classList.remove('connecting');
+  const cursor = clientToWorld(event.clientX, event.clientY);
+
+  if (endDrag) {
+    $connectionEndDrag.set(null);
+    const start = endDragStart;
+    endDragStart = null;
+    if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) < CLICK_TOLERANCE) {
+      return; // A click on the handle selects the line (see templates/connection.ts)
+    }
+    const fixedCardId = getFixedEndCardId(endDrag.connectionId, endDrag.end);
+    const target = fixedCardId === null ? null : findAnchorAt(cursor, fixedCardId);
+    if (!target) {
+      log('handleConnectionEnd - Connection end dropped away from any card, left where it was', { connectionId: endDrag.connectionId });
+      return;
+    }
+    moveConnectionEnd(endDrag.connectionId, endDrag.end, target);
+    return;
+  }
   if (!pending) return;
   
   log('handleConnectionEnd - Pending connection exists', { pending });
@@ -134,40 +249,20 @@ function handleConnectionEnd(event: PointerEvent) {
   $pendingConnection.set(null);
   log('Pending connection cleared from state');
   
-  const targetDot = (event.target as Element).closest('.connection-dot');
-  if (!targetDot) {
-    log('handleConnectionEnd - No target dot found on release');
+  const target = findAnchorAt(cursor, pending.fromCardId);
+  if (!target) {
+    log('handleConnectionEnd - No target card found on release');
     return; 
   }
+  log('Connection end target data', target);
   
-  const targetCardIdStr = targetDot.getAttribute('data-card-id');
-  const targetSideStr = targetDot.getAttribute('data-side');
-
-  if (!targetCardIdStr || !targetSideStr) {
-    error('handleConnectionEnd - Missing data attributes on target dot', {targetCardIdStr, targetSideStr});
-    return;
-  }
-  const targetCardId = parseInt(targetCardIdStr, 10);
-  const targetSide = parseInt(targetSideStr, 10);
-  
-  if (isNaN(targetCardId) || isNaN(targetSide)) {
-    error('handleConnectionEnd - Invalid target connection data (NaN)', { targetCardId, targetSide });
-    return;
-  }
-  log('Connection end target data', { targetCardId, targetSide });
-  
-  if (targetCardId === pending.fromCardId) {
-    log('handleConnectionEnd - Attempted to connect card to itself. Aborted.');
-    return;
-  }
-  
-  log('Creating final connection in state', { from: pending.fromCardId, to: targetCardId });
+  log('Creating final connection in state', { from: pending.fromCardId, to: target.cardId });
   createConnection({
     fromCardId: pending.fromCardId,
     fromSide: pending.fromSide,
-    fromPosition: 0.5,
-    toCardId: targetCardId,
-    toSide: targetSide,
-    toPosition: 0.5 
+    fromPosition: pending.fromPosition,
+    toCardId: target.cardId,
+    toSide: target.side,
+    toPosition: target.position
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,296 @@
+/**
+ * DIAGRAM EXPORT
+ *
+ * Draws the board as a standalone image for slide decks and design docs,
+ * or writes it as Mermaid / Graphviz DOT text for docs that describe flows.
+ * Scenario content lives in iframes that can't be captured, so each card is
+ * drawn as a titled placeholder box at its real position and size, with the
+ * connection arrows and labels routed exactly as on screen.
+ *
+ * Product Features:
+ * - SVG (scalable, editable) or PNG at 1x-4x resolution
+ * - Mermaid flowchart and Graphviz DOT text with titles and connection labels
+ * - Crop to the whole board, the visible area or the selected cards
+ * - Optional background grid
+ */
+
+import { $allCards, $allConnections, $selectedCardIds, $gridSettings, CardLayout, Connection, CONNECTION_KIND_LABELS, getCardScenarioId } from '../state';
+import { Bounds, getCardsBounds } from '../state/camera';
+import { getScenarioInfo } from '../state/catalog';
+import { $exportOptions, $isExportDialogOpen, ExportArea, ExportOptions } from '../state/export';
+import { resolveConnectionStyle } from '../templates/connection';
+import { getConnectionPointOnCard, routeConnection, spreadConnectionEnds } from '../state/connection-geometry';
+import { getVisibleWorldBounds } from './canvas';
+import { GraphNode, GraphEdge, toMermaid, toDot } from '../utils/graph-text';
+import { log, error, success } from '../utils/logger';
+
+/** Empty space around the cards when cropping to the board or selection */
+const EXPORT_PADDING = 40;
+/** Browsers refuse to create canvases much larger than this on either side */
+const MAX_CANVAS_SIDE = 16384;
+const CARD_HEADER_HEIGHT = 40;
+
+/** File extension and MIME type of each export format */
+const FORMAT_FILES: Record<ExportOptions['format'], { extension: string; type: string }> = {
+  svg: { extension: 'svg', type: 'image/svg+xml' },
+  png: { extension: 'png', type: 'image/png' },
+  mermaid: { extension: 'mmd', type: 'text/plain' },
+  dot: { extension: 'dot', type: 'text/vnd.graphviz' }
+};
+
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+/** Escapes text for use inside SVG markup */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Shortens text so it roughly fits the given width (the SVG has no text measuring) */
+function truncate(text: string, maxWidth: number, charWidth: number): string {
+  const maxChars = Math.max(1, Math.floor(maxWidth / charWidth));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(1, maxChars - 1))}…`;
+}
+
+function markerId(color: string): string {
+  return `arrow-${color.replace(/[^a-zA-Z0-9]/g, '')}`;
+}
+
+function getCardTitle(card: CardLayout): string {
+  const scenarioId = getCardScenarioId(card);
+  return card.title ?? getScenarioInfo(scenarioId)?.title ?? `Scenario ${scenarioId}`;
+}
+
+function getConnectionLabel(connection: Connection): string {
+  return connection.label ?? (connection.kind ? CONNECTION_KIND_LABELS[connection.kind] : '');
+}
+
+function renderCardPlaceholder(card: CardLayout): string {
+  const info = getScenarioInfo(getCardScenarioId(card));
+  const title = getCardTitle(card);
+  const textWidth = card.width - 32;
+
+  return `
+    <g class="card">
+      <rect x="${card.x}" y="${card.y}" width="${card.width}" height="${card.height}" rx="8" fill="#ffffff" stroke="#dee2e6" />
+      <path d="M ${card.x} ${card.y + CARD_HEADER_HEIGHT} h ${card.width}" stroke="#e9ecef" />
+      ${card.color ? `<path d="M ${card.x + 4} ${card.y + 1.5} h ${card.width - 8}" stroke="${escapeXml(card.color)}" stroke-width="3" stroke-linecap="round" />` : ''}
+      <text x="${card.x + 16}" y="${card.y + CARD_HEADER_HEIGHT / 2}" dominant-baseline="middle" font-size="16" font-weight="600" fill="#495057">${escapeXml(truncate(title, textWidth, 9))}</text>
+      <text x="${card.x + card.width / 2}" y="${card.y + (CARD_HEADER_HEIGHT + card.height) / 2}" text-anchor="middle" dominant-baseline="middle" font-size="13" fill="#adb5bd">Scenario ${getCardScenarioId(card)}</text>
+      ${info?.description ? `
+        <text x="${card.x + card.width / 2}" y="${card.y + (CARD_HEADER_HEIGHT + card.height) / 2 + 20}" text-anchor="middle" dominant-baseline="middle" font-size="12" fill="#adb5bd">${escapeXml(truncate(info.description, textWidth, 6.5))}</text>
+      ` : ''}
+    </g>`;
+}
+
+function renderConnectionLine(connection: Connection, cards: CardLayout[], obstacles: CardLayout[]): string {
+  const fromCard = cards.find(c => c.id === connection.fromCardId);
+  const toCard = cards.find(c => c.id === connection.toCardId);
+  if (!fromCard || !toCard) return '';
+
+  const fromPoint = getConnectionPointOnCard(fromCard, connection.fromSide, connection.fromPosition);
+  const toPoint = getConnectionPointOnCard(toCard, connection.toSide, connection.toPosition);
+  const route = routeConnection(connection, fromPoint, toPoint, obstacles);
+  const style = resolveConnectionStyle(connection);
+  const marker = `url(#${markerId(style.color)})`;
+  const label = getConnectionLabel(connection);
+
+  return `
+    <g class="connection">
+      <path d="${route.d}" fill="none" stroke="${escapeXml(style.color)}" stroke-width="2"${style.dashed ? ' stroke-dasharray="8,5"' : ''}${style.arrowheads !== 'none' ? ` marker-end="${marker}"` : ''}${style.arrowheads === 'both' ? ` marker-start="${marker}"` : ''} />
+      ${label ? `
+        <text x="${route.midpoint.x}" y="${route.midpoint.y}" text-anchor="middle" dominant-baseline="middle" font-size="12" font-weight="600" fill="${escapeXml(style.color)}" stroke="#ffffff" stroke-width="4" stroke-linejoin="round" paint-order="stroke">${escapeXml(label)}</text>
+      ` : ''}
+    </g>`;
+}
+
+/**
+ * Works out which cards, connections and world rectangle an export covers.
+ * Returns null when there is nothing to export (e.g. an empty selection).
+ */
+function resolveExportArea(area: ExportArea): { cards: CardLayout[]; connections: Connection[]; bounds: Bounds } | null {
+  const allCards = $allCards.get();
+  const allConnections = $allConnections.get();
+
+  if (area === 'viewport') {
+    return { cards: allCards, connections: allConnections, bounds: getVisibleWorldBounds() };
+  }
+
+  const selectedIds = new Set($selectedCardIds.get());
+  const cards = area === 'selection' ? allCards.filter(c => selectedIds.has(c.id)) : allCards;
+  const cardsBounds = getCardsBounds(cards);
+  if (!cardsBounds) return null;
+
+  const cardIds = new Set(cards.map(c => c.id));
+  return {
+    cards,
+    connections: allConnections.filter(conn => cardIds.has(conn.fromCardId) && cardIds.has(conn.toCardId)),
+    bounds: {
+      x: cardsBounds.x - EXPORT_PADDING,
+      y: cardsBounds.y - EXPORT_PADDING,
+      width: cardsBounds.width + EXPORT_PADDING * 2,
+      height: cardsBounds.height + EXPORT_PADDING * 2
+    }
+  };
+}
+
+/**
+ * Builds a standalone SVG document of the board.
+ * Returns null when the chosen area contains nothing.
+ */
+export function buildDiagramSvg(options: Pick<ExportOptions, 'area' | 'includeGrid'>): { svg: string; bounds: Bounds } | null {
+  const content = resolveExportArea(options.area);
+  if (!content) return null;
+
+  const { cards, connections, bounds } = content;
+  const allCards = $allCards.get(); // Orthogonal routes avoid every card, as on screen
+  // Lines sharing a side are spread out against the whole board, as on screen
+  const exportedIds = new Set(connections.map(conn => conn.id));
+  const drawnConnections = spreadConnectionEnds($allConnections.get(), allCards).filter(conn => exportedIds.has(conn.id));
+  const colors = new Set(connections.map(conn => resolveConnectionStyle(conn).color));
+  const gridSize = $gridSettings.get().size;
+  const viewBox = `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`;
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(bounds.width)}" height="${Math.round(bounds.height)}" viewBox="${viewBox}" font-family="${FONT_FAMILY}">
+  <defs>
+    ${Array.from(colors).map(color => `
+    <marker id="${markerId(color)}" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+      <path d="M 0 0 L 10 5 L 0 10 z" fill="${escapeXml(color)}" />
+    </marker>`).join('')}
+    ${options.includeGrid ? `
+    <pattern id="grid" width="${gridSize}" height="${gridSize}" patternUnits="userSpaceOnUse">
+      <path d="M ${gridSize} 0 L 0 0 0 ${gridSize}" fill="none" stroke="#e9ecef" stroke-width="1" />
+    </pattern>` : ''}
+  </defs>
+  <rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="#ffffff" />
+  ${options.includeGrid ? `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="url(#grid)" />` : ''}
+  ${[...cards].sort((a, b) => a.zIndex - b.zIndex).map(renderCardPlaceholder).join('')}
+  ${drawnConnections.map(conn => renderConnectionLine(conn, cards, allCards)).join('')}
+</svg>
+`;
+
+  return { svg, bounds };
+}
+
+/**
+ * Writes the chosen area as Mermaid or DOT text.
+ * Returns null when the chosen area contains nothing.
+ */
+export function buildDiagramText(options: Pick<ExportOptions, 'area'>, format: 'mermaid' | 'dot'): string | null {
+  const content = resolveExportArea(options.area);
+  if (!content) return null;
+
+  // Text has no viewport to clip to, so keep only the cards that are at least partly visible
+  const { bounds } = content;
+  const cards = options.area === 'viewport'
+    ? content.cards.filter(c => c.x < bounds.x + bounds.width && c.x + c.width > bounds.x && c.y < bounds.y + bounds.height && c.y + c.height > bounds.y)
+    : content.cards;
+  if (cards.length === 0) return null;
+
+  // Diagram nodes are scenarios, so both cards of a comparison pair become one node
+  const scenarioIdByCard = new Map(cards.map(card => [card.id, getCardScenarioId(card)]));
+  const nodes: GraphNode[] = [];
+  for (const card of cards) {
+    const id = getCardScenarioId(card);
+    if (!nodes.some(node => node.id === id)) nodes.push({ id, title: getCardTitle(card) });
+  }
+  const edges: GraphEdge[] = content.connections
+    .filter(conn => scenarioIdByCard.has(conn.fromCardId) && scenarioIdByCard.has(conn.toCardId) && conn.kind !== 'comparison')
+    .map(conn => {
+      const label = getConnectionLabel(conn);
+      const { dashed } = resolveConnectionStyle(conn);
+      const from = scenarioIdByCard.get(conn.fromCardId)!;
+      const to = scenarioIdByCard.get(conn.toCardId)!;
+      return { from, to, ...(label ? { label } : {}), ...(dashed ? { dashed } : {}) };
+    });
+
+  return format === 'mermaid' ? toMermaid(nodes, edges) : toDot(nodes, edges);
+}
+
+/**
+ * Rasterizes an SVG document to a PNG blob at the given scale.
+ */
+function rasterizeSvg(svg: string, bounds: Bounds, scale: number): Promise<Blob> {
+  // Shrink oversized exports rather than failing on the browser's canvas limit
+  const safeScale = Math.min(scale, MAX_CANVAS_SIDE / bounds.width, MAX_CANVAS_SIDE / bounds.height);
+  if (safeScale < scale) {
+    log('Export scale reduced to fit the maximum canvas size', { requested: scale, used: safeScale });
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bounds.width * safeScale));
+      canvas.height = Math.max(1, Math.round(bounds.height * safeScale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The diagram could not be drawn as an image'));
+    };
+    image.src = url;
+  });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports the board as an image file using the options from the export dialog.
+ * Product Flow: User clicks Export → picks format, area and scale → an image file downloads
+ */
+export async function exportDiagram(options: ExportOptions = $exportOptions.get()): Promise<void> {
+  log('Diagram export initiated', options);
+
+  const filename = `scenario-diagram-${new Date().toISOString().split('T')[0]}.${FORMAT_FILES[options.format].extension}`;
+  const reportNothingToExport = () => {
+    error('Nothing to export in the chosen area', { area: options.area });
+    alert(options.area === 'selection' ? 'Select one or more cards to export.' : 'There are no cards to export.');
+  };
+
+  if (options.format === 'mermaid' || options.format === 'dot') {
+    const text = buildDiagramText(options, options.format);
+    if (!text) return reportNothingToExport();
+    downloadBlob(new Blob([text], { type: FORMAT_FILES[options.format].type }), filename);
+    $isExportDialogOpen.set(false);
+    success('Diagram text exported', { filename, format: options.format });
+    return;
+  }
+
+  const result = buildDiagramSvg(options);
+  if (!result) return reportNothingToExport();
+
+  try {
+    const blob = options.format === 'svg'
+      ? new Blob([result.svg], { type: FORMAT_FILES.svg.type })
+      : await rasterizeSvg(result.svg, result.bounds, options.scale);
+    downloadBlob(blob, filename);
+    $isExportDialogOpen.set(false);
+    success('Diagram exported', { filename, width: Math.round(result.bounds.width), height: Math.round(result.bounds.height) });
+  } catch (err) {
+    error('Diagram export failed', err);
+    alert(`Export failed: ${(err as Error).message}`);
+  }
+}
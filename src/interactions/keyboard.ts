@@ -0,0 +1,87 @@
+/**
+ * KEYBOARD SHORTCUTS
+ *
+ * This module wires global keyboard shortcuts to workspace actions. Which key
+ * runs which action comes from the action registry (state/actions.ts), where
+ * the defaults are declared and the user's own bindings are kept.
+ *
+ * Product Features:
+ * - Ctrl/Cmd+Z to undo the last change, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
+ * - Ctrl/Cmd +/-/0 to zoom in, out and back to 100%
+ * - Shift+1 to zoom to fit, Shift+2 to zoom to selection
+ * - Ctrl/Cmd+A to select all cards, Escape to clear the selection
+ * - Delete/Backspace to remove the selected cards
+ * - Ctrl/Cmd+K for the command palette
+ * - Any shortcut can be rebound in the keyboard shortcut settings
+ * - Shortcuts are ignored while typing in text fields
+ * - Editing shortcuts are ignored while previewing a shared link
+ *
+ * Keys for the focused card (moving, connecting) live in card-keyboard.ts.
+ */
+
+import {
+  $recordingShortcutFor,
+  findActionByShortcut,
+  formatShortcut,
+  getAction,
+  isActionAvailable,
+  runAction,
+  setActionShortcut,
+  shortcutFromEvent
+} from '../state/actions';
+import { announce } from '../state/accessibility';
+import { isTypingTarget } from '../utils/dom';
+import { log } from '../utils/logger';
+
+/**
+ * Initializes the global keyboard shortcut listener.
+ * Product Purpose: Lets power users work without reaching for header buttons.
+ */
+export function setupKeyboardShortcuts() {
+  log('Setting up keyboard shortcuts');
+  document.addEventListener('keydown', handleKeyDown);
+}
+
+/**
+ * Dispatches shortcut key combinations to their actions.
+ */
+function handleKeyDown(event: KeyboardEvent) {
+  if ($recordingShortcutFor.get()) {
+    recordShortcut(event);
+    return;
+  }
+  if (event.defaultPrevented || isTypingTarget(event.target)) return;
+
+  const shortcut = shortcutFromEvent(event);
+  if (!shortcut) return;
+  const action = findActionByShortcut(shortcut);
+  if (!action || action.args?.length) return;
+
+  event.preventDefault(); // Don't zoom the page, select its text, open the browser's save dialog, ...
+  if (!isActionAvailable(action)) return;
+  log('Shortcut pressed', { shortcut, id: action.id });
+  runAction(action.id);
+}
+
+/**
+ * Binds the pressed key combination to the action being recorded.
+ * Product Flow: User clicks "Change" next to "Reset layout" → presses Ctrl+Shift+R → it is bound
+ */
+function recordShortcut(event: KeyboardEvent) {
+  const id = $recordingShortcutFor.get();
+  if (!id || event.key === 'Tab') return; // Tab still moves focus
+  event.preventDefault();
+  event.stopPropagation();
+
+  if (event.key === 'Escape' && !event.ctrlKey && !event.metaKey && !event.altKey && !event.shiftKey) {
+    $recordingShortcutFor.set(null);
+    announce('Shortcut unchanged');
+    return;
+  }
+  const shortcut = shortcutFromEvent(event);
+  if (!shortcut) return; // Wait for the key that goes with the modifiers
+
+  $recordingShortcutFor.set(null);
+  setActionShortcut(id, shortcut);
+  announce(`${getAction(id)?.title ?? id}: ${formatShortcut(shortcut)}`);
+}
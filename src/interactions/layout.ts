@@ -4,30 +4,53 @@
  * This module handles saving and loading workspace layouts, allowing teams
  * to preserve their scenario arrangements and share them with others.
  * It also provides functionality to reset to a clean grid layout.
+ * Automatic saving between sessions lives with the named workspaces (state/workspaces).
  * 
  * Product Features:
  * - Save current card arrangement to JSON file
- * - Load previously saved layouts
+ * - Load previously saved layouts (each opens as its own workspace)
+ * - Import Mermaid flowcharts and Graphviz DOT graphs as new workspaces
  * - Reset to default grid layout
  * - Maintain connections when layouts change
+ * - Resetting and auto-arranging are undoable as a single step
+ * - Auto-arrange connected cards into a left-to-right or top-to-bottom flow
  */
 
-import { CardLayout, Connection } from '../state';
-import { $allCards, $allConnections, updateCardPosition, createConnection } from '../state';
-import { log, error } from '../utils/logger';
+import {
+  $allCards,
+  $allConnections,
+  $connectionRouting,
+  $gridSettings,
+  $layoutLoadReport,
+  moveCards,
+  CardLayout,
+  ConnectionKind,
+  CONNECTION_KIND_LABELS
+} from '../state';
+import { CURRENT_LAYOUT_VERSION, LayoutIssue, SavedConnection, SavedLayout, parseSavedLayout, summarizeIssues } from '../state/layout-schema';
+import { createWorkspace, findSavedCardLayouts } from '../state/workspaces';
+import { $environments } from '../state/environments';
+import { $scenarioCatalog } from '../state/catalog';
+import { runInTransaction, beginTransaction, commitTransaction } from '../state/history';
+import { getCardsBounds } from '../state/camera';
+import { computeLayeredLayout, LayoutDirection } from '../utils/auto-layout';
+import { parseGraphText, ParsedGraph } from '../utils/graph-text';
+import { animate } from 'motion';
+import { log, error, success } from '../utils/logger';
 
-/**
- * Interface for saved layout data.
- * Product Context: Complete snapshot of workspace arrangement.
- */
-interface SavedLayout {
-  /** All cards with their positions and sizes */
-  cards: CardLayout[];
-  /** All connections between cards */
-  connections: Connection[];
-  /** Version number for future compatibility */
-  version: number;
-}
+/** Spacing used by auto-arrange between layers and between cards in a layer */
+const ARRANGE_LAYER_GAP = 120;
+const ARRANGE_NODE_GAP = 40;
+/** How long cards take to glide to their arranged positions (seconds) */
+const ARRANGE_DURATION = 0.5;
+
+/** Size and top-left corner of cards created by a diagram import */
+const IMPORTED_CARD_WIDTH = 350;
+const IMPORTED_CARD_HEIGHT = 250;
+const IMPORT_ORIGIN = { x: 20, y: 80 };
+
+/** True while an auto-arrange animation is running */
+let isArranging = false;
 
 /**
  * Saves the current workspace layout to a JSON file.
@@ -49,8 +72,11 @@ export function saveLayoutToFile() {
   
   const layoutData: SavedLayout = {
     cards,
-    connections: connectionsForSave as Connection[],
-    version: 1
+    connections: connectionsForSave,
+    routing: $connectionRouting.get(),
+    grid: $gridSettings.get(),
+    environments: $environments.get(),
+    version: CURRENT_LAYOUT_VERSION
   };
   
   // Create downloadable file
@@ -72,59 +98,215 @@ export function saveLayoutToFile() {
 }
 
 /**
- * Loads a workspace layout from a selected file.
- * Product Flow: User selects file → layout is restored → workspace updates
+ * Opens a layout file as a new workspace, so the current board is never replaced.
+ * Older layout versions are migrated; broken cards and connections are
+ * skipped and listed in a report instead of failing the whole file.
+ * Product Flow: User selects file → layout is validated → it opens in its own workspace
  */
 export function loadLayoutFromFile(file: File) {
   const reader = new FileReader();
+  const workspaceName = file.name.replace(/\.json$/i, '') || 'Imported layout';
   
   reader.onload = (event) => {
+    let layoutData: unknown;
     try {
-      const layoutData = JSON.parse(event.target?.result as string);
-      
-      // Validate layout structure
-      if (!layoutData || 
-          typeof layoutData !== 'object' ||
-          !Array.isArray(layoutData.cards) ||
-          !Array.isArray(layoutData.connections)) {
-        throw new Error('Invalid layout format');
-      }
-      
-      // Clear existing state
-      $allCards.set([]);
-      $allConnections.set([]);
-      
-      // Restore cards
-      $allCards.set(layoutData.cards);
-      
-      // Recreate connections with new IDs
-      layoutData.connections.forEach((conn: any) => {
-        createConnection({
-          fromCardId: conn.fromCardId,
-          fromSide: conn.fromSide,
-          fromPosition: conn.fromPosition,
-          toCardId: conn.toCardId,
-          toSide: conn.toSide,
-          toPosition: conn.toPosition
-        });
-      });
-      
-    } catch (error) {
-      console.error('Failed to load layout:', error);
-      alert('Invalid layout file format');
+      layoutData = JSON.parse(event.target?.result as string);
+    } catch (err) {
+      error('Layout file is not valid JSON', err);
+      $layoutLoadReport.set({ source: file.name, outcome: 'failed', message: 'The file is not valid JSON.', issues: [] });
+      return;
+    }
+
+    let parsed: ReturnType<typeof parseSavedLayout>;
+    try {
+      parsed = parseSavedLayout(layoutData);
+    } catch (err) {
+      error('Failed to load layout', err);
+      $layoutLoadReport.set({ source: file.name, outcome: 'failed', message: (err as Error).message, issues: [] });
+      return;
     }
+
+    const { layout, issues, sourceVersion } = parsed;
+    createWorkspace(workspaceName, layout)
+      .then(() => {
+        if (issues.length > 0) {
+          $layoutLoadReport.set({
+            source: file.name,
+            outcome: 'partial',
+            message: `Loaded ${layout.cards.length} cards and ${layout.connections.length} connections (${summarizeIssues(issues)}).`,
+            issues
+          });
+        }
+        success('Layout opened as new workspace', { file: file.name, sourceVersion, issueCount: issues.length });
+      })
+      .catch(err => {
+        error('Failed to create workspace for layout', err);
+        $layoutLoadReport.set({ source: file.name, outcome: 'failed', message: (err as Error).message, issues: [] });
+      });
   };
   
   reader.readAsText(file);
 }
 
+/**
+ * Works out which scenario a diagram node stands for: a number at the end of
+ * its id (`s3`, `scenario_3`, `3`), or else a catalog scenario with the same title.
+ */
+function resolveScenarioId(key: string, title: string | undefined): number | null {
+  const numbered = key.match(/(\d+)$/);
+  if (numbered) return Number(numbered[1]);
+  const wanted = (title ?? key).trim().toLowerCase();
+  return $scenarioCatalog.get().find(s => s.title.toLowerCase() === wanted)?.id ?? null;
+}
+
+/**
+ * Picks the sides that face each other so imported arrows take the short way.
+ */
+function facingSides(from: CardLayout, to: CardLayout): { fromSide: number; toSide: number } {
+  const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+  const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? { fromSide: 1, toSide: 3 } : { fromSide: 3, toSide: 1 };
+  }
+  return dy >= 0 ? { fromSide: 2, toSide: 0 } : { fromSide: 0, toSide: 2 };
+}
+
+/**
+ * Turns a parsed diagram into a layout. Cards reuse a saved arrangement of the
+ * same scenarios when there is one, and are auto-arranged otherwise.
+ */
+async function buildLayoutFromGraph(graph: ParsedGraph): Promise<{ layout: SavedLayout; issues: LayoutIssue[] }> {
+  const issues: LayoutIssue[] = graph.warnings.map(warning => ({
+    path: `line ${warning.line}`,
+    problem: warning.message,
+    action: 'skipped' as const
+  }));
+
+  const idByKey = new Map<string, number>();
+  for (const node of graph.nodes) {
+    const id = resolveScenarioId(node.key, node.title);
+    if (id === null) {
+      issues.push({ path: `node "${node.key}"`, problem: 'has no scenario number and matches no scenario title', action: 'skipped' });
+    } else {
+      idByKey.set(node.key, id);
+    }
+  }
+  const cardIds = Array.from(new Set(idByKey.values()));
+
+  const edges: Array<{ fromCardId: number; toCardId: number; label?: string; dashed?: boolean }> = [];
+  const seen = new Set<string>();
+  graph.edges.forEach(edge => {
+    const path = `link ${edge.from} → ${edge.to}`;
+    const fromCardId = idByKey.get(edge.from);
+    const toCardId = idByKey.get(edge.to);
+    if (fromCardId === undefined || toCardId === undefined) {
+      issues.push({ path, problem: 'connects a node that was skipped', action: 'skipped' });
+    } else if (fromCardId === toCardId) {
+      issues.push({ path, problem: 'connects a scenario to itself', action: 'skipped' });
+    } else if (!seen.has(`${fromCardId}->${toCardId}`)) {
+      seen.add(`${fromCardId}->${toCardId}`);
+      edges.push({ fromCardId, toCardId, label: edge.label, dashed: edge.dashed });
+    }
+  });
+
+  let cards = await findSavedCardLayouts(cardIds);
+  if (cards) {
+    log('Diagram import reuses a saved arrangement', { cardCount: cards.length });
+  } else {
+    const nodes = cardIds.map(id => ({ id, width: IMPORTED_CARD_WIDTH, height: IMPORTED_CARD_HEIGHT }));
+    const positions = computeLayeredLayout(nodes, edges, {
+      direction: graph.direction,
+      origin: IMPORT_ORIGIN,
+      layerGap: ARRANGE_LAYER_GAP,
+      nodeGap: ARRANGE_NODE_GAP
+    });
+    cards = nodes.map(node => ({ ...node, ...positions.get(node.id)!, zIndex: 1 }));
+  }
+
+  const cardById = new Map(cards.map(card => [card.id, card]));
+  // Comparison pairs can't be described in a diagram, so "compared with" stays a plain label
+  const kindByLabel = new Map(
+    (Object.keys(CONNECTION_KIND_LABELS) as ConnectionKind[])
+      .filter(kind => kind !== 'comparison')
+      .map(kind => [CONNECTION_KIND_LABELS[kind], kind])
+  );
+  const connections: SavedConnection[] = edges.map(edge => {
+    // A label that names a kind ("depends on") becomes that kind
+    const kind = edge.label ? kindByLabel.get(edge.label.toLowerCase()) : undefined;
+    return {
+      fromCardId: edge.fromCardId,
+      toCardId: edge.toCardId,
+      ...facingSides(cardById.get(edge.fromCardId)!, cardById.get(edge.toCardId)!),
+      fromPosition: 0.5,
+      toPosition: 0.5,
+      ...(kind ? { kind } : edge.label ? { label: edge.label } : {}),
+      ...(edge.dashed && kind !== 'variant-of' ? { style: { dashed: true } } : {})
+    };
+  });
+
+  return {
+    layout: {
+      cards,
+      connections,
+      routing: $connectionRouting.get(),
+      grid: $gridSettings.get(),
+      environments: $environments.get(),
+      version: CURRENT_LAYOUT_VERSION
+    },
+    issues
+  };
+}
+
+/**
+ * Opens a Mermaid flowchart or Graphviz DOT file as a new workspace.
+ * Product Flow: User picks a .mmd/.dot file from the docs → its scenarios and links appear as cards and arrows
+ */
+export function importDiagramFromFile(file: File) {
+  const reader = new FileReader();
+  const workspaceName = file.name.replace(/\.(mmd|mermaid|dot|gv|txt)$/i, '') || 'Imported diagram';
+
+  reader.onload = async (event) => {
+    try {
+      const graph = parseGraphText(event.target?.result as string);
+      const { layout, issues } = await buildLayoutFromGraph(graph);
+      if (layout.cards.length === 0) {
+        throw new Error('The diagram contains no scenarios that could be recognized');
+      }
+
+      await createWorkspace(workspaceName, layout);
+      $layoutLoadReport.set(issues.length > 0 ? {
+        source: file.name,
+        outcome: 'partial',
+        message: `Imported ${layout.cards.length} cards and ${layout.connections.length} connections (${summarizeIssues(issues)}).`,
+        issues
+      } : null);
+      success('Diagram imported as new workspace', { file: file.name, format: graph.format, issueCount: issues.length });
+    } catch (err) {
+      error('Failed to import diagram', err);
+      $layoutLoadReport.set({ source: file.name, outcome: 'failed', message: (err as Error).message, issues: [] });
+    }
+  };
+
+  reader.readAsText(file);
+}
+
+/**
+ * Closes the layout load report.
+ */
+export function dismissLayoutLoadReport() {
+  $layoutLoadReport.set(null);
+}
+
 /**
  * Resets all cards to a clean grid layout.
  * Product Purpose: Quick way to organize workspace from scratch.
  */
 export function resetLayout() {
   log('Reset layout initiated');
+  runInTransaction('Reset layout', applyResetLayout);
+}
 
+function applyResetLayout() {
   // Clear connections
   $allConnections.set([]);
   log('Connections cleared');
@@ -160,48 +342,53 @@ export function resetLayout() {
 }
 
 /**
- * Registers the layout persistence system to save automatically.
- * Product Purpose: Ensures user work is preserved even between sessions.
+ * Arranges cards into a layered flow that follows their connections.
+ * Connected cards are ordered to keep lines from crossing; cards without
+ * connections are gathered in a separate area. The cards glide to their new
+ * positions and the whole arrangement is a single undo step.
+ * Product Flow: User clicks "Auto-arrange" → cards animate into a readable flow → Ctrl+Z restores the old layout
  */
-export function initializeLayoutPersistence() {
-  // Save layout to localStorage whenever cards or connections change
-  $allCards.subscribe(() => {
-    saveLayoutToLocalStorage();
+export function autoArrange(direction: LayoutDirection = 'LR') {
+  const cards = $allCards.get();
+  const bounds = getCardsBounds(cards);
+  if (!bounds || isArranging) {
+    log('Auto-arrange skipped', { cardCount: cards.length, isArranging });
+    return;
+  }
+
+  const targets = computeLayeredLayout(cards, $allConnections.get(), {
+    direction,
+    origin: { x: bounds.x, y: bounds.y }, // Keep the arrangement where the user was working
+    layerGap: ARRANGE_LAYER_GAP,
+    nodeGap: ARRANGE_NODE_GAP
   });
-  
-  $allConnections.subscribe(() => {
-    saveLayoutToLocalStorage();
+  const starts = cards.map(card => ({ id: card.id, x: card.x, y: card.y }));
+  // Cards the layout gave no position stay where they are
+  const positionsAt = (progress: number) => starts.flatMap(start => {
+    const target = targets.get(start.id);
+    if (!target) return [];
+    return [{
+      id: start.id,
+      x: Math.round(start.x + (target.x - start.x) * progress),
+      y: Math.round(start.y + (target.y - start.y) * progress)
+    }];
   });
-  
-  // Try to load from localStorage on startup
-  const savedLayout = localStorage.getItem('scenario-viewer-layout');
-  if (savedLayout) {
-    try {
-      const layoutData = JSON.parse(savedLayout);
-      $allCards.set(layoutData.cards || []);
-      $allConnections.set(layoutData.connections || []);
-    } catch (error) {
-      console.error('Failed to load from localStorage:', error);
-    }
-  }
-}
 
-/**
- * Saves the current layout to browser's local storage.
- * Product Context: Automatic backup of user's workspace arrangement.
- */
-function saveLayoutToLocalStorage() {
-  const cards = $allCards.get();
-  const connections = $allConnections.get();
-  
-  const layoutData = {
-    cards,
-    connections
+  log('Auto-arrange started', { direction, cardCount: cards.length });
+  isArranging = true;
+  beginTransaction('Auto-arrange'); // Every animation frame belongs to one undo step
+
+  const finish = () => {
+    moveCards(positionsAt(1)); // Land exactly on the target even if frames were skipped
+    commitTransaction();
+    isArranging = false;
+    log('Auto-arrange complete', { direction });
   };
-  
-  try {
-    localStorage.setItem('scenario-viewer-layout', JSON.stringify(layoutData));
-  } catch (error) {
-    console.error('Failed to save to localStorage:', error);
-  }
-}
\ No newline at end of file
+
+  animate(progress => moveCards(positionsAt(progress)), { duration: ARRANGE_DURATION, easing: 'ease-in-out' })
+    .finished
+    .then(finish, err => {
+      error('Auto-arrange animation failed', err);
+      finish();
+    });
+}
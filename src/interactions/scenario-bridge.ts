@@ -0,0 +1,165 @@
+/**
+ * SCENARIO BRIDGE
+ *
+ * The viewer's side of the postMessage protocol in client/protocol.ts:
+ * receives what scenario pages report and sends them commands.
+ *
+ * Product Features:
+ * - Only messages from a card's own iframe, coming from that card's content
+ *   source, are accepted
+ * - Reload, navigate and set-parameters commands from the card menu
+ * - Reload also works for pages that don't use the bridge
+ */
+
+import { $allCards, CardLayout, getCardScenarioId } from '../state';
+import { getCardSourceUrl, resolveCardProfile } from '../state/environments';
+import { applyScenarioMessage, getScenarioReport } from '../state/scenario-bridge';
+import { reloadCard } from '../state/card-loading';
+import {
+  PROTOCOL_NAME,
+  ViewerCommand,
+  ViewerMessage,
+  isEnvelope,
+  parseScenarioMessage,
+  wrapMessage
+} from '../client/protocol';
+import { log, error } from '../utils/logger';
+
+/**
+ * Starts listening to scenario pages.
+ * Product Purpose: Lets scenarios tell the board how they are doing.
+ */
+export function setupScenarioBridge() {
+  log('Setting up scenario bridge');
+  window.addEventListener('message', handleMessage);
+}
+
+function handleMessage(event: MessageEvent) {
+  if (!isEnvelope(event.data)) {
+    if ((event.data as { protocol?: unknown })?.protocol === PROTOCOL_NAME) {
+      log('Scenario message from a newer protocol version ignored', { version: event.data.version });
+    }
+    return; // Other scripts use postMessage too
+  }
+
+  const frame = findFrameOf(event.source);
+  if (!frame) {
+    log('Scenario message from a window that is not a card ignored', { origin: event.origin });
+    return;
+  }
+  const { card, iframe } = frame;
+
+  const expectedOrigin = getOrigin(resolveCardProfile(card).baseUrl);
+  if (event.origin !== expectedOrigin) {
+    error('Scenario message rejected: it does not come from the card\'s content source', {
+      cardId: card.id,
+      origin: event.origin,
+      expectedOrigin
+    });
+    return;
+  }
+
+  const message = parseScenarioMessage(event.data);
+  if (!message) {
+    log('Malformed scenario message ignored', { cardId: card.id, type: event.data.type });
+    return;
+  }
+
+  applyScenarioMessage(card.id, getCardSourceUrl(card), message);
+  if (message.type === 'ready') {
+    post(iframe, card, {
+      type: 'hello',
+      cardId: card.id,
+      scenarioId: getCardScenarioId(card),
+      environment: resolveCardProfile(card).name
+    });
+  }
+}
+
+/**
+ * Finds the card whose iframe is the given window.
+ */
+function findFrameOf(source: MessageEventSource | null): { card: CardLayout; iframe: HTMLIFrameElement } | null {
+  if (!source) return null;
+  for (const iframe of Array.from(document.querySelectorAll<HTMLIFrameElement>('.card iframe'))) {
+    if (iframe.contentWindow !== source) continue;
+    const cardId = parseInt((iframe.closest('.card') as HTMLElement | null)?.dataset.cardId || '', 10);
+    const card = $allCards.get().find(c => c.id === cardId);
+    return card ? { card, iframe } : null;
+  }
+  return null;
+}
+
+function findCardFrame(cardId: number): HTMLIFrameElement | null {
+  return document.querySelector<HTMLIFrameElement>(`.card[data-card-id="${cardId}"] iframe`);
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+function post(iframe: HTMLIFrameElement, card: CardLayout, message: ViewerMessage) {
+  const origin = getOrigin(resolveCardProfile(card).baseUrl);
+  if (!origin || !iframe.contentWindow) return;
+  iframe.contentWindow.postMessage(wrapMessage(message), origin);
+}
+
+/**
+ * Sends a command to the page shown in a card.
+ * Returns false when the page doesn't use the bridge (so it can't receive commands).
+ */
+export function sendScenarioCommand(cardId: number, command: ViewerCommand): boolean {
+  const card = $allCards.get().find(c => c.id === cardId);
+  if (!card) {
+    error('sendScenarioCommand: Card not found', { cardId });
+    return false;
+  }
+  const iframe = findCardFrame(cardId);
+  if (!iframe) {
+    log('Card has no live iframe (off-screen or zoomed out), command not sent', { cardId, command: command.type });
+    return false;
+  }
+  if (!getScenarioReport(card)) {
+    log('Scenario does not use the bridge, command not sent', { cardId, command: command.type });
+    return false;
+  }
+  post(iframe, card, command);
+  log('Scenario command sent', { cardId, command });
+  return true;
+}
+
+/**
+ * Reloads a card's scenario: through the bridge when the page uses it,
+ * otherwise by loading the iframe again (which is also load-monitored again).
+ * Product Flow: User picks "Reload" in the card menu → the scenario starts over
+ */
+export function reloadScenario(cardId: number) {
+  if (sendScenarioCommand(cardId, { type: 'reload' })) return;
+  reloadCard(cardId);
+}
+
+/**
+ * Asks for a path and sends the scenario there.
+ * Product Flow: User picks "Navigate…" → enters "/checkout/step-2" → the card shows that page
+ */
+export function promptNavigateScenario(cardId: number) {
+  const path = prompt('Path or address within the scenario (e.g. /checkout/step-2):');
+  if (!path?.trim()) return;
+  sendScenarioCommand(cardId, { type: 'navigate', path: path.trim() });
+}
+
+/**
+ * Asks for query parameters and passes them to the scenario.
+ * Product Flow: User picks "Set parameters…" → enters "locale=de&user=guest" → the scenario applies them
+ */
+export function promptScenarioParams(cardId: number) {
+  const text = prompt('Parameters as key=value pairs separated by & (e.g. locale=de&user=guest):');
+  if (!text?.trim()) return;
+  const params = Object.fromEntries(new URLSearchParams(text.trim().replace(/^\?/, '')));
+  if (Object.keys(params).length === 0) return;
+  sendScenarioCommand(cardId, { type: 'set-params', params });
+}
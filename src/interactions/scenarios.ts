@@ -0,0 +1,65 @@
+/**
+ * SCENARIO CATALOG INTERACTIONS
+ *
+ * This module places scenarios from the catalog onto the workspace and
+ * takes them off again.
+ *
+ * Product Features:
+ * - Add any scenario the content source offers
+ * - New cards appear in the middle of the current view
+ * - Removing a card also removes its connections (undoable)
+ */
+
+import { $allCards, addCard, removeCard, CardLayout } from '../state';
+import { $isScenarioPickerOpen, getScenarioInfo } from '../state/catalog';
+import { getVisibleWorldCenter } from './canvas';
+import { log } from '../utils/logger';
+
+/** Size given to newly added cards (matches the default grid) */
+const NEW_CARD_WIDTH = 350;
+const NEW_CARD_HEIGHT = 250;
+/** How far each new card is nudged so repeated adds don't stack exactly */
+const CASCADE_OFFSET = 24;
+
+/**
+ * Adds a card for the given scenario in the middle of the visible area.
+ * Product Flow: User picks a scenario in the "Add scenario" list → card appears where they are looking
+ */
+export function addScenarioCard(scenarioId: number) {
+  const cards = $allCards.get();
+  if (cards.some(c => c.id === scenarioId)) {
+    log('Scenario already on workspace, not adding again', { scenarioId });
+    return;
+  }
+
+  const center = getVisibleWorldCenter();
+  let x = Math.round(center.x - NEW_CARD_WIDTH / 2);
+  let y = Math.round(center.y - NEW_CARD_HEIGHT / 2);
+  // Cascade away from any card already sitting at the same spot
+  while (cards.some(c => c.x === x && c.y === y)) {
+    x += CASCADE_OFFSET;
+    y += CASCADE_OFFSET;
+  }
+
+  const card: CardLayout = {
+    id: scenarioId,
+    x,
+    y,
+    width: NEW_CARD_WIDTH,
+    height: NEW_CARD_HEIGHT,
+    zIndex: Math.max(0, ...cards.map(c => c.zIndex)) + 1
+  };
+
+  log('Adding scenario card', { scenarioId, title: getScenarioInfo(scenarioId)?.title, x, y });
+  addCard(card);
+  $isScenarioPickerOpen.set(false);
+}
+
+/**
+ * Removes a scenario card and its connections from the workspace.
+ * Product Flow: User clicks × on a card header → card is removed (Ctrl+Z brings it back)
+ */
+export function removeScenarioCard(cardId: number) {
+  log('Removing scenario card', { cardId });
+  removeCard(cardId);
+}
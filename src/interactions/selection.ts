@@ -0,0 +1,91 @@
+/**
+ * SELECTION INTERACTIONS
+ *
+ * This module handles selecting cards on empty canvas: pressing on the
+ * background clears the selection, and dragging sweeps a rubber-band
+ * (marquee) rectangle that selects every card it touches.
+ *
+ * Product Features:
+ * - Drag on empty canvas to select several cards at once
+ * - Hold Shift while sweeping to add to the current selection
+ * - Click empty canvas to deselect cards and close the connection editor
+ */
+
+import { $allCards, $selectedCardIds, $selectedConnectionId, $marquee, selectCards, CardLayout } from '../state';
+import { clientToWorld } from './canvas';
+import { log, error } from '../utils/logger';
+
+/**
+ * Initializes marquee selection on the workspace.
+ * Product Purpose: Lets teams grab a whole cluster of scenarios in one gesture.
+ */
+export function setupSelectionSystem() {
+  log('Setting up selection system');
+
+  const workspace = document.getElementById('workspace');
+  if (!workspace) {
+    error('Cannot setup selection system: workspace element not found');
+    return;
+  }
+
+  workspace.addEventListener('pointerdown', handleBackgroundPress);
+}
+
+/**
+ * Returns true when a card overlaps the given world rectangle.
+ */
+function cardIntersectsRect(card: CardLayout, rect: { x: number; y: number; width: number; height: number }): boolean {
+  return card.x < rect.x + rect.width && rect.x < card.x + card.width &&
+    card.y < rect.y + rect.height && rect.y < card.y + card.height;
+}
+
+/**
+ * Starts a marquee when the user presses on empty canvas.
+ * Product Flow: User presses on background → drags a rectangle → touched cards become selected
+ */
+function handleBackgroundPress(event: PointerEvent) {
+  const target = event.target as Element;
+  if (!target.closest('#workspace-content')) return;
+
+  if (!target.closest('.connection') && $selectedConnectionId.get() !== null) {
+    $selectedConnectionId.set(null);
+  }
+  if (target.closest('.card, .connection, .connection-legend') || event.button !== 0) return;
+
+  event.preventDefault(); // Don't start a text selection
+  const baseSelection = event.shiftKey ? $selectedCardIds.get() : [];
+  selectCards(baseSelection);
+
+  const origin = clientToWorld(event.clientX, event.clientY);
+
+  function handleMove(moveEvent: PointerEvent) {
+    if (moveEvent.pointerId !== event.pointerId) return;
+    const current = clientToWorld(moveEvent.clientX, moveEvent.clientY);
+    const rect = {
+      x: Math.min(origin.x, current.x),
+      y: Math.min(origin.y, current.y),
+      width: Math.abs(current.x - origin.x),
+      height: Math.abs(current.y - origin.y)
+    };
+    $marquee.set(rect);
+
+    const sweptIds = $allCards.get().filter(card => cardIntersectsRect(card, rect)).map(card => card.id);
+    selectCards([...baseSelection, ...sweptIds]);
+  }
+
+  // Also runs when the browser cancels the pointer (e.g. a touch turned into a scroll)
+  function handleRelease(releaseEvent: PointerEvent) {
+    if (releaseEvent.pointerId !== event.pointerId) return;
+    document.removeEventListener('pointermove', handleMove);
+    document.removeEventListener('pointerup', handleRelease);
+    document.removeEventListener('pointercancel', handleRelease);
+    if ($marquee.get()) {
+      log('Marquee selection finished', { selected: $selectedCardIds.get() });
+    }
+    $marquee.set(null);
+  }
+
+  document.addEventListener('pointermove', handleMove);
+  document.addEventListener('pointerup', handleRelease);
+  document.addEventListener('pointercancel', handleRelease);
+}
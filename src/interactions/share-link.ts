@@ -0,0 +1,179 @@
+/**
+ * SHAREABLE LINK ACTIONS
+ *
+ * Copying the current board as a link, and previewing and importing a board
+ * that arrived as a link.
+ *
+ * Product Features:
+ * - Copy link (warns when the board is too big for a reliable link)
+ * - Read-only preview of a shared board before anything is stored
+ * - Import the previewed board as a new workspace, or close it and return to yours
+ */
+
+import {
+  $allCards,
+  $allConnections,
+  $connectionRouting,
+  $gridSettings,
+  $hostUrl,
+  $layoutLoadReport,
+  $selectedCardIds,
+  $selectedConnectionId,
+  ConnectionRouting,
+  GridSettings,
+  createConnectionId,
+  isValidBaseUrl
+} from '../state';
+import { $workspaces, $activeWorkspaceId, initializeWorkspaces, createWorkspace } from '../state/workspaces';
+import { CURRENT_LAYOUT_VERSION, summarizeIssues } from '../state/layout-schema';
+import { $environments, EnvironmentSettings } from '../state/environments';
+import {
+  $sharedBoardPreview,
+  MAX_SHARE_LINK_LENGTH,
+  encodeSharedBoard,
+  decodeSharedBoard
+} from '../state/share-link';
+import { log, error, success } from '../utils/logger';
+
+/** Your own settings, put back when a preview ends */
+let settingsBeforePreview: {
+  hostUrl: string;
+  routing: ConnectionRouting;
+  grid: GridSettings;
+  environments: EnvironmentSettings;
+} | null = null;
+
+/**
+ * Copies a link containing the whole current board.
+ * Product Flow: User clicks "Copy link" → sends it to a teammate → they open the board
+ */
+export async function copyShareLink(): Promise<void> {
+  const name = $workspaces.get().find(w => w.id === $activeWorkspaceId.get())?.name ?? 'Shared board';
+  let fragment: string;
+  try {
+    fragment = await encodeSharedBoard({
+      name,
+      hostUrl: $hostUrl.get(),
+      layout: {
+        cards: $allCards.get(),
+        connections: $allConnections.get(),
+        routing: $connectionRouting.get(),
+        grid: $gridSettings.get(),
+        environments: $environments.get(),
+        version: CURRENT_LAYOUT_VERSION
+      }
+    });
+  } catch (err) {
+    error('Could not create a share link', err);
+    alert('This browser cannot create share links (compression is not supported). Use "Save Layout" instead.');
+    return;
+  }
+
+  const url = `${location.origin}${location.pathname}${location.search}#${fragment}`;
+  log('Share link created', { length: url.length, cardCount: $allCards.get().length });
+  if (url.length > MAX_SHARE_LINK_LENGTH && !confirm(
+    `This board makes a very long link (${url.length.toLocaleString()} characters). ` +
+    `Links over ${MAX_SHARE_LINK_LENGTH.toLocaleString()} characters may be cut off by chat apps, email or some browsers; ` +
+    'sharing a saved layout file is more reliable.\n\nCopy the link anyway?'
+  )) {
+    return;
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    success('Share link copied to clipboard');
+  } catch {
+    // No clipboard access (e.g. not a secure context): let the user copy it by hand
+    prompt('Copy this link to share the board:', url);
+  }
+}
+
+/**
+ * Shows the board from the URL fragment as a read-only preview, if there is one.
+ * Resolves to true when a preview is shown; workspaces are not opened until
+ * the preview is imported or closed.
+ * Product Flow: User opens a shared link → sees the board → decides whether to keep it
+ */
+export async function openSharedBoardPreview(): Promise<boolean> {
+  let decoded: Awaited<ReturnType<typeof decodeSharedBoard>>;
+  try {
+    decoded = await decodeSharedBoard(location.hash);
+  } catch (err) {
+    error('Shared board link could not be opened', err);
+    $layoutLoadReport.set({ source: 'Shared link', outcome: 'failed', message: (err as Error).message, issues: [] });
+    clearLinkFragment();
+    return false;
+  }
+  if (!decoded) return false;
+
+  const { board, issues } = decoded;
+  settingsBeforePreview = {
+    hostUrl: $hostUrl.get(),
+    routing: $connectionRouting.get(),
+    grid: $gridSettings.get(),
+    environments: $environments.get()
+  };
+  // Set directly rather than through updateHostUrl/setEnvironments so the preview's source isn't remembered
+  if (board.layout.environments) $environments.set(board.layout.environments);
+  if (board.hostUrl && isValidBaseUrl(board.hostUrl)) $hostUrl.set(board.hostUrl);
+  if (board.layout.routing) $connectionRouting.set(board.layout.routing);
+  if (board.layout.grid) $gridSettings.set(board.layout.grid);
+  $allCards.set(board.layout.cards);
+  $allConnections.set(board.layout.connections.map(conn => ({ ...conn, id: conn.id ?? createConnectionId() })));
+  $sharedBoardPreview.set(board);
+
+  if (issues.length > 0) {
+    $layoutLoadReport.set({
+      source: board.name,
+      outcome: 'partial',
+      message: `Some of this shared board could not be shown (${summarizeIssues(issues)}).`,
+      issues
+    });
+  }
+  success('Shared board preview opened', { name: board.name, cardCount: board.layout.cards.length });
+  return true;
+}
+
+/**
+ * Keeps the previewed board as a new workspace.
+ */
+export async function importSharedBoard(): Promise<void> {
+  const board = $sharedBoardPreview.get();
+  if (!board) return;
+
+  endPreview();
+  await initializeWorkspaces();
+  await createWorkspace(board.name, board.layout, board.hostUrl || undefined);
+  success('Shared board imported as a workspace', { name: board.name });
+}
+
+/**
+ * Leaves the preview without keeping anything and opens your workspaces.
+ */
+export async function closeSharedBoardPreview(): Promise<void> {
+  if (!$sharedBoardPreview.get()) return;
+  endPreview();
+  await initializeWorkspaces();
+  log('Shared board preview closed');
+}
+
+function endPreview() {
+  clearLinkFragment();
+  if (settingsBeforePreview) {
+    $hostUrl.set(settingsBeforePreview.hostUrl);
+    $connectionRouting.set(settingsBeforePreview.routing);
+    $gridSettings.set(settingsBeforePreview.grid);
+    $environments.set(settingsBeforePreview.environments);
+    settingsBeforePreview = null;
+  }
+  $selectedCardIds.set([]);
+  $selectedConnectionId.set(null);
+  $sharedBoardPreview.set(null);
+}
+
+/**
+ * Removes the board from the address bar, so a reload shows your own workspaces.
+ */
+function clearLinkFragment() {
+  history.replaceState(null, '', `${location.pathname}${location.search}`);
+}
@@ -0,0 +1,54 @@
+/**
+ * SCREEN READER SUPPORT
+ *
+ * What the board's live region reads out (see templates/app.ts) and the names
+ * cards and connections go by in labels and announcements.
+ *
+ * Product Features:
+ * - Keyboard actions are confirmed out loud, e.g. "Connected Scenario 2 to Scenario 5"
+ * - Cards are named after their scenario, plus the environment when it isn't the default
+ */
+
+import { atom } from 'nanostores';
+import { $allCards, CONNECTION_KIND_LABELS, Connection, getCardScenarioId } from './index';
+import { getScenarioInfo } from './catalog';
+import { $environments, resolveCardProfile } from './environments';
+
+/** Names of card sides, indexed by side number */
+export const SIDE_NAMES = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * The latest announcement. `count` changes with every announcement so the
+ * same message twice in a row is still read out.
+ * Product Context: Keyboard and screen reader users hear what their action did.
+ */
+export const $announcement = atom<{ message: string; count: number }>({ message: '', count: 0 });
+
+/**
+ * Reads a message out through the live region.
+ */
+export function announce(message: string): void {
+  $announcement.set({ message, count: $announcement.get().count + 1 });
+}
+
+/**
+ * The name a card goes by: its own title or its scenario's, and the environment when it
+ * isn't the default one (so both sides of a comparison can be told apart).
+ */
+export function getCardName(cardId: number): string {
+  const card = $allCards.get().find(c => c.id === cardId);
+  if (!card) return `Card ${cardId}`;
+  const scenarioId = getCardScenarioId(card);
+  const title = card.title ?? getScenarioInfo(scenarioId)?.title ?? `Scenario ${scenarioId}`;
+  const profile = resolveCardProfile(card);
+  return profile.id === $environments.get().defaultProfileId ? title : `${title} (${profile.name})`;
+}
+
+/**
+ * Describes a connection, e.g. "Scenario 2 depends on Scenario 5".
+ */
+export function describeConnection(connection: Connection): string {
+  const relation = connection.kind ? CONNECTION_KIND_LABELS[connection.kind] : 'connected to';
+  const label = connection.label && connection.label !== relation ? `, labelled ${connection.label}` : '';
+  return `${getCardName(connection.fromCardId)} ${relation} ${getCardName(connection.toCardId)}${label}`;
+}
@@ -0,0 +1,263 @@
+/**
+ * WORKSPACE ACTIONS
+ *
+ * The registry every workspace action goes through: header buttons, keyboard
+ * shortcuts and the command palette all run actions by id, so they behave the
+ * same however they are triggered. The built-in actions are registered in
+ * interactions/actions.ts.
+ *
+ * Product Features:
+ * - Actions can ask for values first (which card, which connection, ...)
+ * - Keyboard shortcuts can be rebound; changes are kept in localStorage
+ * - Actions that change the board are unavailable in shared link previews
+ */
+
+import { atom } from 'nanostores';
+import { $sharedBoardPreview } from './share-link';
+import { log, error } from '../utils/logger';
+
+const SHORTCUTS_KEY = 'scenario-shortcuts';
+
+/**
+ * One choice for a value an action asks for.
+ */
+export interface ActionOption {
+  value: string;
+  label: string;
+  /** Extra text shown (and searched) next to the label */
+  detail?: string;
+}
+
+/**
+ * A value an action asks for before it runs, e.g. the card to go to.
+ */
+export interface ActionArgument {
+  /** Shown in the empty search field, e.g. "Connect from…" */
+  prompt: string;
+  /** Choices, given the values picked for the earlier arguments */
+  options: (previousValues: string[]) => ActionOption[];
+}
+
+/**
+ * Something the user can do with the workspace.
+ * Product Meaning: An entry in the command palette, often also a button or a shortcut.
+ */
+export interface WorkspaceAction {
+  /** Stable id, e.g. "layout.reset"; also the key for rebound shortcuts */
+  id: string;
+  title: string;
+  /** Groups actions in the palette and the shortcut settings */
+  category: string;
+  /** Other words the palette should find the action by */
+  keywords?: string[];
+  /** Shortcuts like "Mod+Shift+Z" (Mod is Ctrl, or Cmd on a Mac); see shortcutFromEvent */
+  defaultShortcuts?: string[];
+  /** Whether the action changes the board (not allowed in shared link previews) */
+  editsBoard?: boolean;
+  /** Asked for one after the other before the action runs; actions with arguments can't have shortcuts */
+  args?: ActionArgument[];
+  /** Whether the action can run right now (e.g. there is something to undo) */
+  isEnabled?: () => boolean;
+  run: (values: string[]) => void;
+}
+
+const registry = new Map<string, WorkspaceAction>();
+
+/**
+ * Shortcuts the user changed, by action id. Actions not listed use their defaults.
+ * Product Context: Teams coming from other tools keep their muscle memory.
+ */
+export const $shortcutOverrides = atom<Record<string, string[]>>(loadShortcutOverrides());
+
+/**
+ * Whether the keyboard shortcut settings are open.
+ */
+export const $isShortcutSettingsOpen = atom<boolean>(false);
+
+/**
+ * The action whose shortcut is being recorded: the next key combination pressed becomes its shortcut.
+ */
+export const $recordingShortcutFor = atom<string | null>(null);
+
+function loadShortcutOverrides(): Record<string, string[]> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHORTCUTS_KEY) || '{}');
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+    return Object.fromEntries(Object.entries(stored).filter(
+      (entry): entry is [string, string[]] => Array.isArray(entry[1]) && entry[1].every(s => typeof s === 'string')
+    ));
+  } catch (e) {
+    error('Failed to read keyboard shortcuts from localStorage', e);
+    return {};
+  }
+}
+
+function saveShortcutOverrides(overrides: Record<string, string[]>) {
+  $shortcutOverrides.set(overrides);
+  try {
+    localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    error('Failed to save keyboard shortcuts to localStorage', e);
+  }
+}
+
+/**
+ * Adds actions to the registry, replacing any with the same id.
+ */
+export function registerActions(actions: WorkspaceAction[]): void {
+  actions.forEach(action => registry.set(action.id, action));
+  log('Workspace actions registered', { count: actions.length });
+}
+
+/**
+ * Every registered action, in registration order.
+ */
+export function getActions(): WorkspaceAction[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * The action registered under an id, if any.
+ */
+export function getAction(id: string): WorkspaceAction | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Whether an action can run now: it exists, is enabled, and doesn't change a
+ * board that is only being previewed.
+ */
+export function isActionAvailable(action: WorkspaceAction): boolean {
+  if (action.editsBoard && $sharedBoardPreview.get()) return false;
+  return action.isEnabled ? action.isEnabled() : true;
+}
+
+/**
+ * Runs an action with the values it asks for.
+ * Product Flow: User clicks "Reset Layout", presses its shortcut or picks it in the palette → the same thing happens
+ */
+export function runAction(id: string, values: string[] = []): void {
+  const action = registry.get(id);
+  if (!action) {
+    error('runAction: Unknown action', { id });
+    return;
+  }
+  if (!isActionAvailable(action)) {
+    log('Action not available right now', { id });
+    return;
+  }
+  if ((action.args?.length ?? 0) > values.length) {
+    error('runAction: Missing values for action', { id, expected: action.args?.length, got: values.length });
+    return;
+  }
+  log('Running action', { id, values });
+  action.run(values);
+}
+
+/**
+ * The shortcuts an action currently has (its own choice or the defaults).
+ */
+export function getActionShortcuts(id: string): string[] {
+  return $shortcutOverrides.get()[id] ?? registry.get(id)?.defaultShortcuts ?? [];
+}
+
+/**
+ * The action a key combination is bound to, if any.
+ */
+export function findActionByShortcut(shortcut: string): WorkspaceAction | undefined {
+  return getActions().find(action => getActionShortcuts(action.id).includes(shortcut));
+}
+
+/**
+ * Binds a key combination to an action, taking it away from any other action.
+ * Product Flow: User records Ctrl+Shift+R for "Reset layout" → it no longer does what it did before
+ */
+export function setActionShortcut(id: string, shortcut: string): void {
+  const overrides = { ...$shortcutOverrides.get() };
+  for (const action of getActions()) {
+    if (action.id === id) continue;
+    const shortcuts = getActionShortcuts(action.id);
+    if (shortcuts.includes(shortcut)) {
+      overrides[action.id] = shortcuts.filter(s => s !== shortcut);
+      log('Shortcut taken from another action', { shortcut, from: action.id });
+    }
+  }
+  overrides[id] = [shortcut];
+  saveShortcutOverrides(overrides);
+  log('Shortcut bound', { id, shortcut });
+}
+
+/**
+ * Removes every shortcut of an action.
+ */
+export function clearActionShortcut(id: string): void {
+  saveShortcutOverrides({ ...$shortcutOverrides.get(), [id]: [] });
+}
+
+/**
+ * Gives an action (or, without an id, every action) its default shortcuts back.
+ */
+export function resetActionShortcuts(id?: string): void {
+  if (!id) {
+    saveShortcutOverrides({});
+    return;
+  }
+  const { [id]: _removed, ...rest } = $shortcutOverrides.get();
+  saveShortcutOverrides(rest);
+}
+
+/** Key names for the physical keys shortcuts use, so they work on any keyboard layout */
+const CODE_KEYS: Record<string, string> = {
+  Equal: '=',
+  Minus: '-',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: '\'',
+  Backquote: '`'
+};
+
+/**
+ * Turns a key press into a shortcut like "Mod+Shift+Z", or null for a lone
+ * modifier key. Letters and digits come from the physical key (event.code),
+ * so Shift+1 is "Shift+1" and not "Shift+!".
+ */
+export function shortcutFromEvent(event: KeyboardEvent): string | null {
+  if (['Control', 'Meta', 'Shift', 'Alt'].includes(event.key)) return null;
+
+  let key = event.key;
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.substring(3);
+  else if (/^Digit[0-9]$/.test(event.code)) key = event.code.substring(5);
+  else if (CODE_KEYS[event.code]) key = CODE_KEYS[event.code];
+  else if (key === ' ') key = 'Space';
+  else if (key === '+') key = 'Plus'; // '+' separates the parts of a shortcut
+  else if (key.length === 1) key = key.toUpperCase();
+
+  return [
+    event.ctrlKey || event.metaKey ? 'Mod' : '',
+    event.altKey ? 'Alt' : '',
+    event.shiftKey ? 'Shift' : '',
+    key
+  ].filter(Boolean).join('+');
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * How a shortcut is shown to the user, e.g. "Ctrl+Shift+Z" (or "⌘+Shift+Z" on a Mac).
+ */
+export function formatShortcut(shortcut: string): string {
+  return shortcut.split('+').map(part => part === 'Mod' ? (isMac ? '⌘' : 'Ctrl') : part === 'Alt' && isMac ? '⌥' : part).join('+');
+}
+
+/**
+ * An action's first shortcut for tooltips, e.g. " (Ctrl+Z)"; empty when it has none.
+ */
+export function describeShortcut(id: string): string {
+  const [shortcut] = getActionShortcuts(id);
+  return shortcut ? ` (${formatShortcut(shortcut)})` : '';
+}
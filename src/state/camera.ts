@@ -0,0 +1,140 @@
+/**
+ * CANVAS CAMERA
+ *
+ * The workspace is an infinite canvas. Cards and connections live in "world"
+ * coordinates (the x/y stored in CardLayout), and the camera decides which part
+ * of that world is visible and how large it appears.
+ *
+ * Coordinate spaces:
+ * - World: where cards live; unaffected by panning or zooming
+ * - Viewport: pixels relative to the top-left of the workspace area on screen
+ *
+ *   viewport = world * zoom + offset
+ */
+
+import { atom } from 'nanostores';
+import { CardLayout } from './index';
+import { log } from '../utils/logger';
+
+/**
+ * Current view onto the world.
+ * Product Meaning: Where the user has scrolled to and how far they've zoomed.
+ */
+export interface Camera {
+  /** Viewport x position of the world origin in pixels */
+  x: number;
+  /** Viewport y position of the world origin in pixels */
+  y: number;
+  /** Scale factor (1 = 100%) */
+  zoom: number;
+}
+
+/** A point in either world or viewport space */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** An axis-aligned rectangle in world space */
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Zoom limits keep the board legible and the math well-behaved */
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+/**
+ * The camera of the infinite canvas.
+ * Product Context: Lets teams navigate boards larger than the screen.
+ */
+export const $camera = atom<Camera>({ x: 0, y: 0, zoom: 1 });
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Converts a viewport point to world coordinates.
+ */
+export function viewportToWorld(point: Point, camera: Camera = $camera.get()): Point {
+  return {
+    x: (point.x - camera.x) / camera.zoom,
+    y: (point.y - camera.y) / camera.zoom
+  };
+}
+
+/**
+ * Converts a world point to viewport coordinates.
+ */
+export function worldToViewport(point: Point, camera: Camera = $camera.get()): Point {
+  return {
+    x: point.x * camera.zoom + camera.x,
+    y: point.y * camera.zoom + camera.y
+  };
+}
+
+/**
+ * Moves the camera by a viewport-pixel delta.
+ * Product Flow: User space-drags the canvas → the board follows the cursor
+ */
+export function panCamera(deltaX: number, deltaY: number): void {
+  const camera = $camera.get();
+  $camera.set({ ...camera, x: camera.x + deltaX, y: camera.y + deltaY });
+}
+
+/**
+ * Sets the zoom level while keeping the world point under `anchor` fixed on screen.
+ * Product Flow: User scrolls over a card → board zooms toward the cursor, not the corner
+ */
+export function zoomCameraTo(zoom: number, anchor: Point): void {
+  const camera = $camera.get();
+  const nextZoom = clampZoom(zoom);
+  if (nextZoom === camera.zoom) return;
+
+  const worldAnchor = viewportToWorld(anchor, camera);
+  $camera.set({
+    x: anchor.x - worldAnchor.x * nextZoom,
+    y: anchor.y - worldAnchor.y * nextZoom,
+    zoom: nextZoom
+  });
+}
+
+/**
+ * Centers the given world bounds in a viewport of the given size.
+ * Product Flow: User clicks "Zoom to fit" → every card becomes visible
+ */
+export function fitCameraToBounds(bounds: Bounds, viewport: { width: number; height: number }, maxZoom = 1, padding = 40): void {
+  const availableWidth = Math.max(1, viewport.width - padding * 2);
+  const availableHeight = Math.max(1, viewport.height - padding * 2);
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(1, bounds.width),
+    availableHeight / Math.max(1, bounds.height),
+    maxZoom
+  ));
+
+  const camera = {
+    zoom,
+    x: viewport.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: viewport.height / 2 - (bounds.y + bounds.height / 2) * zoom
+  };
+  log('Fitting camera to bounds', { bounds, camera });
+  $camera.set(camera);
+}
+
+/**
+ * Returns the smallest rectangle containing all given cards, or null when there are none.
+ */
+export function getCardsBounds(cards: CardLayout[]): Bounds | null {
+  if (cards.length === 0) return null;
+
+  const left = Math.min(...cards.map(c => c.x));
+  const top = Math.min(...cards.map(c => c.y));
+  const right = Math.max(...cards.map(c => c.x + c.width));
+  const bottom = Math.max(...cards.map(c => c.y + c.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
@@ -0,0 +1,301 @@
+/**
+ * CARD LOAD MONITORING
+ *
+ * Decides which cards have a live iframe, and tracks whether each card's
+ * scenario actually loaded. A cross-origin iframe can't be looked into, and
+ * it fires `load` even when it shows the browser's error page, so three
+ * signals are combined:
+ * - the iframe's `load` event (loaded) or no event in time (timed out)
+ * - a request to the same address; if it can't be made, the host is down (failed)
+ * - the manifest: a scenario id the content source doesn't list (failed, see getCardLoadState)
+ *
+ * Iframes are expensive, so only cards the user can see get one; which cards
+ * those are is worked out in interactions/card-virtualization.ts. They are
+ * mounted a few at a time, and a card keeps its last result when unmounted.
+ *
+ * Product Features:
+ * - Per-card state: waiting, loading, loaded, timed out or failed, with a reason
+ * - At most MAX_CONCURRENT_LOADS scenarios load at the same time
+ * - Load durations are recorded per card
+ * - Reload one card or all of them
+ * - Changing the content source resets and re-checks every card
+ */
+
+import { atom } from 'nanostores';
+import { $allCards, $hostUrl, CardLayout, getCardScenarioId } from './index';
+import { $environments, getCardSourceUrl, resolveCardProfile } from './environments';
+import { $catalogSource, $scenarioCatalog } from './catalog';
+import { log, error } from '../utils/logger';
+
+/** How long a scenario may take to load before it counts as timed out */
+export const LOAD_TIMEOUT_MS = 15000;
+
+/** How many load durations are kept per card */
+const MAX_RECORDED_DURATIONS = 10;
+
+/** How many iframes may be loading at once; further cards wait for a free slot */
+export const MAX_CONCURRENT_LOADS = 4;
+
+/** Below this zoom level scenarios are too small to read, so no card gets an iframe */
+export const MIN_LIVE_ZOOM = 0.35;
+
+/** 'waiting': the card has no iframe yet, so nothing is known about it */
+export type CardLoadStatus = 'waiting' | 'loading' | 'loaded' | 'timed-out' | 'failed';
+
+/**
+ * Load state of one card.
+ * Product Meaning: "Is this scenario showing, and how long did it take?"
+ */
+export interface CardLoadState {
+  status: CardLoadStatus;
+  /** Address being loaded */
+  src: string;
+  /** Identifies the load; the card's iframe is recreated for each attempt */
+  attempt: number;
+  startedAt: number;
+  /** Why the card failed or timed out */
+  message?: string;
+  /** Durations of successful loads in milliseconds, oldest first */
+  durations: number[];
+}
+
+/**
+ * Load state by card id.
+ * Product Context: Drives the card overlays and the header's health indicator.
+ */
+export const $cardLoadStates = atom<Record<number, CardLoadState>>({});
+
+/**
+ * Ids of the cards that currently have an iframe, in the order they got it.
+ * Product Context: Every other card shows a lightweight placeholder.
+ */
+export const $mountedCardIds = atom<number[]>([]);
+
+/** Attempts are numbered across all cards so a reset card never reuses its iframe */
+let lastAttempt = 0;
+
+/**
+ * Whether a card needs attention (it failed or timed out).
+ */
+export function isUnhealthy(state: CardLoadState | undefined): boolean {
+  return state?.status === 'failed' || state?.status === 'timed-out';
+}
+
+function updateState(cardId: number, attempt: number, changes: Partial<CardLoadState>) {
+  const states = $cardLoadStates.get();
+  const current = states[cardId];
+  // Results of an earlier attempt (or a removed card) no longer matter
+  if (!current || current.attempt !== attempt) return;
+  $cardLoadStates.set({ ...states, [cardId]: { ...current, ...changes } });
+}
+
+/**
+ * Starts tracking a new load of a card.
+ */
+function startLoad(cardId: number, src: string, previous: CardLoadState | undefined): CardLoadState {
+  const attempt = ++lastAttempt;
+  setTimeout(() => {
+    const state = $cardLoadStates.get()[cardId];
+    if (state?.attempt === attempt && state.status === 'loading') {
+      log('Card load timed out', { cardId, src });
+      updateState(cardId, attempt, { status: 'timed-out', message: `No response within ${LOAD_TIMEOUT_MS / 1000} seconds` });
+    }
+  }, LOAD_TIMEOUT_MS);
+
+  // Opaque (no-cors) requests still fail when the host can't be reached at all
+  fetch(src, { method: 'HEAD', mode: 'no-cors', cache: 'no-store' }).catch(() => {
+    log('Card content source unreachable', { cardId, src });
+    updateState(cardId, attempt, { status: 'failed', message: 'The content source could not be reached' });
+  });
+
+  return { status: 'loading', src, attempt, startedAt: performance.now(), durations: previous?.durations ?? [] };
+}
+
+/**
+ * Forgets a card's last result but keeps its recorded durations.
+ */
+function resetState(src: string, previous: CardLoadState | undefined): CardLoadState {
+  return { status: 'waiting', src, attempt: previous?.attempt ?? 0, startedAt: 0, durations: previous?.durations ?? [] };
+}
+
+/**
+ * State of a card without an iframe: its last result is kept as long as it
+ * is about the same address, so placeholders can still show it.
+ */
+function waitingState(src: string, previous: CardLoadState | undefined): CardLoadState {
+  if (previous && previous.src === src && previous.status !== 'loading') return previous;
+  return resetState(src, previous);
+}
+
+/**
+ * Why a card can't show its scenario even though its page loaded: the content
+ * source's manifest doesn't list it. Only cards using the default environment
+ * are checked, since the manifest comes from there.
+ */
+function findManifestProblem(card: CardLayout): string | undefined {
+  if ($catalogSource.get() !== 'manifest' || resolveCardProfile(card).baseUrl !== $hostUrl.get()) return undefined;
+  const scenarioId = getCardScenarioId(card);
+  return $scenarioCatalog.get().some(s => s.id === scenarioId)
+    ? undefined
+    : `Scenario ${scenarioId} is not listed by the content source`;
+}
+
+/**
+ * A card's load state, including what the current manifest says about it.
+ * The manifest is checked here rather than when the page loads because it
+ * arrives on its own schedule after the content source changes.
+ */
+export function getCardLoadState(card: CardLayout): CardLoadState | undefined {
+  const state = $cardLoadStates.get()[card.id];
+  if (state?.status !== 'loaded') return state;
+  const problem = findManifestProblem(card);
+  return problem ? { ...state, status: 'failed', message: problem } : state;
+}
+
+/**
+ * Restarts mounted cards that load another address, and forgets removed cards.
+ */
+function syncCardLoadStates() {
+  const cards = $allCards.get();
+  const mountedIds = $mountedCardIds.get().filter(id => cards.some(card => card.id === id));
+  const states = $cardLoadStates.get();
+  const next: Record<number, CardLoadState> = {};
+  let changed = false;
+
+  for (const card of cards) {
+    const src = getCardSourceUrl(card);
+    const current = states[card.id];
+    if (current && current.src === src) {
+      next[card.id] = current;
+    } else {
+      next[card.id] = mountedIds.includes(card.id) ? startLoad(card.id, src, current) : waitingState(src, current);
+      changed = true;
+    }
+  }
+  if (mountedIds.length !== $mountedCardIds.get().length) {
+    $mountedCardIds.set(mountedIds);
+  }
+  if (changed || Object.keys(states).length !== Object.keys(next).length) {
+    $cardLoadStates.set(next);
+  }
+}
+
+/**
+ * Keeps load states in sync with the board.
+ * Product Purpose: Broken scenarios are visible on the board, not just in the browser's frame error.
+ */
+export function initializeCardLoadMonitoring(): void {
+  $allCards.subscribe(syncCardLoadStates);
+  $environments.listen(syncCardLoadStates);
+  // A new content source means every card is checked again, even those on another environment
+  $hostUrl.listen(() => {
+    log('Content source changed, reloading and re-checking every card');
+    reloadAllCards();
+  });
+}
+
+/**
+ * Gives iframes to the cards that should have one and takes them away from
+ * the others. `wantedIds` is in order of priority: when too many cards are
+ * already loading, the rest wait for a later call. Cards in `keepIds` keep an
+ * iframe they already have but don't get a new one.
+ * Product Flow: User pans to another part of the board → the cards there load a few at a time, those left behind become placeholders
+ */
+export function updateMountedCards(wantedIds: number[], keepIds: number[] = []): void {
+  const current = $mountedCardIds.get();
+  const stillMounted = current.filter(id => wantedIds.includes(id) || keepIds.includes(id));
+  const states = $cardLoadStates.get();
+
+  let loadingCount = stillMounted.filter(id => states[id]?.status === 'loading').length;
+  const newlyMounted: number[] = [];
+  for (const id of wantedIds) {
+    if (loadingCount >= MAX_CONCURRENT_LOADS) break;
+    if (stillMounted.includes(id) || newlyMounted.includes(id)) continue;
+    newlyMounted.push(id);
+    loadingCount++;
+  }
+  if (newlyMounted.length === 0 && stillMounted.length === current.length) return;
+
+  const next = { ...states };
+  for (const id of current.filter(id => !stillMounted.includes(id))) {
+    // A load that was cut short tells nothing about the scenario
+    if (next[id]) next[id] = waitingState(next[id].src, next[id]);
+  }
+  for (const id of newlyMounted) {
+    const card = $allCards.get().find(c => c.id === id);
+    if (card) next[id] = startLoad(id, getCardSourceUrl(card), next[id]);
+  }
+  $mountedCardIds.set([...stillMounted, ...newlyMounted.filter(id => next[id])]);
+  $cardLoadStates.set(next);
+}
+
+/**
+ * Whether a card currently has an iframe.
+ */
+export function isCardMounted(cardId: number): boolean {
+  return $mountedCardIds.get().includes(cardId);
+}
+
+/**
+ * Records that a card's iframe finished loading.
+ * The first `load` of an attempt counts; later ones are the page navigating itself.
+ */
+export function markCardLoaded(cardId: number, attempt: number): void {
+  const state = $cardLoadStates.get()[cardId];
+  if (!state || state.attempt !== attempt || state.status !== 'loading') return;
+
+  const duration = Math.round(performance.now() - state.startedAt);
+  updateState(cardId, attempt, {
+    status: 'loaded',
+    message: undefined,
+    durations: [...state.durations, duration].slice(-MAX_RECORDED_DURATIONS)
+  });
+  log('Card loaded', { cardId, duration });
+}
+
+/**
+ * Records that a card's iframe reported an error.
+ */
+export function markCardFailed(cardId: number, attempt: number, message: string): void {
+  updateState(cardId, attempt, { status: 'failed', message });
+}
+
+/**
+ * Loads a card's scenario again. A card without an iframe is loaded the next time it is shown.
+ * Product Flow: User clicks "Retry" on a failed card → the scenario is loaded and checked again
+ */
+export function reloadCard(cardId: number): void {
+  const card = $allCards.get().find(c => c.id === cardId);
+  if (!card) {
+    error('reloadCard: Card not found', { cardId });
+    return;
+  }
+  const states = $cardLoadStates.get();
+  const src = getCardSourceUrl(card);
+  const next = isCardMounted(cardId) ? startLoad(cardId, src, states[cardId]) : resetState(src, states[cardId]);
+  $cardLoadStates.set({ ...states, [cardId]: next });
+}
+
+/**
+ * Loads every card's scenario again. All iframes are taken away and given
+ * back a few at a time, so a large board doesn't reload all at once.
+ * Product Flow: User clicks "Reload all" after the content source came back up → every card is re-checked
+ */
+export function reloadAllCards(): void {
+  const states = $cardLoadStates.get();
+  const next: Record<number, CardLoadState> = {};
+  for (const card of $allCards.get()) {
+    next[card.id] = resetState(getCardSourceUrl(card), states[card.id]);
+  }
+  $mountedCardIds.set([]);
+  $cardLoadStates.set(next);
+  log('All cards reloading', { count: $allCards.get().length });
+}
+
+/**
+ * Average of a card's recorded load durations, in milliseconds.
+ */
+export function averageLoadDuration(state: CardLoadState): number | null {
+  if (state.durations.length === 0) return null;
+  return Math.round(state.durations.reduce((sum, d) => sum + d, 0) / state.durations.length);
+}
@@ -0,0 +1,166 @@
+/**
+ * CARD METADATA
+ *
+ * What a team records about each card besides its scenario: a title of their
+ * own, notes in markdown, tags, an owner and an accent color for the header.
+ * It is stored on the card itself (see CardLayout), so layout files, autosave,
+ * share links and live collaboration carry it like any other card field.
+ *
+ * Product Features:
+ * - Rename a card inline on its header (double-click the title, or F2)
+ * - Notes panel with the notes, tags, owner and color of a card
+ */
+
+import { atom } from 'nanostores';
+import { $allCards, CardLayout } from './index';
+import { runInTransaction } from './history';
+import { log, error } from '../utils/logger';
+
+/** The metadata fields of a card */
+export type CardMetadata = Pick<CardLayout, 'title' | 'notes' | 'tags' | 'owner' | 'color'>;
+
+/**
+ * Header accents offered in the notes panel.
+ * Product Context: Lets teams color-code cards, e.g. by area or by status.
+ */
+export const CARD_ACCENT_COLORS: Array<{ name: string; value: string }> = [
+  { name: 'Red', value: '#e03131' },
+  { name: 'Orange', value: '#f08c00' },
+  { name: 'Yellow', value: '#fcc419' },
+  { name: 'Green', value: '#2f9e44' },
+  { name: 'Teal', value: '#0c8599' },
+  { name: 'Blue', value: '#1971c2' },
+  { name: 'Violet', value: '#7048e8' },
+  { name: 'Pink', value: '#d6336c' },
+  { name: 'Gray', value: '#868e96' }
+];
+
+/**
+ * Whether a value can be used as a card accent: a hex color, so nothing else
+ * can be slipped into the card's style from a shared layout.
+ */
+export function isCardColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+/**
+ * The card whose title is being edited on its header, if any.
+ */
+export const $editingTitleCardId = atom<number | null>(null);
+
+/**
+ * The card whose notes panel is open, and whether its notes are being edited.
+ * Product Context: One panel at a time, so boards don't fill up with open notes.
+ */
+export const $openNotes = atom<{ cardId: number; isEditing: boolean } | null>(null);
+
+/**
+ * Trims tags and drops empty and repeated ones (case-insensitively).
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Reads tags typed as a comma-separated list.
+ */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+/**
+ * Applies metadata changes to a card; empty values remove the field, so an
+ * emptied title falls back to the scenario's own again.
+ */
+function withMetadata(card: CardLayout, changes: CardMetadata): CardLayout {
+  const next: CardLayout = { ...card };
+  const text = (field: 'title' | 'owner', value: string | undefined) => {
+    const trimmed = value?.trim();
+    if (trimmed) next[field] = trimmed;
+    else delete next[field];
+  };
+
+  if ('title' in changes) text('title', changes.title);
+  if ('owner' in changes) text('owner', changes.owner);
+  if ('color' in changes) {
+    if (isCardColor(changes.color)) next.color = changes.color;
+    else delete next.color;
+  }
+  if ('notes' in changes) {
+    if (changes.notes?.trim()) next.notes = changes.notes;
+    else delete next.notes;
+  }
+  if ('tags' in changes) {
+    const tags = normalizeTags(changes.tags ?? []);
+    if (tags.length > 0) next.tags = tags;
+    else delete next.tags;
+  }
+  return next;
+}
+
+/**
+ * Changes a card's title, notes, tags, owner or color.
+ * Product Flow: User edits a card's details → card header and notes update → saved with the workspace
+ */
+export function updateCardMetadata(cardId: number, changes: CardMetadata, label = 'Edit card details'): void {
+  const cards = $allCards.get();
+  const card = cards.find(c => c.id === cardId);
+  if (!card) {
+    error('updateCardMetadata: Card not found', { cardId });
+    return;
+  }
+
+  const updated = withMetadata(card, changes);
+  if (JSON.stringify(updated) === JSON.stringify(card)) return;
+
+  runInTransaction(label, () => $allCards.set(cards.map(c => c.id === cardId ? updated : c)));
+  log('Card metadata updated', { cardId, fields: Object.keys(changes) });
+}
+
+/**
+ * Starts renaming a card on its header.
+ */
+export function startEditingTitle(cardId: number): void {
+  $editingTitleCardId.set(cardId);
+}
+
+/**
+ * Ends renaming; `title` is saved unless the edit was cancelled (undefined).
+ * Product Flow: User types a name and presses Enter → card shows it from now on
+ */
+export function finishEditingTitle(cardId: number, title?: string): void {
+  if ($editingTitleCardId.get() !== cardId) return;
+  $editingTitleCardId.set(null);
+  if (title !== undefined) updateCardMetadata(cardId, { title }, 'Rename card');
+}
+
+/**
+ * Opens a card's notes panel (closing any other).
+ */
+export function openNotes(cardId: number, isEditing = false): void {
+  $openNotes.set({ cardId, isEditing });
+}
+
+/**
+ * Opens or closes a card's notes panel.
+ */
+export function toggleNotes(cardId: number): void {
+  if ($openNotes.get()?.cardId === cardId) $openNotes.set(null);
+  else openNotes(cardId);
+}
+
+/**
+ * Switches the open notes panel between reading and editing the notes.
+ */
+export function setEditingNotes(isEditing: boolean): void {
+  const open = $openNotes.get();
+  if (open) $openNotes.set({ ...open, isEditing });
+}
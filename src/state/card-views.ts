@@ -0,0 +1,133 @@
+/**
+ * CARD VIEWS
+ *
+ * A derived store with everything each card shows, worked out once per
+ * change instead of inside the card template. A card whose view didn't
+ * change keeps the same view object, and the template skips it.
+ *
+ * Product Features:
+ * - Dragging, resizing or selecting a card redraws only the cards involved
+ * - Panning the board redraws no cards at all (only crossing the
+ *   zoomed-out threshold does)
+ */
+
+import { computed } from 'nanostores';
+import {
+  $allCards,
+  $activeDraggedCard,
+  $activeResizedCard,
+  $allConnections,
+  $selectedCardIds,
+  CardLayout,
+  getCardScenarioId
+} from './index';
+import { $camera } from './camera';
+import { $scenarioCatalog, ScenarioInfo, getScenarioInfo } from './catalog';
+import { $collaborators, Collaborator, findCollaboratorDragging } from './collaboration';
+import { $environments, EnvironmentProfile, EnvironmentSettings, getCardSourceUrl, resolveCardProfile } from './environments';
+import { $scenarioReports, ScenarioReport, getScenarioReport } from './scenario-bridge';
+import { $cardLoadStates, $mountedCardIds, CardLoadState, MIN_LIVE_ZOOM, getCardLoadState } from './card-loading';
+import { getComparisonPartnerId } from './comparison';
+import { $sharedBoardPreview } from './share-link';
+import { $keyboardConnection } from './keyboard-connection';
+import { $editingTitleCardId, $openNotes } from './card-metadata';
+import { reuseIfUnchanged } from '../utils/reuse';
+
+/**
+ * Everything needed to draw one card.
+ * Product Meaning: A card as it appears on the board right now.
+ */
+export interface CardView {
+  card: CardLayout;
+  scenario: ScenarioInfo | undefined;
+  /** The card's own title, then what the scenario page reported, then the catalog title, then "Scenario N" */
+  title: string;
+  /** The title without the card's own, shown while renaming as a hint */
+  scenarioTitle: string;
+  profile: EnvironmentProfile;
+  /** Every environment, for the card's environment picker */
+  environments: EnvironmentSettings;
+  sourceUrl: string;
+  report: ScenarioReport | null;
+  loadState: CardLoadState | undefined;
+  /** Whether the card has a live iframe (see card-loading.ts) */
+  isMounted: boolean;
+  /** Below the zoom where cards show their scenario */
+  isZoomedOut: boolean;
+  isSelected: boolean;
+  isBeingDragged: boolean;
+  isDraggingOther: boolean;
+  isBeingResized: boolean;
+  remoteDragger: Collaborator | undefined;
+  partnerId: number | null;
+  isReadOnly: boolean;
+  /** Side highlighted by a keyboard connection in progress, if it's on this card */
+  pickedSide: number | null;
+  isConnectTarget: boolean;
+  isEditingTitle: boolean;
+  /** Whether the notes panel is open, and if so whether its notes are being edited */
+  notesMode: 'view' | 'edit' | null;
+}
+
+/** Only changes when the zoom crosses MIN_LIVE_ZOOM, so panning doesn't touch the cards */
+const $isZoomedOut = computed($camera, camera => camera.zoom < MIN_LIVE_ZOOM);
+
+/** Last view of each card, reused while nothing about it changes */
+const previousViews = new Map<number, CardView>();
+
+/**
+ * The cards of the board, ready to draw, in board order.
+ */
+export const $cardViews = computed(
+  [
+    $allCards, $allConnections, $selectedCardIds, $activeDraggedCard, $activeResizedCard, $collaborators,
+    $scenarioCatalog, $scenarioReports, $cardLoadStates, $mountedCardIds, $environments, $sharedBoardPreview,
+    $keyboardConnection, $isZoomedOut, $editingTitleCardId, $openNotes
+  ],
+  (cards, connections, selectedCardIds, activeDraggedCard, activeResizedCard, _collaborators,
+    _catalog, _reports, _loadStates, mountedCardIds, environments, sharedPreview, keyboardConnection, isZoomedOut,
+    editingTitleCardId, openNotes) => {
+    // Dragging a selected card moves the whole selection, and a pair moves as one
+    const isMovedByDrag = (id: number) => activeDraggedCard === id || (activeDraggedCard !== null && selectedCardIds.includes(id));
+
+    const views = cards.map(card => {
+      const scenarioId = getCardScenarioId(card);
+      const scenario = getScenarioInfo(scenarioId);
+      const report = getScenarioReport(card);
+      const partnerId = getComparisonPartnerId(card.id, connections);
+      const isBeingDragged = isMovedByDrag(card.id) || (partnerId !== null && isMovedByDrag(partnerId));
+      const scenarioTitle = report?.title ?? scenario?.title ?? `Scenario ${scenarioId}`;
+
+      return reuseIfUnchanged<CardView>(previousViews.get(card.id), {
+        card,
+        scenario,
+        title: card.title ?? scenarioTitle,
+        scenarioTitle,
+        profile: resolveCardProfile(card),
+        environments,
+        sourceUrl: getCardSourceUrl(card),
+        report,
+        loadState: getCardLoadState(card),
+        isMounted: mountedCardIds.includes(card.id),
+        isZoomedOut,
+        isSelected: selectedCardIds.includes(card.id),
+        isBeingDragged,
+        isDraggingOther: activeDraggedCard !== null && !isBeingDragged,
+        isBeingResized: activeResizedCard === card.id,
+        remoteDragger: findCollaboratorDragging(card.id),
+        partnerId,
+        isReadOnly: !!sharedPreview,
+        pickedSide: keyboardConnection?.fromCardId === card.id && keyboardConnection.toCardId === null
+          ? keyboardConnection.fromSide
+          : keyboardConnection?.toCardId === card.id ? keyboardConnection.toSide : null,
+        isConnectTarget: keyboardConnection?.toCardId === card.id,
+        isEditingTitle: editingTitleCardId === card.id && !sharedPreview,
+        notesMode: openNotes?.cardId !== card.id ? null : openNotes.isEditing && !sharedPreview ? 'edit' : 'view'
+      });
+    });
+
+    previousViews.clear();
+    views.forEach(view => previousViews.set(view.card.id, view));
+    return views;
+  }
+);
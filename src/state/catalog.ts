@@ -0,0 +1,131 @@
+/**
+ * SCENARIO CATALOG
+ *
+ * The list of scenarios the content source can display. It is discovered from
+ * a manifest file served next to the scenarios (`${hostUrl}/scenarios.json`).
+ * When no manifest is available we fall back to the classic scenarios 1-6.
+ *
+ * Accepted manifest shapes:
+ *   [{ "id": 1, "title": "Checkout", "description": "..." }, ...]
+ *   { "scenarios": [ ...same entries... ] }
+ */
+
+import { atom } from 'nanostores';
+import { $hostUrl } from './index';
+import { log, error, success } from '../utils/logger';
+
+/**
+ * One scenario that can be placed on the workspace.
+ * Product Meaning: An entry in the "Add scenario" list.
+ */
+export interface ScenarioInfo {
+  /** Scenario identifier passed to the content source (?scenario=<id>) */
+  id: number;
+  /** Human readable name */
+  title: string;
+  /** Optional explanation of what the scenario shows */
+  description?: string;
+}
+
+/** Scenario ids used when the content source has no manifest */
+export const DEFAULT_SCENARIO_IDS = [1, 2, 3, 4, 5, 6];
+
+/**
+ * All scenarios available from the current content source.
+ * Product Context: Powers the "Add scenario" flow.
+ */
+export const $scenarioCatalog = atom<ScenarioInfo[]>(buildDefaultCatalog());
+
+/**
+ * Where the catalog came from: the host's manifest or the built-in defaults.
+ */
+export const $catalogSource = atom<'manifest' | 'defaults'>('defaults');
+
+/**
+ * Whether the "Add scenario" picker is open.
+ */
+export const $isScenarioPickerOpen = atom<boolean>(false);
+
+function buildDefaultCatalog(): ScenarioInfo[] {
+  return DEFAULT_SCENARIO_IDS.map(id => ({ id, title: `Scenario ${id}` }));
+}
+
+/**
+ * Turns raw manifest JSON into catalog entries, skipping malformed ones.
+ */
+function parseManifest(data: unknown): ScenarioInfo[] {
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { scenarios?: unknown })?.scenarios)
+      ? (data as { scenarios: unknown[] }).scenarios
+      : null;
+
+  if (!entries) {
+    throw new Error('Manifest must be an array or an object with a "scenarios" array');
+  }
+
+  const scenarios: ScenarioInfo[] = [];
+  for (const entry of entries) {
+    const id = Number((entry as { id?: unknown })?.id);
+    if (!Number.isInteger(id) || scenarios.some(s => s.id === id)) {
+      log('Skipping invalid or duplicate manifest entry', entry);
+      continue;
+    }
+    const { title, description } = entry as { title?: unknown; description?: unknown };
+    scenarios.push({
+      id,
+      title: typeof title === 'string' && title.trim() ? title.trim() : `Scenario ${id}`,
+      ...(typeof description === 'string' && description.trim() ? { description: description.trim() } : {})
+    });
+  }
+  return scenarios;
+}
+
+/**
+ * Fetches the scenario manifest from the given content source.
+ * Product Flow: Content source changes → we ask it which scenarios exist → "Add scenario" list updates
+ */
+export async function loadScenarioCatalog(hostUrl: string = $hostUrl.get()): Promise<void> {
+  const manifestUrl = `${hostUrl}/scenarios.json`;
+  log('Loading scenario manifest', { manifestUrl });
+
+  try {
+    const response = await fetch(manifestUrl, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const scenarios = parseManifest(await response.json());
+    if (scenarios.length === 0) {
+      throw new Error('Manifest contains no valid scenarios');
+    }
+
+    // Ignore late responses for a content source the user has already left
+    if (hostUrl !== $hostUrl.get()) return;
+
+    $scenarioCatalog.set(scenarios);
+    $catalogSource.set('manifest');
+    success('Scenario manifest loaded', { count: scenarios.length });
+  } catch (err) {
+    if (hostUrl !== $hostUrl.get()) return;
+    log('Scenario manifest unavailable, using default scenarios', { manifestUrl, reason: String(err) });
+    $scenarioCatalog.set(buildDefaultCatalog());
+    $catalogSource.set('defaults');
+  }
+}
+
+/**
+ * Keeps the catalog in sync with the content source.
+ * Product Purpose: Switching environments shows that environment's scenarios.
+ */
+export function initializeScenarioCatalog(): void {
+  $hostUrl.subscribe(hostUrl => {
+    loadScenarioCatalog(hostUrl).catch(err => error('Unexpected error loading scenario catalog', err));
+  });
+}
+
+/**
+ * Looks up the catalog entry for a scenario id, if the catalog knows it.
+ */
+export function getScenarioInfo(scenarioId: number): ScenarioInfo | undefined {
+  return $scenarioCatalog.get().find(s => s.id === scenarioId);
+}
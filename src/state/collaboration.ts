@@ -0,0 +1,450 @@
+/**
+ * LIVE COLLABORATION
+ *
+ * Shares the board's cards and connections with everyone in the same room
+ * through the relay in `server/relay.js`. Each browser keeps a conflict-free
+ * copy of the board (see utils/crdt.ts) and sends every change it makes as
+ * small field updates; whatever arrives is merged and put on the board.
+ *
+ * Product Features:
+ * - Share the current board as a room, or join someone's room in a new workspace
+ * - Everyone's edits merge without conflicts, even when made at the same time
+ * - Presence: other people's cursors, names, and which card they are dragging
+ * - Keeps working while offline; on reconnect both sides exchange their whole
+ *   board and converge
+ *
+ * Protocol (JSON text messages, forwarded by the relay to the rest of the room):
+ * - hello: a client's identity and full board; `reply: false` asks everyone to answer with theirs
+ * - updates: field updates made since the last message
+ * - presence: cursor position and dragged card
+ * - leave: sent by the relay when a client disconnects
+ */
+
+import { atom } from 'nanostores';
+import {
+  CardLayout,
+  Connection,
+  $allCards,
+  $allConnections,
+  $activeDraggedCard,
+  $selectedCardIds,
+  $selectedConnectionId,
+  createConnectionId
+} from './index';
+import { $activeWorkspaceId, createWorkspace } from './workspaces';
+import { CURRENT_LAYOUT_VERSION, SavedLayout, parseSavedLayout } from './layout-schema';
+import type { Point } from './camera';
+import {
+  CrdtDoc,
+  FieldUpdate,
+  Clock,
+  createDoc,
+  createClock,
+  applyUpdate,
+  isFieldUpdate,
+  mergeDoc,
+  maxCounter,
+  materialize,
+  recordLocalChanges
+} from '../utils/crdt';
+import { log, error, success } from '../utils/logger';
+
+/**
+ * Connection state of the collaboration session.
+ * - connecting: first attempt to reach the relay
+ * - connected: changes are shared live
+ * - reconnecting: the relay was lost; changes are kept and sent once it's back
+ */
+export type CollaborationStatus = 'connecting' | 'connected' | 'reconnecting';
+
+export interface CollaborationSession {
+  roomId: string;
+  relayUrl: string;
+  status: CollaborationStatus;
+}
+
+/**
+ * Someone else in the room.
+ * Product Meaning: A named, colored cursor on the board.
+ */
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  /** Pointer position in world coordinates, null when off the board */
+  cursor: Point | null;
+  /** Card they are dragging right now */
+  draggingCardId: number | null;
+}
+
+type CollaborationMessage =
+  | { type: 'hello'; clientId: string; name: string; reply: boolean; doc: CrdtDoc }
+  | { type: 'updates'; clientId: string; updates: FieldUpdate[] }
+  | { type: 'presence'; clientId: string; name: string; cursor: Point | null; draggingCardId: number | null }
+  | { type: 'leave'; clientId: string };
+
+const NAME_KEY = 'scenario-viewer-collaborator-name';
+const RELAY_URL_KEY = 'scenario-viewer-relay-url';
+/** Port `npm run relay` listens on */
+const DEFAULT_RELAY_PORT = 8787;
+/** Board updates are batched for this long before being sent */
+const SEND_INTERVAL_MS = 50;
+/** Cursor movements are sent at most this often */
+const PRESENCE_INTERVAL_MS = 50;
+/** Reconnect delays grow from the first to the second value */
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+/** Collaborator colors, picked by client id so everyone sees the same color for a person */
+const COLLABORATOR_COLORS = ['#e8590c', '#1c7ed6', '#2f9e44', '#ae3ec9', '#f08c00', '#0c8599', '#e03131', '#5f3dc4'];
+
+/**
+ * The current collaboration session, null when working alone.
+ */
+export const $collaboration = atom<CollaborationSession | null>(null);
+
+/**
+ * Everyone else currently in the room.
+ * Product Context: Drives remote cursors, the header avatars and "is moving" badges.
+ */
+export const $collaborators = atom<Collaborator[]>([]);
+
+/**
+ * The name shown to others next to your cursor.
+ */
+export const $collaboratorName = atom<string>(
+  localStorage.getItem(NAME_KEY) || `Guest ${Math.floor(100 + Math.random() * 900)}`
+);
+
+/**
+ * Where the relay server runs.
+ */
+export const $relayUrl = atom<string>(
+  localStorage.getItem(RELAY_URL_KEY) || `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`
+);
+
+/** Identifies this browser tab in the room (a reload joins as someone new) */
+const clientId = `c-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+let socket: WebSocket | null = null;
+let doc: CrdtDoc = createDoc();
+let clock: Clock = createClock(clientId);
+let outgoing: FieldUpdate[] = [];
+let sendTimer: number | undefined;
+let reconnectTimer: number | undefined;
+let reconnectDelay = RECONNECT_MIN_MS;
+let presence: { cursor: Point | null; draggingCardId: number | null } = { cursor: null, draggingCardId: null };
+let presenceTimer: number | undefined;
+let lastPresenceSent = 0;
+/** True while merged remote changes are put on the board, so they aren't sent back */
+let isApplyingRemote = false;
+/** Undoes the store subscriptions made when the session started */
+let unbindSession: Array<() => void> = [];
+
+function colorForClient(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+function createRoomId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+const cardKey = (card: CardLayout) => String(card.id);
+const connectionKey = (connection: Connection) => connection.id;
+
+function send(message: CollaborationMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function sendHello(reply: boolean) {
+  send({ type: 'hello', clientId, name: $collaboratorName.get(), reply, doc });
+  sendPresence();
+}
+
+function sendPresence() {
+  window.clearTimeout(presenceTimer);
+  presenceTimer = undefined;
+  lastPresenceSent = Date.now();
+  send({ type: 'presence', clientId, name: $collaboratorName.get(), ...presence });
+}
+
+/**
+ * Sends the batched updates. While disconnected they are dropped: the full
+ * board is exchanged on reconnect anyway.
+ */
+function flushOutgoing() {
+  window.clearTimeout(sendTimer);
+  sendTimer = undefined;
+  if (outgoing.length === 0) return;
+  if (socket?.readyState === WebSocket.OPEN) send({ type: 'updates', clientId, updates: outgoing });
+  outgoing = [];
+}
+
+/**
+ * Turns a local change of the board into updates for the room.
+ */
+function recordLocalBoard() {
+  if (isApplyingRemote) return;
+  const updates = [
+    ...recordLocalChanges(doc, 'cards', $allCards.get(), cardKey, clock),
+    ...recordLocalChanges(doc, 'connections', $allConnections.get(), connectionKey, clock)
+  ];
+  if (updates.length === 0 || $collaboration.get()?.status !== 'connected') return;
+  outgoing.push(...updates);
+  if (sendTimer === undefined) sendTimer = window.setTimeout(flushOutgoing, SEND_INTERVAL_MS);
+}
+
+/**
+ * Puts the merged document on the board.
+ * Goes through the layout validator, so a broken peer can't break this board
+ * (updates themselves are checked before they reach the document).
+ */
+function applyDocToBoard() {
+  let layout: SavedLayout;
+  try {
+    layout = parseSavedLayout({
+      cards: materialize(doc, 'cards', cardKey, $allCards.get()),
+      connections: materialize(doc, 'connections', connectionKey, $allConnections.get()),
+      version: CURRENT_LAYOUT_VERSION
+    }).layout;
+  } catch (err) {
+    error('Collaboration: Merged board is unreadable, keeping the local board', err);
+    return;
+  }
+
+  const connections = layout.connections.map(conn => ({ ...conn, id: conn.id ?? createConnectionId() }));
+  const cardIds = new Set(layout.cards.map(card => card.id));
+  isApplyingRemote = true;
+  try {
+    $allCards.set(layout.cards);
+    $allConnections.set(connections);
+  } finally {
+    isApplyingRemote = false;
+  }
+
+  // Forget selections of things someone else removed
+  const selected = $selectedCardIds.get();
+  if (selected.some(id => !cardIds.has(id))) $selectedCardIds.set(selected.filter(id => cardIds.has(id)));
+  const selectedConnection = $selectedConnectionId.get();
+  if (selectedConnection && !connections.some(conn => conn.id === selectedConnection)) $selectedConnectionId.set(null);
+}
+
+function upsertCollaborator(id: string, changes: Partial<Collaborator>) {
+  const collaborators = $collaborators.get();
+  const existing = collaborators.find(c => c.clientId === id);
+  if (existing) {
+    $collaborators.set(collaborators.map(c => c.clientId === id ? { ...c, ...changes } : c));
+  } else {
+    const collaborator: Collaborator = { clientId: id, name: 'Guest', color: colorForClient(id), cursor: null, draggingCardId: null, ...changes };
+    $collaborators.set([...collaborators, collaborator].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+}
+
+const isPoint = (value: unknown): value is Point =>
+  typeof value === 'object' && value !== null
+  && Number.isFinite((value as Point).x) && Number.isFinite((value as Point).y);
+
+function handleMessage(event: MessageEvent) {
+  let message: CollaborationMessage;
+  try {
+    message = JSON.parse(String(event.data));
+  } catch (err) {
+    error('Collaboration: Ignoring unreadable message', err);
+    return;
+  }
+  // Peers are not trusted: anything malformed is dropped rather than merged
+  if (typeof message !== 'object' || message === null || typeof message.clientId !== 'string' || message.clientId === clientId) return;
+
+  switch (message.type) {
+    case 'hello': {
+      upsertCollaborator(message.clientId, { name: String(message.name) });
+      const applied = mergeDoc(doc, message.doc);
+      clock.observe({ counter: maxCounter(doc), clientId });
+      if (applied.length > 0) applyDocToBoard();
+      if (!message.reply) sendHello(true); // Give the newcomer our board
+      log('Collaboration: Peer synced', { peer: message.clientId, newFields: applied.length });
+      break;
+    }
+    case 'updates': {
+      if (!Array.isArray(message.updates)) break;
+      let changed = false;
+      for (const update of message.updates) {
+        if (!isFieldUpdate(update)) continue;
+        clock.observe(update.stamp);
+        if (applyUpdate(doc, update)) changed = true;
+      }
+      if (changed) applyDocToBoard();
+      break;
+    }
+    case 'presence':
+      upsertCollaborator(message.clientId, {
+        name: String(message.name),
+        cursor: isPoint(message.cursor) ? { x: message.cursor.x, y: message.cursor.y } : null,
+        draggingCardId: Number.isFinite(message.draggingCardId) ? message.draggingCardId : null
+      });
+      break;
+    case 'leave':
+      $collaborators.set($collaborators.get().filter(c => c.clientId !== message.clientId));
+      break;
+  }
+}
+
+function setStatus(status: CollaborationStatus) {
+  const session = $collaboration.get();
+  if (session && session.status !== status) $collaboration.set({ ...session, status });
+}
+
+function connect() {
+  const session = $collaboration.get();
+  if (!session) return;
+
+  let ws: WebSocket;
+  try {
+    const url = new URL(session.relayUrl); // Throws for addresses like "ws://"
+    url.searchParams.set('room', session.roomId);
+    ws = new WebSocket(url.toString());
+  } catch (err) {
+    error('Collaboration: Invalid relay address', { relayUrl: session.relayUrl, err });
+    leaveSession();
+    return;
+  }
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = RECONNECT_MIN_MS;
+    outgoing = [];
+    setStatus('connected');
+    sendHello(false);
+    success('Collaboration: Connected', { roomId: session.roomId });
+  };
+  ws.onmessage = handleMessage;
+  ws.onclose = () => {
+    if (socket !== ws) return; // Replaced or left on purpose
+    socket = null;
+    $collaborators.set([]);
+    setStatus('reconnecting');
+    log('Collaboration: Relay connection lost, retrying', { delayMs: reconnectDelay });
+    reconnectTimer = window.setTimeout(connect, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+  };
+}
+
+/**
+ * Starts sharing the current board in the given room.
+ */
+function startSession(roomId: string) {
+  leaveSession();
+
+  doc = createDoc();
+  clock = createClock(clientId);
+  recordLocalBoard(); // Seeds the document with the board as it is now
+  $collaboration.set({ roomId, relayUrl: $relayUrl.get(), status: 'connecting' });
+
+  unbindSession = [
+    $allCards.listen(recordLocalBoard),
+    $allConnections.listen(recordLocalBoard),
+    $activeDraggedCard.listen(cardId => updatePresence({ draggingCardId: cardId })),
+    $collaboratorName.listen(() => sendPresence()),
+    $activeWorkspaceId.listen(() => leaveSession()) // A room belongs to the board it was started on
+  ];
+  log('Collaboration: Session started', { roomId, relayUrl: $relayUrl.get() });
+  connect();
+}
+
+/**
+ * Shares the current board in a new room.
+ * Product Flow: User clicks "Share this board" → gets a room id to send to others → edits appear live
+ */
+export function shareBoard(): string {
+  const roomId = createRoomId();
+  startSession(roomId);
+  return roomId;
+}
+
+/**
+ * Joins someone else's room in a new workspace, so your own boards stay untouched.
+ * Product Flow: User enters a room id → a new workspace fills with the shared board
+ */
+export async function joinBoard(roomId: string): Promise<void> {
+  const trimmed = roomId.trim();
+  if (!trimmed) {
+    error('joinBoard: Room id is empty');
+    return;
+  }
+  leaveSession();
+  await createWorkspace(`Shared board ${trimmed}`);
+  startSession(trimmed);
+}
+
+/**
+ * Stops sharing. The board stays as it is, as an ordinary workspace.
+ */
+export function leaveSession(): void {
+  if (!$collaboration.get()) return;
+
+  unbindSession.forEach(unbind => unbind());
+  unbindSession = [];
+  window.clearTimeout(reconnectTimer);
+  window.clearTimeout(sendTimer);
+  window.clearTimeout(presenceTimer);
+  sendTimer = presenceTimer = undefined;
+  outgoing = [];
+
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  $collaborators.set([]);
+  $collaboration.set(null);
+  log('Collaboration: Session ended');
+}
+
+/**
+ * Shares where your pointer is and what you are dragging, at most every few frames.
+ */
+export function updatePresence(changes: Partial<typeof presence>): void {
+  presence = { ...presence, ...changes };
+  if ($collaboration.get()?.status !== 'connected') return;
+
+  // Starting or ending a drag is sent right away; cursor moves are throttled
+  const wait = 'draggingCardId' in changes ? 0 : PRESENCE_INTERVAL_MS - (Date.now() - lastPresenceSent);
+  if (wait <= 0) sendPresence();
+  else if (presenceTimer === undefined) presenceTimer = window.setTimeout(sendPresence, wait);
+}
+
+/**
+ * Changes the name others see next to your cursor.
+ */
+export function setCollaboratorName(name: string): void {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  localStorage.setItem(NAME_KEY, trimmed);
+  $collaboratorName.set(trimmed);
+}
+
+/**
+ * Changes which relay server to use for the next session.
+ */
+export function setRelayUrl(url: string): void {
+  const trimmed = url.trim();
+  if (!/^wss?:\/\//.test(trimmed)) {
+    error('setRelayUrl: Relay address must start with ws:// or wss://', { url });
+    return;
+  }
+  try {
+    new URL(trimmed);
+  } catch {
+    error('setRelayUrl: Relay address is incomplete', { url });
+    return;
+  }
+  localStorage.setItem(RELAY_URL_KEY, trimmed);
+  $relayUrl.set(trimmed);
+}
+
+/**
+ * The collaborator currently dragging a card, if anyone is.
+ */
+export function findCollaboratorDragging(cardId: number): Collaborator | undefined {
+  return $collaborators.get().find(c => c.draggingCardId === cardId);
+}
@@ -0,0 +1,165 @@
+/**
+ * COMMAND PALETTE
+ *
+ * A search box over every registered workspace action (see state/actions.ts).
+ * Picking an action that asks for values (which card, which connection)
+ * turns the palette into a list of those values, one step at a time.
+ *
+ * Product Features:
+ * - Fuzzy search on action titles, categories and keywords
+ * - Actions that can't run right now are left out
+ * - Multi-step actions, e.g. "Connect cards…" → from which card → to which card
+ */
+
+import { atom } from 'nanostores';
+import { ActionOption, WorkspaceAction, getAction, getActions, isActionAvailable, runAction } from './actions';
+import { fuzzyScore } from '../utils/fuzzy';
+import { log } from '../utils/logger';
+
+/** Most items listed at once */
+const MAX_ITEMS = 50;
+
+/**
+ * What the palette shows.
+ * Product Meaning: "Which action?" — or, once one is picked, "which value for it?"
+ */
+export interface CommandPaletteState {
+  query: string;
+  /** The action whose values are being picked; null while picking an action */
+  actionId: string | null;
+  /** Values picked so far for that action */
+  values: string[];
+  /** Highlighted item, an index into getPaletteItems() */
+  activeIndex: number;
+}
+
+/**
+ * One line in the palette: an action, or a value for the action being run.
+ */
+export interface PaletteItem {
+  /** Action id or option value */
+  id: string;
+  label: string;
+  detail?: string;
+  /** Shown on the right, e.g. the action's category */
+  hint?: string;
+}
+
+/**
+ * The open palette, or null when it is closed.
+ * Product Context: Ctrl+K from anywhere on the board.
+ */
+export const $commandPalette = atom<CommandPaletteState | null>(null);
+
+/**
+ * Opens the palette on the list of actions.
+ */
+export function openCommandPalette(): void {
+  $commandPalette.set({ query: '', actionId: null, values: [], activeIndex: 0 });
+  log('Command palette opened');
+}
+
+export function closeCommandPalette(): void {
+  $commandPalette.set(null);
+}
+
+/**
+ * Opens the palette straight on the values of an action, e.g. "Go to card…" from a button.
+ */
+export function openCommandPaletteFor(actionId: string): void {
+  $commandPalette.set({ query: '', actionId, values: [], activeIndex: 0 });
+}
+
+function rank<T>(items: T[], query: string, textOf: (item: T) => string): T[] {
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, textOf(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score) // Stable: equal scores keep their order
+    .slice(0, MAX_ITEMS)
+    .map(entry => entry.item);
+}
+
+/**
+ * The argument currently being picked, if any.
+ */
+export function getPaletteArgument(state: CommandPaletteState) {
+  const action = state.actionId ? getAction(state.actionId) : undefined;
+  return action?.args?.[state.values.length];
+}
+
+/**
+ * The items matching the palette's search, best match first.
+ */
+export function getPaletteItems(state: CommandPaletteState): PaletteItem[] {
+  const argument = getPaletteArgument(state);
+  if (argument) {
+    const options = argument.options(state.values);
+    return rank(options, state.query, (option: ActionOption) => `${option.label} ${option.detail ?? ''}`)
+      .map(option => ({ id: option.value, label: option.label, detail: option.detail }));
+  }
+
+  const actions = getActions().filter(action => action.id !== 'palette.open' && isActionAvailable(action));
+  return rank(actions, state.query, (action: WorkspaceAction) => `${action.title} ${action.category} ${(action.keywords ?? []).join(' ')}`)
+    .map(action => ({ id: action.id, label: action.args?.length ? `${action.title}…` : action.title, hint: action.category }));
+}
+
+export function setPaletteQuery(query: string): void {
+  const state = $commandPalette.get();
+  if (!state) return;
+  $commandPalette.set({ ...state, query, activeIndex: 0 });
+}
+
+/**
+ * Moves the highlight up or down, wrapping around.
+ */
+export function movePaletteHighlight(delta: number): void {
+  const state = $commandPalette.get();
+  if (!state) return;
+  const count = getPaletteItems(state).length;
+  if (count === 0) return;
+  $commandPalette.set({ ...state, activeIndex: (state.activeIndex + delta + count) % count });
+}
+
+/**
+ * Picks an item: runs an action, asks for its first value, or takes a value
+ * and runs the action once it has them all.
+ * Product Flow: User types "conn", picks "Connect cards…" → picks Scenario 2 → picks Scenario 5 → they are connected
+ */
+export function pickPaletteItem(index = $commandPalette.get()?.activeIndex ?? 0): void {
+  const state = $commandPalette.get();
+  if (!state) return;
+  const item = getPaletteItems(state)[index];
+  if (!item) return;
+
+  if (!state.actionId) {
+    const action = getAction(item.id);
+    if (action?.args?.length) {
+      $commandPalette.set({ query: '', actionId: action.id, values: [], activeIndex: 0 });
+      return;
+    }
+    closeCommandPalette();
+    runAction(item.id);
+    return;
+  }
+
+  const values = [...state.values, item.id];
+  if (getPaletteArgument({ ...state, values })) {
+    $commandPalette.set({ ...state, query: '', values, activeIndex: 0 });
+    return;
+  }
+  closeCommandPalette();
+  runAction(state.actionId, values);
+}
+
+/**
+ * Goes back one step: forgets the last picked value, or returns to the list of actions.
+ * Returns false when there is nothing to go back to.
+ */
+export function stepBackPalette(): boolean {
+  const state = $commandPalette.get();
+  if (!state?.actionId) return false;
+  $commandPalette.set(state.values.length > 0
+    ? { ...state, query: '', values: state.values.slice(0, -1), activeIndex: 0 }
+    : { query: '', actionId: null, values: [], activeIndex: 0 });
+  return true;
+}
@@ -0,0 +1,171 @@
+/**
+ * COMPARISON PAIRS
+ *
+ * A comparison pair shows one scenario from two environments side by side:
+ * the original card and a copy that loads the same scenario from another
+ * environment, joined by a "comparison" connection. That connection is what
+ * links the pair; deleting it (or either card) leaves ordinary cards behind.
+ *
+ * Product Features:
+ * - "Compare" on a card places the copy right next to it
+ * - The two cards move and resize together
+ * - "Keep this" turns the pair back into a single card
+ */
+
+import {
+  $allCards,
+  $allConnections,
+  $selectedCardIds,
+  CardLayout,
+  Connection,
+  createConnectionId,
+  getCardScenarioId,
+  selectCards
+} from './index';
+import { $environments, resolveCardProfile } from './environments';
+import { runInTransaction } from './history';
+import { log, error } from '../utils/logger';
+
+/** Space between the two cards of a pair, in world pixels */
+export const COMPARISON_GAP = 40;
+
+/**
+ * The comparison connection a card belongs to, if it is half of a pair.
+ */
+export function findComparisonConnection(cardId: number, connections: Connection[] = $allConnections.get()): Connection | undefined {
+  return connections.find(c => c.kind === 'comparison' && (c.fromCardId === cardId || c.toCardId === cardId));
+}
+
+/**
+ * The other card of a card's comparison pair, or null when it isn't in one.
+ */
+export function getComparisonPartnerId(cardId: number, connections: Connection[] = $allConnections.get()): number | null {
+  const connection = findComparisonConnection(cardId, connections);
+  if (!connection) return null;
+  return connection.fromCardId === cardId ? connection.toCardId : connection.fromCardId;
+}
+
+/**
+ * The given cards plus the other halves of any pairs among them.
+ * Product Behavior: Dragging one card of a pair drags both.
+ */
+export function withComparisonPartners(cardIds: number[]): number[] {
+  const connections = $allConnections.get();
+  const ids = new Set(cardIds);
+  for (const cardId of cardIds) {
+    const partnerId = getComparisonPartnerId(cardId, connections);
+    if (partnerId !== null) ids.add(partnerId);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Copies get negative ids, so they never take the id a scenario's own card would use.
+ * They are random rather than counted down, so copies made by two people in the
+ * same live session (where cards are matched by id) don't replace each other.
+ */
+function createCopyCardId(cards: CardLayout[]): number {
+  const usedIds = new Set(cards.map(c => c.id));
+  let id: number;
+  do {
+    id = -1 - Math.floor(Math.random() * 2 ** 48);
+  } while (usedIds.has(id));
+  return id;
+}
+
+/**
+ * Shows a card's scenario from another environment right next to it.
+ * Product Flow: User picks "Compare → prod" on a staging card → a prod copy appears beside it, linked as a pair
+ */
+export function compareCard(cardId: number, profileId: string): void {
+  const cards = $allCards.get();
+  const card = cards.find(c => c.id === cardId);
+  if (!card) {
+    error('compareCard: Card not found', { cardId });
+    return;
+  }
+  if (getComparisonPartnerId(cardId) !== null) {
+    error('compareCard: Card is already part of a comparison', { cardId });
+    return;
+  }
+  const { profiles, defaultProfileId } = $environments.get();
+  if (!profiles.some(p => p.id === profileId) || profileId === resolveCardProfile(card).id) {
+    error('compareCard: Pick an environment other than the card\'s own', { cardId, profileId });
+    return;
+  }
+
+  const copy: CardLayout = {
+    id: createCopyCardId(cards),
+    scenarioId: getCardScenarioId(card),
+    x: card.x + card.width + COMPARISON_GAP,
+    y: card.y,
+    width: card.width,
+    height: card.height,
+    zIndex: Math.max(0, ...cards.map(c => c.zIndex)) + 1,
+    // Like setCardEnvironment, the default environment is stored as "no override"
+    ...(profileId !== defaultProfileId ? { profileId } : {})
+  };
+  const connection: Connection = {
+    id: createConnectionId(),
+    fromCardId: card.id,
+    fromSide: 1,
+    fromPosition: 0.5,
+    toCardId: copy.id,
+    toSide: 3,
+    toPosition: 0.5,
+    kind: 'comparison',
+    label: 'vs'
+  };
+
+  runInTransaction('Compare card', () => {
+    $allCards.set([...cards, copy]);
+    $allConnections.set([...$allConnections.get(), connection]);
+  });
+  selectCards([card.id, copy.id]);
+  log('Comparison pair created', { cardId, copyId: copy.id, scenarioId: copy.scenarioId, profileId });
+}
+
+/**
+ * Puts a card's partner back beside it with the same size, on the side it was on.
+ * Called while a card of a pair is resized, inside the resize's undo step.
+ */
+export function alignComparisonPartner(cardId: number): void {
+  const partnerId = getComparisonPartnerId(cardId);
+  if (partnerId === null) return;
+
+  const cards = $allCards.get();
+  const card = cards.find(c => c.id === cardId);
+  const partner = cards.find(c => c.id === partnerId);
+  if (!card || !partner) return;
+
+  const isPartnerOnRight = partner.x + partner.width / 2 >= card.x + card.width / 2;
+  const aligned: CardLayout = {
+    ...partner,
+    x: isPartnerOnRight ? card.x + card.width + COMPARISON_GAP : card.x - COMPARISON_GAP - card.width,
+    y: card.y,
+    width: card.width,
+    height: card.height
+  };
+  if (JSON.stringify(aligned) === JSON.stringify(partner)) return;
+
+  runInTransaction('Resize card', () => $allCards.set(cards.map(c => c.id === partnerId ? aligned : c)));
+}
+
+/**
+ * Ends a comparison by removing the other card of the pair.
+ * Product Flow: User clicks "Keep this" on the prod copy → the staging card and the link disappear
+ */
+export function keepComparisonCard(cardId: number): void {
+  const partnerId = getComparisonPartnerId(cardId);
+  if (partnerId === null) {
+    error('keepComparisonCard: Card is not part of a comparison', { cardId });
+    return;
+  }
+
+  runInTransaction('End comparison', () => {
+    $allCards.set($allCards.get().filter(c => c.id !== partnerId));
+    $allConnections.set($allConnections.get().filter(c => c.fromCardId !== partnerId && c.toCardId !== partnerId));
+  });
+  $selectedCardIds.set($selectedCardIds.get().filter(id => id !== partnerId));
+  log('Comparison ended', { keptCardId: cardId, removedCardId: partnerId });
+}
@@ -0,0 +1,250 @@
+/**
+ * CONNECTION GEOMETRY
+ *
+ * Where connection lines are drawn, computed purely from the cards' layout
+ * (never from the DOM), and the derived store the connection layer renders.
+ *
+ * Product Features:
+ * - Lines sharing a side are spread out (see utils/anchors.ts)
+ * - The end of a line being dragged follows the cursor or snaps to an edge
+ * - Routes are only recomputed for lines whose ends moved, so dragging one
+ *   card re-routes just its own lines (orthogonal routes, which avoid every
+ *   card, are recomputed whenever any card moves)
+ */
+
+import { computed } from 'nanostores';
+import {
+  $allCards,
+  $allConnections,
+  $connectionEndDrag,
+  $connectionRouting,
+  $selectedConnectionId,
+  CardLayout,
+  Connection
+} from './index';
+import { $scenarioCatalog } from './catalog';
+import { $environments } from './environments';
+import { $sharedBoardPreview } from './share-link';
+import { describeConnection } from './accessibility';
+import { Route, RoutePoint, routeStraight, routeCurved, routeOrthogonal } from '../utils/routing';
+import { AnchorUse, spreadAnchors } from '../utils/anchors';
+import { reuseIfUnchanged } from '../utils/reuse';
+import { error } from '../utils/logger';
+
+type ConnectionEndDrag = NonNullable<ReturnType<typeof $connectionEndDrag.get>>;
+
+/**
+ * Everything needed to draw one connection.
+ * Product Meaning: A line as it appears on the board right now.
+ */
+export interface ConnectionView {
+  /** The connection as drawn: ends spread out, a dragged end where it would attach */
+  connection: Connection;
+  fromPoint: RoutePoint;
+  toPoint: RoutePoint;
+  route: Route;
+  /** e.g. "Login depends on Checkout", for screen readers */
+  description: string;
+  isSelected: boolean;
+  isMovingEnd: boolean;
+  isReadOnly: boolean;
+}
+
+/**
+ * Spreads out connection ends that touch the same side of a card at the same
+ * spot, so their lines don't overlap. Stored positions are left alone; this
+ * only changes where the lines are drawn.
+ */
+export function spreadConnectionEnds(connections: Connection[], cards: CardLayout[]): Connection[] {
+  const cardsById = new Map(cards.map(card => [card.id, card]));
+  const uses: AnchorUse[] = [];
+  for (const connection of connections) {
+    const fromCard = cardsById.get(connection.fromCardId);
+    const toCard = cardsById.get(connection.toCardId);
+    if (!fromCard || !toCard) continue;
+    const fromPoint = getConnectionPointOnCard(fromCard, connection.fromSide, connection.fromPosition);
+    const toPoint = getConnectionPointOnCard(toCard, connection.toSide, connection.toPosition);
+    uses.push(
+      { key: `${connection.id}:from`, group: fromCard.id, rect: fromCard, side: connection.fromSide, position: connection.fromPosition, toward: toPoint },
+      { key: `${connection.id}:to`, group: toCard.id, rect: toCard, side: connection.toSide, position: connection.toPosition, toward: fromPoint }
+    );
+  }
+
+  const positions = spreadAnchors(uses);
+  return connections.map(connection => {
+    const fromPosition = positions.get(`${connection.id}:from`) ?? connection.fromPosition;
+    const toPosition = positions.get(`${connection.id}:to`) ?? connection.toPosition;
+    return fromPosition === connection.fromPosition && toPosition === connection.toPosition
+      ? connection
+      : { ...connection, fromPosition, toPosition };
+  });
+}
+
+/**
+ * Where a connection's ends are drawn. While one end is being dragged it is
+ * drawn where it would attach, or at the cursor when it is not over a card.
+ */
+function getConnectionEnds(connection: Connection, allCardsData: CardLayout[], endDrag: ConnectionEndDrag | null): { connection: Connection; fromPoint: RoutePoint; toPoint: RoutePoint } | null {
+  let shown = connection;
+  if (endDrag?.connectionId === connection.id && endDrag.target) {
+    const { cardId, side, position } = endDrag.target;
+    shown = endDrag.end === 'from'
+      ? { ...connection, fromCardId: cardId, fromSide: side, fromPosition: position }
+      : { ...connection, toCardId: cardId, toSide: side, toPosition: position };
+  }
+
+  const fromCard = allCardsData.find(card => card.id === shown.fromCardId);
+  const toCard = allCardsData.find(card => card.id === shown.toCardId);
+  if (!fromCard || !toCard) return null;
+  let fromPoint: RoutePoint = getConnectionPointOnCard(fromCard, shown.fromSide, shown.fromPosition);
+  let toPoint: RoutePoint = getConnectionPointOnCard(toCard, shown.toSide, shown.toPosition);
+
+  if (endDrag?.connectionId === connection.id && !endDrag.target) {
+    const cursor = { x: endDrag.currentX, y: endDrag.currentY };
+    const fixed = endDrag.end === 'from' ? toPoint : fromPoint;
+    const side = sideToward(cursor, fixed);
+    if (endDrag.end === 'from') {
+      fromPoint = cursor;
+      shown = { ...shown, fromSide: side };
+    } else {
+      toPoint = cursor;
+      shown = { ...shown, toSide: side };
+    }
+  }
+  return { connection: shown, fromPoint, toPoint };
+}
+
+/**
+ * The side a line at `point` leaves from to head for `target`.
+ */
+function sideToward(point: RoutePoint, target: RoutePoint): number {
+  const dx = target.x - point.x;
+  const dy = target.y - point.y;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 1 : 3;
+  return dy > 0 ? 2 : 0;
+}
+
+/**
+ * Computes the path of a connection using its own routing or the workspace default.
+ * Orthogonal routes treat every card as an obstacle to go around.
+ */
+export function routeConnection(
+  connection: Connection,
+  fromPoint: { x: number; y: number },
+  toPoint: { x: number; y: number },
+  allCardsData: CardLayout[]
+): Route {
+  const from = { point: fromPoint, side: connection.fromSide };
+  const to = { point: toPoint, side: connection.toSide };
+
+  switch (connection.routing ?? $connectionRouting.get()) {
+    case 'curved':
+      return routeCurved(from, to);
+    case 'orthogonal':
+      return routeOrthogonal(from, to, allCardsData);
+    default:
+      return routeStraight(from, to);
+  }
+}
+
+/**
+ * Calculates the world coordinates of a connection point on a card's edge.
+ * Computed from the card's layout rather than the DOM, so it is correct at any
+ * zoom level and never lags behind a card that is being moved.
+ */
+export function getConnectionPointOnCard(card: CardLayout, side: number, positionRatio: number) {
+  const left = card.x;
+  const top = card.y;
+  const right = card.x + card.width;
+  const bottom = card.y + card.height;
+  
+  let x = 0, y = 0;
+
+  switch (side) {
+    case 0: // Top
+      x = left + card.width * positionRatio;
+      y = top;
+      break;
+    case 1: // Right
+      x = right;
+      y = top + card.height * positionRatio;
+      break;
+    case 2: // Bottom
+      x = left + card.width * positionRatio;
+      y = bottom;
+      break;
+    case 3: // Left
+      x = left;
+      y = top + card.height * positionRatio;
+      break;
+    default: 
+      error('Invalid side provided to getConnectionPointOnCard', { side, cardId: card.id });
+      return { x: left, y: top }; // Fallback, but ideally should not happen
+  }
+  return { x, y };
+}
+
+
+/** Last route of each connection and what it was computed from */
+const routeCache = new Map<string, { key: string; cards: CardLayout[] | null; route: Route }>();
+/** Last view of each connection, reused while nothing about it changes */
+const previousViews = new Map<string, ConnectionView>();
+
+/**
+ * Routes a connection, reusing the last route when its ends, sides and
+ * routing haven't changed (and, for orthogonal routes, no card moved).
+ */
+function getCachedRoute(connection: Connection, fromPoint: RoutePoint, toPoint: RoutePoint, cards: CardLayout[]): Route {
+  const routing = connection.routing ?? $connectionRouting.get();
+  const key = JSON.stringify([routing, connection.fromSide, connection.toSide, fromPoint, toPoint]);
+  const obstacles = routing === 'orthogonal' ? cards : null;
+  const cached = routeCache.get(connection.id);
+  if (cached && cached.key === key && cached.cards === obstacles) return cached.route;
+
+  const route = routeConnection(connection, fromPoint, toPoint, cards);
+  routeCache.set(connection.id, { key, cards: obstacles, route });
+  return route;
+}
+
+/**
+ * The lines of the board, ready to draw. Views of lines that didn't change
+ * keep their identity, so the connection layer only redraws the ones that did.
+ */
+export const $connectionViews = computed(
+  [$allConnections, $allCards, $connectionRouting, $connectionEndDrag, $selectedConnectionId, $sharedBoardPreview, $scenarioCatalog, $environments],
+  (connections, cards, _routing, endDrag, selectedConnectionId, sharedPreview) => {
+    const views: ConnectionView[] = [];
+    for (const stored of spreadConnectionEnds(connections, cards)) {
+      const ends = getConnectionEnds(stored, cards, endDrag);
+      if (!ends) continue;
+      const { connection, fromPoint, toPoint } = ends;
+      if (isNaN(fromPoint.x) || isNaN(fromPoint.y) || isNaN(toPoint.x) || isNaN(toPoint.y)) {
+        error('Failed to draw connection due to NaN coordinates', { connectionId: connection.id, fromPoint, toPoint });
+        continue;
+      }
+
+      const view = reuseIfUnchanged(previousViews.get(connection.id), {
+        connection,
+        fromPoint,
+        toPoint,
+        route: getCachedRoute(connection, fromPoint, toPoint, cards),
+        description: describeConnection(connection),
+        isSelected: selectedConnectionId === connection.id,
+        isMovingEnd: endDrag?.connectionId === connection.id,
+        isReadOnly: !!sharedPreview
+      });
+      views.push(view);
+    }
+
+    // Forget removed connections
+    const ids = new Set(views.map(view => view.connection.id));
+    for (const id of Array.from(previousViews.keys())) {
+      if (!ids.has(id)) {
+        previousViews.delete(id);
+        routeCache.delete(id);
+      }
+    }
+    views.forEach(view => previousViews.set(view.connection.id, view));
+    return views;
+  }
+);
@@ -0,0 +1,237 @@
+/**
+ * ENVIRONMENT PROFILES
+ *
+ * Named content sources (dev, staging, prod, ...) a board can load scenarios
+ * from. One profile is the workspace default; any card can override it to
+ * show the same scenario from another environment right next to the others.
+ *
+ * The default profile's base URL is the workspace content source, `$hostUrl`,
+ * which the rest of the viewer (catalog, workspaces) keeps using; the two are
+ * kept in sync here.
+ *
+ * Product Features:
+ * - Add, rename, recolor and remove environment profiles
+ * - Choose which profile is the workspace default
+ * - Per-card override, shown as a badge in the card header
+ * - Profiles and overrides are saved with the workspace and in layout files
+ */
+
+import { atom } from 'nanostores';
+import { $allCards, $hostUrl, CardLayout, getCardScenarioId, isValidBaseUrl, updateHostUrl } from './index';
+import { runInTransaction } from './history';
+import { isCardColor } from './card-metadata';
+import { log, error } from '../utils/logger';
+
+/**
+ * A named content source.
+ * Product Meaning: "Where does this card's scenario come from?"
+ */
+export interface EnvironmentProfile {
+  id: string;
+  /** Short name shown on card badges, e.g. "staging" */
+  name: string;
+  /** Content source URL; scenarios load from `<baseUrl>?scenario=<id>` */
+  baseUrl: string;
+  /** Badge color (a hex color, see isCardColor) */
+  color: string;
+}
+
+/**
+ * All profiles of a workspace and which one cards use by default.
+ */
+export interface EnvironmentSettings {
+  profiles: EnvironmentProfile[];
+  defaultProfileId: string;
+}
+
+/** Colors offered to new profiles, in order */
+export const ENVIRONMENT_COLORS = ['#2f9e44', '#f08c00', '#e03131', '#1c7ed6', '#ae3ec9', '#0c8599'];
+
+/** Used for profiles whose color is missing or not a hex color */
+export const DEFAULT_ENVIRONMENT_COLOR = '#868e96';
+
+const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * The workspace's environment profiles.
+ * Product Context: Lets teams compare environments without switching the whole board.
+ */
+export const $environments = atom<EnvironmentSettings>({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'default', baseUrl: $hostUrl.get(), color: ENVIRONMENT_COLORS[0] }],
+  defaultProfileId: DEFAULT_PROFILE_ID
+});
+
+/**
+ * Whether the environment settings panel is open.
+ */
+export const $isEnvironmentPanelOpen = atom<boolean>(false);
+
+// Whoever changes the content source (workspace switch, shared link, ...) changes the default profile's URL
+$hostUrl.listen(hostUrl => {
+  const settings = $environments.get();
+  const current = getDefaultProfile(settings);
+  if (current.baseUrl !== hostUrl) {
+    $environments.set({
+      ...settings,
+      profiles: settings.profiles.map(p => p.id === current.id ? { ...p, baseUrl: hostUrl } : p)
+    });
+  }
+});
+
+function getDefaultProfile(settings: EnvironmentSettings = $environments.get()): EnvironmentProfile {
+  return settings.profiles.find(p => p.id === settings.defaultProfileId) ?? settings.profiles[0];
+}
+
+function createProfileId(): string {
+  return `env-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+/** The card without its environment override */
+function withoutOverride(card: CardLayout): CardLayout {
+  const { profileId: _override, ...rest } = card;
+  return rest;
+}
+
+/** Content sources are compared without a trailing slash, like `updateHostUrl` stores them */
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/$/, '');
+}
+
+// Lives next to updateHostUrl, which checks addresses too
+export { isValidBaseUrl };
+
+/**
+ * The profile a card loads its scenario from: its override, or the workspace default.
+ * Cards pointing at a profile that no longer exists fall back to the default.
+ */
+export function resolveCardProfile(card: CardLayout): EnvironmentProfile {
+  const settings = $environments.get();
+  return (card.profileId && settings.profiles.find(p => p.id === card.profileId)) || getDefaultProfile(settings);
+}
+
+/**
+ * The address a card's iframe loads.
+ */
+export function getCardSourceUrl(card: CardLayout): string {
+  return `${resolveCardProfile(card).baseUrl}?scenario=${getCardScenarioId(card)}`;
+}
+
+/**
+ * Replaces all profiles, e.g. when a workspace or layout is opened.
+ * Also makes the default profile's URL the content source.
+ */
+export function setEnvironments(settings: EnvironmentSettings): void {
+  // Base URLs become iframe sources, so anything but http(s) is never loaded
+  const valid = settings.profiles.filter(profile => isValidBaseUrl(profile.baseUrl));
+  if (valid.length < settings.profiles.length) {
+    error('setEnvironments: Dropped profiles with an invalid base URL', {
+      dropped: settings.profiles.filter(profile => !valid.includes(profile)).map(profile => profile.id)
+    });
+  }
+  // Colors end up in a style attribute, so only hex colors are kept
+  const profiles = valid.map(profile => isCardColor(profile.color) ? profile : { ...profile, color: DEFAULT_ENVIRONMENT_COLOR });
+  if (profiles.length === 0) return;
+  if (!profiles.some(profile => profile.id === settings.defaultProfileId)) {
+    settings = { profiles, defaultProfileId: profiles[0].id };
+  } else {
+    settings = { ...settings, profiles };
+  }
+
+  $environments.set(settings);
+  const baseUrl = getDefaultProfile(settings).baseUrl;
+  if (baseUrl !== $hostUrl.get()) updateHostUrl(baseUrl);
+}
+
+/**
+ * Adds a profile.
+ * Product Flow: User clicks "Add environment" → names it and gives its URL → cards can switch to it
+ */
+export function addEnvironmentProfile(name: string, baseUrl: string): void {
+  if (!name.trim() || !isValidBaseUrl(baseUrl)) {
+    error('addEnvironmentProfile: Name is empty or URL is invalid', { name, baseUrl });
+    return;
+  }
+  const settings = $environments.get();
+  const profile: EnvironmentProfile = {
+    id: createProfileId(),
+    name: name.trim(),
+    baseUrl: normalizeBaseUrl(baseUrl),
+    color: ENVIRONMENT_COLORS[settings.profiles.length % ENVIRONMENT_COLORS.length]
+  };
+  $environments.set({ ...settings, profiles: [...settings.profiles, profile] });
+  log('Environment profile added', profile);
+}
+
+/**
+ * Changes a profile's name, URL or color. Invalid names and URLs are ignored;
+ * a color that isn't a hex color becomes the default color.
+ */
+export function updateEnvironmentProfile(id: string, changes: Partial<Omit<EnvironmentProfile, 'id'>>): void {
+  if ((changes.name !== undefined && !changes.name.trim()) || (changes.baseUrl !== undefined && !isValidBaseUrl(changes.baseUrl))) {
+    error('updateEnvironmentProfile: Name is empty or URL is invalid', { id, changes });
+    return;
+  }
+  const settings = $environments.get();
+  const cleaned = {
+    ...changes,
+    ...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+    ...(changes.baseUrl !== undefined ? { baseUrl: normalizeBaseUrl(changes.baseUrl) } : {}),
+    ...(changes.color !== undefined && !isCardColor(changes.color) ? { color: DEFAULT_ENVIRONMENT_COLOR } : {})
+  };
+  setEnvironments({ ...settings, profiles: settings.profiles.map(p => p.id === id ? { ...p, ...cleaned } : p) });
+  log('Environment profile updated', { id, changes: cleaned });
+}
+
+/**
+ * Makes a profile the one cards without an override use.
+ * Product Flow: User marks "staging" as default → every card without an override reloads from staging
+ */
+export function setDefaultEnvironmentProfile(id: string): void {
+  const settings = $environments.get();
+  if (!settings.profiles.some(p => p.id === id)) {
+    error('setDefaultEnvironmentProfile: Profile not found', { id });
+    return;
+  }
+  setEnvironments({ ...settings, defaultProfileId: id });
+}
+
+/**
+ * Removes a profile. Cards that used it go back to the default.
+ * The default profile can't be removed (make another one the default first).
+ */
+export function removeEnvironmentProfile(id: string): void {
+  const settings = $environments.get();
+  if (id === settings.defaultProfileId) {
+    error('removeEnvironmentProfile: Cannot remove the default profile', { id });
+    return;
+  }
+  $environments.set({ ...settings, profiles: settings.profiles.filter(p => p.id !== id) });
+
+  const cards = $allCards.get();
+  if (cards.some(card => card.profileId === id)) {
+    runInTransaction('Reset card environments', () => {
+      $allCards.set(cards.map(card => card.profileId === id ? withoutOverride(card) : card));
+    });
+  }
+  log('Environment profile removed', { id });
+}
+
+/**
+ * Shows a card's scenario from another environment (null = workspace default).
+ * Product Flow: User picks "prod" on a card's badge → that card reloads from prod, the others stay
+ */
+export function setCardEnvironment(cardId: number, profileId: string | null): void {
+  const cards = $allCards.get();
+  const card = cards.find(c => c.id === cardId);
+  if (!card) {
+    error('setCardEnvironment: Card not found', { cardId });
+    return;
+  }
+  const override = profileId && profileId !== $environments.get().defaultProfileId ? profileId : undefined;
+  if (card.profileId === override) return;
+
+  runInTransaction('Change card environment', () => {
+    $allCards.set(cards.map(c => c.id !== cardId ? c : override ? { ...c, profileId: override } : withoutOverride(c)));
+  });
+  log('Card environment changed', { cardId, profileId: override ?? 'default' });
+}
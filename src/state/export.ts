@@ -0,0 +1,63 @@
+/**
+ * DIAGRAM EXPORT SETTINGS
+ *
+ * Remembers how the user last exported the board (as an image or as diagram
+ * text), so the export dialog opens with the same choices next time.
+ */
+
+import { atom } from 'nanostores';
+
+/** File type produced by the export: an image or diagram text for docs */
+export type ExportFormat = 'svg' | 'png' | 'mermaid' | 'dot';
+
+/** Human readable names for each format, in display order */
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG image',
+  svg: 'SVG vector',
+  mermaid: 'Mermaid flowchart',
+  dot: 'Graphviz DOT'
+};
+
+/**
+ * Which part of the board ends up in the image.
+ * - board: every card
+ * - viewport: exactly what is visible on screen
+ * - selection: only the selected cards and the connections between them
+ */
+export type ExportArea = 'board' | 'viewport' | 'selection';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  area: ExportArea;
+  /** Pixel density for PNG (2 = twice the on-screen size) */
+  scale: number;
+  /** Draw the snap grid behind the cards (images only) */
+  includeGrid: boolean;
+}
+
+/** Human readable names for each area, in display order */
+export const EXPORT_AREA_LABELS: Record<ExportArea, string> = {
+  board: 'Whole board',
+  viewport: 'Visible area',
+  selection: 'Selection'
+};
+
+/** PNG scales offered in the export dialog */
+export const EXPORT_SCALE_OPTIONS = [1, 2, 3, 4];
+
+/**
+ * Choices shown in the export dialog.
+ */
+export const $exportOptions = atom<ExportOptions>({ format: 'png', area: 'board', scale: 2, includeGrid: false });
+
+/**
+ * Whether the export dialog is open.
+ */
+export const $isExportDialogOpen = atom<boolean>(false);
+
+/**
+ * Changes some of the export choices.
+ */
+export function updateExportOptions(changes: Partial<ExportOptions>): void {
+  $exportOptions.set({ ...$exportOptions.get(), ...changes });
+}
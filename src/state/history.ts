@@ -0,0 +1,170 @@
+/**
+ * UNDO / REDO HISTORY
+ *
+ * This file remembers what the workspace looked like before each change so
+ * users can step backwards (undo) and forwards (redo) through their edits.
+ *
+ * Every mutation of cards or connections runs inside a "transaction". The
+ * workspace is snapshotted when the outermost transaction opens and, if
+ * anything actually changed by the time it closes, that snapshot becomes one
+ * undo step. Long gestures such as dragging a card open a transaction on
+ * pointerdown and close it on pointerup, so the whole drag undoes at once.
+ */
+
+import { atom, computed } from 'nanostores';
+import { $allCards, $allConnections, CardLayout, Connection } from './index';
+import { log } from '../utils/logger';
+
+/**
+ * A frozen copy of everything that undo/redo can restore.
+ */
+interface WorkspaceSnapshot {
+  cards: CardLayout[];
+  connections: Connection[];
+}
+
+/**
+ * One step in the undo or redo stack.
+ * Product Meaning: A single user-visible action such as "Move card" or "Reset layout".
+ */
+export interface HistoryEntry {
+  /** Human readable description shown in button tooltips */
+  label: string;
+  /** Workspace state to restore when this step is applied */
+  snapshot: WorkspaceSnapshot;
+}
+
+/** Maximum number of undo steps kept in memory (oldest are discarded first) */
+export const MAX_HISTORY_SIZE = 100;
+
+/**
+ * Steps that can be undone, most recent last.
+ */
+export const $undoStack = atom<HistoryEntry[]>([]);
+
+/**
+ * Steps that were undone and can be re-applied, most recent last.
+ */
+export const $redoStack = atom<HistoryEntry[]>([]);
+
+/** Whether the undo button/shortcut has anything to do */
+export const $canUndo = computed($undoStack, stack => stack.length > 0);
+
+/** Whether the redo button/shortcut has anything to do */
+export const $canRedo = computed($redoStack, stack => stack.length > 0);
+
+/**
+ * The transaction currently collecting changes, if any.
+ * Nested transactions only bump the depth; the outermost one owns the snapshot.
+ */
+let openTransaction: { label: string; before: WorkspaceSnapshot; depth: number } | null = null;
+
+function takeSnapshot(): WorkspaceSnapshot {
+  return {
+    cards: $allCards.get(),
+    connections: $allConnections.get()
+  };
+}
+
+function restoreSnapshot(snapshot: WorkspaceSnapshot): void {
+  $allCards.set(snapshot.cards);
+  $allConnections.set(snapshot.connections);
+}
+
+function snapshotsEqual(a: WorkspaceSnapshot, b: WorkspaceSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Opens a history transaction. All changes until the matching
+ * commitTransaction() are recorded as a single undo step.
+ * Product Flow: User presses on a card → transaction opens → drag → release → one undo step
+ */
+export function beginTransaction(label: string): void {
+  if (openTransaction) {
+    openTransaction.depth++;
+    return;
+  }
+  openTransaction = { label, before: takeSnapshot(), depth: 1 };
+}
+
+/**
+ * Closes the current transaction and records an undo step if the workspace changed.
+ */
+export function commitTransaction(): void {
+  if (!openTransaction) {
+    return;
+  }
+  openTransaction.depth--;
+  if (openTransaction.depth > 0) {
+    return;
+  }
+
+  const { label, before } = openTransaction;
+  openTransaction = null;
+
+  if (snapshotsEqual(before, takeSnapshot())) {
+    return;
+  }
+
+  const undoStack = [...$undoStack.get(), { label, snapshot: before }];
+  $undoStack.set(undoStack.slice(-MAX_HISTORY_SIZE));
+  $redoStack.set([]);
+  log('History step recorded', { label, undoDepth: Math.min(undoStack.length, MAX_HISTORY_SIZE) });
+}
+
+/**
+ * Runs a mutation inside a transaction so it becomes (part of) one undo step.
+ */
+export function runInTransaction<T>(label: string, mutate: () => T): T {
+  beginTransaction(label);
+  try {
+    return mutate();
+  } finally {
+    commitTransaction();
+  }
+}
+
+/**
+ * Reverts the most recent undo step.
+ * Product Flow: User presses Ctrl+Z → workspace returns to how it looked before the last action
+ */
+export function undo(): void {
+  const undoStack = $undoStack.get();
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry || openTransaction) {
+    log('Undo skipped', { hasEntry: !!entry, transactionOpen: !!openTransaction });
+    return;
+  }
+
+  $redoStack.set([...$redoStack.get(), { label: entry.label, snapshot: takeSnapshot() }]);
+  $undoStack.set(undoStack.slice(0, -1));
+  restoreSnapshot(entry.snapshot);
+  log('Undo applied', { label: entry.label });
+}
+
+/**
+ * Re-applies the most recently undone step.
+ * Product Flow: User presses Ctrl+Shift+Z → the undone action comes back
+ */
+export function redo(): void {
+  const redoStack = $redoStack.get();
+  const entry = redoStack[redoStack.length - 1];
+  if (!entry || openTransaction) {
+    log('Redo skipped', { hasEntry: !!entry, transactionOpen: !!openTransaction });
+    return;
+  }
+
+  $undoStack.set([...$undoStack.get(), { label: entry.label, snapshot: takeSnapshot() }].slice(-MAX_HISTORY_SIZE));
+  $redoStack.set(redoStack.slice(0, -1));
+  restoreSnapshot(entry.snapshot);
+  log('Redo applied', { label: entry.label });
+}
+
+/**
+ * Forgets all undo/redo steps (e.g. when the startup layout is restored).
+ */
+export function clearHistory(): void {
+  $undoStack.set([]);
+  $redoStack.set([]);
+}
@@ -11,6 +11,9 @@
 
 import { atom } from 'nanostores';
 import { log, error } from '../utils/logger'; // Added error
+import { runInTransaction } from './history';
+import { SnapGuide } from '../utils/snapping';
+import type { LayoutIssue } from './layout-schema';
 
 
 /**
@@ -19,11 +22,13 @@ import { log, error } from '../utils/logger'; // Added error
  * they've made it (for content emphasis or better visibility).
  */
 export interface CardLayout {
-  /** Scenario identifier (1-6) matching the iframe content */
+  /** Unique card identifier; also the scenario it shows unless `scenarioId` is set */
   id: number;
-  /** Distance from left edge of workspace in pixels */
+  /** Scenario shown when it differs from the card id (comparison copies) */
+  scenarioId?: number;
+  /** Distance from the world origin to the left edge, in unzoomed pixels */
   x: number;
-  /** Distance from top edge of workspace in pixels */  
+  /** Distance from the world origin to the top edge, in unzoomed pixels */  
   y: number;
   /** Card width for content size adjustment */
   width: number;
@@ -31,6 +36,70 @@ export interface CardLayout {
   height: number;
   /** Visual stacking order (higher numbers appear on top) */
   zIndex: number;
+  /** Environment profile to load the scenario from; unset uses the workspace default */
+  profileId?: string;
+  /** Name given by the user; replaces the scenario's own title (see state/card-metadata.ts) */
+  title?: string;
+  /** What the scenario is for, in markdown */
+  notes?: string;
+  /** Free-form labels, e.g. "checkout" or "needs review" */
+  tags?: string[];
+  /** Person or team responsible for the scenario */
+  owner?: string;
+  /** Accent color of the card header, as a CSS color */
+  color?: string;
+}
+
+/**
+ * What a connection means.
+ * Product Meaning: Lets an arrow say *why* two scenarios are related.
+ */
+export type ConnectionKind = 'depends-on' | 'navigates-to' | 'variant-of' | 'comparison';
+
+/** Human readable names for each connection kind, in display order */
+export const CONNECTION_KIND_LABELS: Record<ConnectionKind, string> = {
+  'depends-on': 'depends on',
+  'navigates-to': 'navigates to',
+  'variant-of': 'variant of',
+  'comparison': 'compared with'
+};
+
+/**
+ * How a connection line travels between its two cards.
+ * - straight: direct line
+ * - curved: smooth curve leaving each card at a right angle
+ * - orthogonal: horizontal/vertical elbows that go around other cards
+ */
+export type ConnectionRouting = 'straight' | 'curved' | 'orthogonal';
+
+/** Human readable names for each routing mode */
+export const CONNECTION_ROUTING_LABELS: Record<ConnectionRouting, string> = {
+  straight: 'Straight',
+  curved: 'Curved',
+  orthogonal: 'Orthogonal'
+};
+
+/**
+ * Visual overrides for a connection line. Unset fields fall back to the kind's defaults.
+ */
+export interface ConnectionStyle {
+  /** Line and arrowhead color (a hex color) */
+  color?: string;
+  /** Dashed instead of solid line */
+  dashed?: boolean;
+  /** Which ends get an arrowhead */
+  arrowheads?: 'none' | 'end' | 'both';
+}
+
+/**
+ * Where one end of a connection touches a card.
+ */
+export interface ConnectionAnchor {
+  cardId: number;
+  /** 0=top, 1=right, 2=bottom, 3=left */
+  side: number;
+  /** Relative position along the edge (0-1) */
+  position: number;
 }
 
 /**
@@ -41,20 +110,35 @@ export interface CardLayout {
 export interface Connection {
   /** Unique identifier for this connection */
   id: string;
-  /** Source card's scenario ID */
+  /** Source card's id */
   fromCardId: number;
   /** Side of source card (0=top, 1=right, 2=bottom, 3=left) */
   fromSide: number;
-  /** Relative position along source card's edge (0-1) */
+  /** Relative position along source card's edge (0-1); lines sharing a spot are spread out when drawn */
   fromPosition: number;
-  /** Target card's scenario ID */
+  /** Target card's id */
   toCardId: number;
   /** Side of target card where arrow points */
   toSide: number;
   /** Relative position along target card's edge (0-1) */
   toPosition: number;
+  /** Optional text shown at the middle of the line */
+  label?: string;
+  /** Optional meaning of the relationship */
+  kind?: ConnectionKind;
+  /** Optional visual overrides */
+  style?: ConnectionStyle;
+  /** Optional routing override; falls back to the workspace routing */
+  routing?: ConnectionRouting;
 }
 
+/** Smallest size a card can be resized to while keeping its header and content usable */
+export const MIN_CARD_WIDTH = 200;
+export const MIN_CARD_HEIGHT = 150;
+/** Largest size a card can be resized to (roughly a full desktop page) */
+export const MAX_CARD_WIDTH = 1600;
+export const MAX_CARD_HEIGHT = 1200;
+
 /**
  * All scenario cards currently displayed in the workspace.
  * Product Context: This is the visual workspace where teams arrange their scenarios.
@@ -73,6 +157,63 @@ export const $allConnections = atom<Connection[]>([]);
  */
 export const $activeDraggedCard = atom<number | null>(null);
 
+/**
+ * Cards the user has selected (click, shift-click, marquee or Ctrl+A).
+ * Product Context: Bulk actions and group dragging act on these cards.
+ */
+export const $selectedCardIds = atom<number[]>([]);
+
+/**
+ * Rubber-band rectangle being drawn on empty canvas, in world coordinates.
+ * Product Context: Shows which area the user is sweeping to select cards.
+ */
+export const $marquee = atom<{ x: number; y: number; width: number; height: number } | null>(null);
+
+/**
+ * How connections without their own routing are drawn.
+ * Product Context: Busy boards read better with lines that go around cards.
+ */
+export const $connectionRouting = atom<ConnectionRouting>('straight');
+
+/**
+ * Snap grid and alignment guide preferences, saved with each workspace.
+ */
+export interface GridSettings {
+  /** Snap card positions to the grid while dragging */
+  snapToGrid: boolean;
+  /** Grid spacing in world pixels (also used for the background grid) */
+  size: number;
+  /** Snap to other cards' edges, centers and spacing, and show guides */
+  guides: boolean;
+}
+
+/** Grid spacings offered in the header */
+export const GRID_SIZE_OPTIONS = [10, 20, 40, 80];
+
+/**
+ * How dragged cards snap into place.
+ * Product Context: Keeps boards tidy without pixel-perfect mouse work.
+ */
+export const $gridSettings = atom<GridSettings>({ snapToGrid: true, size: 20, guides: true });
+
+/**
+ * Alignment and spacing guides currently shown during a drag, in world coordinates.
+ * Product Context: Explains why a card jumped into place.
+ */
+export const $snapGuides = atom<SnapGuide[]>([]);
+
+/**
+ * The connection whose properties are being edited, if any.
+ * Product Context: Clicking an arrow opens its editor.
+ */
+export const $selectedConnectionId = atom<string | null>(null);
+
+/**
+ * The card currently being resized by the user.
+ * Product Context: Lets the UI show resize feedback and keep iframes from stealing the pointer.
+ */
+export const $activeResizedCard = atom<number | null>(null);
+
 /**
  * Temporary connection line being drawn by the user.
  * Product Context: Shows real-time feedback as users create new relationships.
@@ -80,19 +221,67 @@ export const $activeDraggedCard = atom<number | null>(null);
 export const $pendingConnection = atom<{
   fromCardId: number;
   fromSide: number;
-  startX: number; // Added for potential calculations relative to SVG/workspace start
-  startY: number; // Added for potential calculations
-  currentX: number; // Mouse position relative to viewport
-  currentY: number; // Mouse position relative to viewport
+  fromPosition: number;
+  startX: number; // World position where the drag started
+  startY: number;
+  currentX: number; // Mouse position in world coordinates
+  currentY: number; // Mouse position in world coordinates
+  /** Edge point of the card under the cursor the line would attach to */
+  target: ConnectionAnchor | null;
+} | null>(null);
+
+/**
+ * End of an existing connection being dragged to another spot, side or card.
+ * Product Context: The line follows the cursor and snaps to the edge it would attach to.
+ */
+export const $connectionEndDrag = atom<{
+  connectionId: string;
+  end: 'from' | 'to';
+  currentX: number; // Mouse position in world coordinates
+  currentY: number;
+  /** Where the end would attach if dropped now; null when not over another card */
+  target: ConnectionAnchor | null;
 } | null>(null);
 
+/**
+ * Outcome of the last layout load that needs the user's attention.
+ * - partial: some cards or connections were skipped or fixed
+ * - failed: nothing could be loaded
+ */
+export interface LayoutLoadReport {
+  /** What was loaded, e.g. the file name */
+  source: string;
+  outcome: 'partial' | 'failed';
+  /** One-line summary */
+  message: string;
+  issues: LayoutIssue[];
+}
+
+/**
+ * Report shown after loading a layout with problems, until dismissed.
+ * Product Context: Tells users exactly which entries of a broken file were left out and why.
+ */
+export const $layoutLoadReport = atom<LayoutLoadReport | null>(null);
+
+/**
+ * Whether the text is a usable content source address (http or https only).
+ */
+export function isValidBaseUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * The URL from which scenario content is loaded.
  * Product Context: Allows teams to switch between different content sources
  * (development, staging, production, etc.)
  */
 export const $hostUrl = atom<string>(
-  localStorage.getItem('scenario-host') || 'http://localhost:8080'
+  isValidBaseUrl(localStorage.getItem('scenario-host') ?? '') ? localStorage.getItem('scenario-host')! : 'http://localhost:8080'
 );
 
 /**
@@ -100,6 +289,13 @@ export const $hostUrl = atom<string>(
  * These are the "verbs" of our application - what users can DO.
  */
 
+/**
+ * The scenario a card shows (see `CardLayout.scenarioId`).
+ */
+export function getCardScenarioId(card: CardLayout): number {
+  return card.scenarioId ?? card.id;
+}
+
 /**
  * Updates a card's position as the user drags it.
  * Product Flow: User clicks and drags a card → we update its position → UI refreshes
@@ -107,17 +303,157 @@ export const $hostUrl = atom<string>(
 export function updateCardPosition(cardId: number, x: number, y: number): void {
     // log('Update card position action', { cardId, x, y }); // Can be verbose
     
+    // Only the moved card is compared (and replaced), so the others keep their identity
     const currentCards = $allCards.get();
+    const movedCard = currentCards.find(card => card.id === cardId);
+    if (!movedCard || (movedCard.x === x && movedCard.y === y)) return;
+
     const updatedCards = currentCards.map(card => 
       card.id === cardId ? { ...card, x, y } : card
     );
-    
-    if (JSON.stringify(currentCards) !== JSON.stringify(updatedCards)) {
-        $allCards.set(updatedCards);
-        // log('Card position updated in store', { cardId, newPosition: { x, y } }); // Can be verbose
-    }
+    runInTransaction('Move card', () => $allCards.set(updatedCards));
+    // log('Card position updated in store', { cardId, newPosition: { x, y } }); // Can be verbose
+  }
+
+/**
+ * Adds a new scenario card to the workspace.
+ * Product Flow: User picks a scenario from the catalog → card appears on the board
+ */
+export function addCard(card: CardLayout): void {
+  const currentCards = $allCards.get();
+  if (currentCards.some(c => c.id === card.id)) {
+    error('addCard: A card for this scenario is already on the workspace', { cardId: card.id });
+    return;
+  }
+
+  runInTransaction('Add card', () => $allCards.set([...currentCards, card]));
+  log('Card added to store', { cardId: card.id });
+}
+
+/**
+ * Removes a card together with every connection attached to it.
+ * Product Flow: User clicks the card's remove button → card and its arrows disappear
+ */
+export function removeCard(cardId: number): void {
+  removeCards([cardId]);
+}
+
+/**
+ * Removes several cards and every connection attached to any of them, as one undo step.
+ * Product Flow: User selects cards → presses Delete → cards and their arrows disappear
+ */
+export function removeCards(cardIds: number[]): void {
+  const idsToRemove = new Set(cardIds);
+  const currentCards = $allCards.get();
+  const remainingCards = currentCards.filter(c => !idsToRemove.has(c.id));
+  if (remainingCards.length === currentCards.length) {
+    error('removeCards: No matching cards found', { cardIds });
+    return;
+  }
+
+  const currentConnections = $allConnections.get();
+  const remainingConnections = currentConnections.filter(c => !idsToRemove.has(c.fromCardId) && !idsToRemove.has(c.toCardId));
+
+  runInTransaction(cardIds.length === 1 ? 'Remove card' : 'Remove cards', () => {
+    $allCards.set(remainingCards);
+    $allConnections.set(remainingConnections);
+  });
+  $selectedCardIds.set($selectedCardIds.get().filter(id => !idsToRemove.has(id)));
+  log('Cards removed from store', {
+    cardIds,
+    connectionsRemoved: currentConnections.length - remainingConnections.length
+  });
+}
+
+/**
+ * Moves several cards at once (e.g. while dragging a selection).
+ * Product Flow: User drags one of several selected cards → they all move together
+ */
+export function moveCards(positions: Array<{ id: number; x: number; y: number }>): void {
+  const byId = new Map(positions.map(p => [p.id, p]));
+  const currentCards = $allCards.get();
+  let changed = false;
+  const updatedCards = currentCards.map(card => {
+    const position = byId.get(card.id);
+    if (!position || (position.x === card.x && position.y === card.y)) return card;
+    changed = true;
+    return { ...card, x: position.x, y: position.y };
+  });
+
+  if (changed) {
+    runInTransaction('Move cards', () => $allCards.set(updatedCards));
+  }
+}
+
+/**
+ * Replaces the card selection.
+ */
+export function selectCards(cardIds: number[]): void {
+  const current = $selectedCardIds.get();
+  const next = Array.from(new Set(cardIds));
+  if (current.length === next.length && current.every((id, i) => id === next[i])) return;
+  $selectedCardIds.set(next);
+}
+
+/**
+ * Adds a card to the selection, or removes it if it is already selected.
+ * Product Flow: User shift-clicks a card → it joins (or leaves) the selection
+ */
+export function toggleCardSelection(cardId: number): void {
+  const current = $selectedCardIds.get();
+  selectCards(current.includes(cardId) ? current.filter(id => id !== cardId) : [...current, cardId]);
+}
+
+/**
+ * Selects every card on the workspace.
+ */
+export function selectAllCards(): void {
+  selectCards($allCards.get().map(card => card.id));
+}
+
+/**
+ * Empties the card selection.
+ */
+export function clearSelection(): void {
+  selectCards([]);
+}
+
+/**
+ * Keeps a requested card size within the allowed bounds.
+ */
+export function clampCardSize(width: number, height: number): { width: number; height: number } {
+  return {
+    width: Math.min(MAX_CARD_WIDTH, Math.max(MIN_CARD_WIDTH, Math.round(width))),
+    height: Math.min(MAX_CARD_HEIGHT, Math.max(MIN_CARD_HEIGHT, Math.round(height)))
+  };
+}
+
+/**
+ * Updates a card's size (and optionally its position) as the user resizes it.
+ * Product Flow: User drags a card edge or corner → we update its size → UI and attached lines refresh
+ * 
+ * The position is only needed when resizing from the top or left, where the
+ * opposite edge stays fixed and the card's origin moves instead.
+ */
+export function updateCardSize(cardId: number, width: number, height: number, position?: { x: number; y: number }): void {
+  const size = clampCardSize(width, height);
+  const currentCards = $allCards.get();
+  const cardToUpdate = currentCards.find(c => c.id === cardId);
+  if (!cardToUpdate) {
+    error('updateCardSize: Card not found', { cardId });
+    return;
   }
 
+  const updatedCard = { ...cardToUpdate, ...size, ...(position ?? {}) };
+  if (JSON.stringify(cardToUpdate) === JSON.stringify(updatedCard)) {
+    return;
+  }
+
+  runInTransaction('Resize card', () => $allCards.set(
+    currentCards.map(card => card.id === cardId ? updatedCard : card)
+  ));
+}
+
 /**
  * Brings a card to the front when selected (prevents it from being hidden).
  * Product Behavior: Recently interacted cards should be visible, not hidden behind others.
@@ -135,13 +471,74 @@ export function bringCardToFront(cardId: number): void {
     const updatedCards = cards.map(card => 
         card.id === cardId ? { ...card, zIndex: maxZIndex + 1 } : card
     );
-    $allCards.set(updatedCards);
+    runInTransaction('Bring card to front', () => $allCards.set(updatedCards));
     log('Card brought to front', { cardId, newZIndex: maxZIndex + 1 });
   } else if (!cardToUpdate) {
     error('bringCardToFront: Card not found', { cardId });
   }
 }
 
+/**
+ * Brings several cards to the front, keeping their stacking order among themselves.
+ */
+export function bringCardsToFront(cardIds: number[]): void {
+  const ids = new Set(cardIds);
+  const cards = $allCards.get();
+  const others = cards.filter(c => !ids.has(c.id));
+  const toRaise = cards.filter(c => ids.has(c.id)).sort((a, b) => a.zIndex - b.zIndex);
+  if (toRaise.length === 0) return;
+
+  const baseZIndex = Math.max(0, ...others.map(c => c.zIndex));
+  const newZIndex = new Map(toRaise.map((card, index) => [card.id, baseZIndex + index + 1]));
+  const updatedCards = cards.map(card => newZIndex.has(card.id) ? { ...card, zIndex: newZIndex.get(card.id)! } : card);
+
+  if (JSON.stringify(cards) !== JSON.stringify(updatedCards)) {
+    runInTransaction('Bring cards to front', () => $allCards.set(updatedCards));
+    log('Cards brought to front', { cardIds });
+  }
+}
+
+/**
+ * Ways a group of cards can be lined up.
+ */
+export type CardAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * Lines up the given cards along a shared edge or center line.
+ * Product Flow: User selects several cards → clicks "Align left" → their left edges line up
+ */
+export function alignCards(cardIds: number[], alignment: CardAlignment): void {
+  const ids = new Set(cardIds);
+  const cards = $allCards.get();
+  const targets = cards.filter(c => ids.has(c.id));
+  if (targets.length < 2) {
+    log('alignCards: Need at least two cards to align', { cardIds });
+    return;
+  }
+
+  const left = Math.min(...targets.map(c => c.x));
+  const right = Math.max(...targets.map(c => c.x + c.width));
+  const top = Math.min(...targets.map(c => c.y));
+  const bottom = Math.max(...targets.map(c => c.y + c.height));
+
+  const alignCard = (card: CardLayout): CardLayout => {
+    switch (alignment) {
+      case 'left': return { ...card, x: left };
+      case 'center': return { ...card, x: Math.round((left + right) / 2 - card.width / 2) };
+      case 'right': return { ...card, x: right - card.width };
+      case 'top': return { ...card, y: top };
+      case 'middle': return { ...card, y: Math.round((top + bottom) / 2 - card.height / 2) };
+      case 'bottom': return { ...card, y: bottom - card.height };
+    }
+  };
+
+  const updatedCards = cards.map(card => ids.has(card.id) ? alignCard(card) : card);
+  if (JSON.stringify(cards) !== JSON.stringify(updatedCards)) {
+    runInTransaction('Align cards', () => $allCards.set(updatedCards));
+    log('Cards aligned', { cardIds, alignment });
+  }
+}
+
 /**
  * Creates a new connection between two cards.
  * Product Flow: User drags from one card to another → connection is created → relationship is visualized
@@ -162,13 +559,20 @@ export function createConnection(connectionData: Omit<Connection, 'id'>): void {
 
     const newConnection: Connection = {
       ...connectionData,
-      id: `conn-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+      id: createConnectionId()
     };
     
-    $allConnections.set([...currentConnections, newConnection]);
+    runInTransaction('Create connection', () => $allConnections.set([...currentConnections, newConnection]));
     log('Connection created in store', { connectionId: newConnection.id });
   }
 
+/**
+ * Generates a unique id for a new connection.
+ */
+export function createConnectionId(): string {
+  return `conn-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
 /**
  * Removes a specific connection.
  * Product Flow: User deletes a connection → relationship visualization is removed
@@ -179,13 +583,105 @@ export function removeConnection(connectionId: string): void {
   const updatedConnections = currentConnections.filter(c => c.id !== connectionId);
   
   if (currentConnections.length !== updatedConnections.length) {
-    $allConnections.set(updatedConnections);
+    runInTransaction('Remove connection', () => $allConnections.set(updatedConnections));
     log('Connection removed from store', { connectionId });
   } else {
     log('Connection to remove not found in store', { connectionId });
   }
 }
 
+/**
+ * Attaches one end of a connection to another spot on a card's edge.
+ * Product Flow: User drags the arrowhead from the left side of Checkout to the top of Payment → the arrow now points there
+ */
+export function moveConnectionEnd(connectionId: string, end: 'from' | 'to', anchor: ConnectionAnchor): void {
+  const currentConnections = $allConnections.get();
+  const connection = currentConnections.find(c => c.id === connectionId);
+  if (!connection) {
+    error('moveConnectionEnd: Connection not found', { connectionId });
+    return;
+  }
+
+  const moved: Connection = end === 'from'
+    ? { ...connection, fromCardId: anchor.cardId, fromSide: anchor.side, fromPosition: anchor.position }
+    : { ...connection, toCardId: anchor.cardId, toSide: anchor.side, toPosition: anchor.position };
+  if (moved.fromCardId === moved.toCardId) {
+    log('moveConnectionEnd: Both ends would be on the same card, not moving', { connectionId, anchor });
+    return;
+  }
+  const duplicate = currentConnections.find(c => c.id !== connectionId &&
+    c.fromCardId === moved.fromCardId && c.toCardId === moved.toCardId &&
+    c.fromSide === moved.fromSide && c.toSide === moved.toSide
+  );
+  if (duplicate) {
+    log('moveConnectionEnd: Another connection already joins these sides, not moving', { connectionId, duplicateId: duplicate.id });
+    return;
+  }
+
+  runInTransaction('Move connection end', () => $allConnections.set(
+    currentConnections.map(c => c.id === connectionId ? moved : c)
+  ));
+  log('Connection end moved', { connectionId, end, anchor });
+}
+
+/**
+ * Changes the label, kind, style or routing of an existing connection.
+ * Product Flow: User edits a connection in its editor → arrow is redrawn with the new look
+ * 
+ * Passing `undefined` for a field removes it from the connection.
+ */
+export function updateConnection(connectionId: string, changes: Partial<Pick<Connection, 'label' | 'kind' | 'style' | 'routing'>>): void {
+  const currentConnections = $allConnections.get();
+  const connectionToUpdate = currentConnections.find(c => c.id === connectionId);
+  if (!connectionToUpdate) {
+    error('updateConnection: Connection not found', { connectionId });
+    return;
+  }
+
+  const updatedConnection: Connection = { ...connectionToUpdate, ...changes };
+  for (const key of Object.keys(changes) as (keyof typeof changes)[]) {
+    if (updatedConnection[key] === undefined) {
+      delete updatedConnection[key];
+    }
+  }
+
+  if (JSON.stringify(connectionToUpdate) === JSON.stringify(updatedConnection)) {
+    return;
+  }
+
+  runInTransaction('Edit connection', () => $allConnections.set(
+    currentConnections.map(c => c.id === connectionId ? updatedConnection : c)
+  ));
+  log('Connection updated in store', { connectionId, changes });
+}
+
+/**
+ * Sets how connections without their own routing are drawn.
+ * Product Flow: User picks "Orthogonal" in the header → every default line re-routes around cards
+ */
+export function setConnectionRouting(routing: ConnectionRouting): void {
+  if (!Object.prototype.hasOwnProperty.call(CONNECTION_ROUTING_LABELS, routing)) {
+    error('setConnectionRouting: Unknown routing mode', { routing });
+    return;
+  }
+  log('Workspace connection routing changed', { from: $connectionRouting.get(), to: routing });
+  $connectionRouting.set(routing);
+}
+
+/**
+ * Changes the snap grid / guide preferences for this workspace.
+ * Product Flow: User toggles "Snap" or picks a grid size in the header → next drag uses it
+ */
+export function updateGridSettings(changes: Partial<GridSettings>): void {
+  const next = { ...$gridSettings.get(), ...changes };
+  if (!Number.isFinite(next.size) || next.size <= 0) {
+    error('updateGridSettings: Grid size must be a positive number', { size: next.size });
+    return;
+  }
+  log('Grid settings updated', next);
+  $gridSettings.set(next);
+}
+
 /**
  * Updates the content source URL.
  * Product Impact: Changes where all scenario content is loaded from,
@@ -197,6 +693,11 @@ export function updateHostUrl(newUrl: string): void {
     error('updateHostUrl: New URL is empty, not updating.');
     return;
   }
+  // The address becomes the source of every card iframe, so only web pages are accepted
+  if (!isValidBaseUrl(trimmedUrl)) {
+    error('updateHostUrl: Not an http(s) address, not updating.', { newUrl: trimmedUrl });
+    return;
+  }
   const cleanUrl = trimmedUrl.replace(/\/$/, ''); // Remove trailing slash
   
   log('Updating host URL action', { oldUrl: $hostUrl.get(), newUrl: cleanUrl });
@@ -0,0 +1,158 @@
+/**
+ * KEYBOARD CONNECTIONS
+ *
+ * Connecting two cards without a pointer: pick a side of the focused card,
+ * then a target card and its side, then confirm. The keys are wired up in
+ * interactions/card-keyboard.ts.
+ *
+ * Product Features:
+ * - Source and target sides picked with the arrow keys
+ * - Target cards offered nearest first, the side facing the source preselected
+ * - Every step is announced to screen readers
+ */
+
+import { atom } from 'nanostores';
+import { $allCards, $allConnections, CardLayout, createConnection } from './index';
+import { SIDE_NAMES, announce, getCardName } from './accessibility';
+import { log, error } from '../utils/logger';
+
+/**
+ * A connection being made with the keyboard.
+ * Product Meaning: "Connect this side of this card to … that side of that card."
+ */
+export interface KeyboardConnection {
+  fromCardId: number;
+  fromSide: number;
+  /** null while the source side is still being picked */
+  toCardId: number | null;
+  toSide: number;
+}
+
+/**
+ * The connection being made with the keyboard, if any.
+ * Product Context: The board highlights the picked sides and previews the line.
+ */
+export const $keyboardConnection = atom<KeyboardConnection | null>(null);
+
+const center = (card: CardLayout) => ({ x: card.x + card.width / 2, y: card.y + card.height / 2 });
+
+/**
+ * The side of `card` that faces `other`.
+ */
+export function getFacingSide(card: CardLayout, other: CardLayout): number {
+  const from = center(card);
+  const to = center(other);
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 1 : 3;
+  return dy > 0 ? 2 : 0;
+}
+
+/**
+ * Cards that can be connected to, nearest to the source card first.
+ */
+function getTargetCandidates(fromCardId: number): CardLayout[] {
+  const cards = $allCards.get();
+  const source = cards.find(card => card.id === fromCardId);
+  if (!source) return [];
+  const distance = (card: CardLayout) => Math.hypot(center(card).x - center(source).x, center(card).y - center(source).y);
+  return cards.filter(card => card.id !== fromCardId).sort((a, b) => distance(a) - distance(b));
+}
+
+function announceTarget(connection: KeyboardConnection) {
+  if (connection.toCardId === null) return;
+  announce(`Target ${getCardName(connection.toCardId)}, ${SIDE_NAMES[connection.toSide]} side. Tab for another card, arrow keys for another side, Enter to connect.`);
+}
+
+/**
+ * Starts connecting a card with the keyboard.
+ * Product Flow: User focuses a card and presses C → picks a side with the arrow keys
+ */
+export function startKeyboardConnection(cardId: number, side = 1): void {
+  const card = $allCards.get().find(c => c.id === cardId);
+  if (!card) {
+    error('startKeyboardConnection: Card not found', { cardId });
+    return;
+  }
+  if ($allCards.get().length < 2) {
+    announce('There is no other card to connect to');
+    return;
+  }
+  $keyboardConnection.set({ fromCardId: cardId, fromSide: side, toCardId: null, toSide: 3 });
+  log('Keyboard connection started', { cardId, side });
+  announce(`Connecting from the ${SIDE_NAMES[side]} side of ${getCardName(cardId)}. Arrow keys pick the side, Enter continues, Escape cancels.`);
+}
+
+/**
+ * Picks the side for the current step: the source side first, then the target side.
+ */
+export function pickKeyboardConnectionSide(side: number): void {
+  const connection = $keyboardConnection.get();
+  if (!connection) return;
+
+  if (connection.toCardId === null) {
+    $keyboardConnection.set({ ...connection, fromSide: side });
+    announce(`From the ${SIDE_NAMES[side]} side of ${getCardName(connection.fromCardId)}`);
+  } else {
+    $keyboardConnection.set({ ...connection, toSide: side });
+    announce(`To the ${SIDE_NAMES[side]} side of ${getCardName(connection.toCardId)}`);
+  }
+}
+
+/**
+ * Moves on to picking the target (nearest card first), or connects when the
+ * target is already picked.
+ * Product Flow: User presses Enter → the nearest card is offered → Enter again → "Connected Scenario 2 to Scenario 5"
+ */
+export function advanceKeyboardConnection(): void {
+  const connection = $keyboardConnection.get();
+  if (!connection) return;
+
+  if (connection.toCardId === null) {
+    const [target] = getTargetCandidates(connection.fromCardId);
+    const source = $allCards.get().find(card => card.id === connection.fromCardId);
+    if (!target || !source) {
+      cancelKeyboardConnection();
+      return;
+    }
+    const next = { ...connection, toCardId: target.id, toSide: getFacingSide(target, source) };
+    $keyboardConnection.set(next);
+    announceTarget(next);
+    return;
+  }
+
+  const { fromCardId, fromSide, toCardId, toSide } = connection;
+  $keyboardConnection.set(null);
+  const countBefore = $allConnections.get().length;
+  createConnection({ fromCardId, fromSide, fromPosition: 0.5, toCardId, toSide, toPosition: 0.5 });
+  announce($allConnections.get().length > countBefore
+    ? `Connected ${getCardName(fromCardId)} to ${getCardName(toCardId)}`
+    : `${getCardName(fromCardId)} is already connected to ${getCardName(toCardId)} there`);
+}
+
+/**
+ * Offers the next (or previous) target card, by distance from the source.
+ */
+export function cycleKeyboardConnectionTarget(direction: 1 | -1): void {
+  const connection = $keyboardConnection.get();
+  if (!connection || connection.toCardId === null) return;
+
+  const candidates = getTargetCandidates(connection.fromCardId);
+  const source = $allCards.get().find(card => card.id === connection.fromCardId);
+  if (candidates.length === 0 || !source) return;
+  const index = candidates.findIndex(card => card.id === connection.toCardId);
+  const target = candidates[(index + direction + candidates.length) % candidates.length];
+  const next = { ...connection, toCardId: target.id, toSide: getFacingSide(target, source) };
+  $keyboardConnection.set(next);
+  announceTarget(next);
+}
+
+/**
+ * Stops connecting without creating anything.
+ */
+export function cancelKeyboardConnection(): void {
+  if (!$keyboardConnection.get()) return;
+  $keyboardConnection.set(null);
+  log('Keyboard connection cancelled');
+  announce('Connection cancelled');
+}
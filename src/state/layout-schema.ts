@@ -0,0 +1,421 @@
+/**
+ * SAVED LAYOUT SCHEMA
+ *
+ * Describes the JSON format used for layout files and the browser backup,
+ * and turns untrusted JSON into state we can safely load.
+ *
+ * - Every saved layout carries a `version`. Older versions are upgraded one
+ *   step at a time by the migrations below; newer versions are refused.
+ * - Every card and connection is checked field by field. Broken entries are
+ *   skipped (and recoverable ones fixed) so the rest of the layout still loads.
+ * - Every skipped or fixed entry is reported with a path and a reason, so
+ *   users can see exactly what was wrong with their file.
+ *
+ * Version history:
+ *   0 - unversioned browser backup (connections keep their ids)
+ *   1 - `version` field, optional workspace `routing` and `grid` settings
+ *   2 - optional `environments` profiles and per-card `profileId` overrides
+ *   3 - per-card `scenarioId` (comparison copies) and the `comparison` connection kind
+ *   4 - optional per-card `title`, `notes`, `tags`, `owner` and `color`
+ */
+
+import {
+  CardLayout,
+  Connection,
+  ConnectionKind,
+  ConnectionRouting,
+  ConnectionStyle,
+  GridSettings,
+  CONNECTION_KIND_LABELS,
+  CONNECTION_ROUTING_LABELS,
+  MIN_CARD_WIDTH,
+  MIN_CARD_HEIGHT,
+  MAX_CARD_WIDTH,
+  MAX_CARD_HEIGHT,
+  isValidBaseUrl
+} from './index';
+import { DEFAULT_ENVIRONMENT_COLOR, EnvironmentProfile, EnvironmentSettings } from './environments';
+import { isCardColor, normalizeTags } from './card-metadata';
+
+/** Version written by this build of the viewer */
+export const CURRENT_LAYOUT_VERSION = 4;
+
+/** A connection as stored on disk; ids are optional and regenerated when missing */
+export type SavedConnection = Omit<Connection, 'id'> & { id?: string };
+
+/**
+ * A complete, validated snapshot of a workspace arrangement.
+ * Product Context: What "Save Layout" writes and "Load Layout" reads.
+ */
+export interface SavedLayout {
+  /** All cards with their positions and sizes */
+  cards: CardLayout[];
+  /** All connections between cards */
+  connections: SavedConnection[];
+  /** Workspace default for how connection lines are routed */
+  routing?: ConnectionRouting;
+  /** Workspace snap grid and guide preferences */
+  grid?: GridSettings;
+  /** Environment profiles cards can load from */
+  environments?: EnvironmentSettings;
+  /** Schema version, see the version history above */
+  version: number;
+}
+
+/**
+ * One problem found while reading a layout.
+ * - skipped: the entry was left out
+ * - fixed: the entry was kept with a corrected or default value
+ */
+export interface LayoutIssue {
+  /** Where the problem is, e.g. `cards[2].width` */
+  path: string;
+  /** What was wrong, in plain words */
+  problem: string;
+  action: 'skipped' | 'fixed';
+}
+
+export interface LayoutParseResult {
+  layout: SavedLayout;
+  issues: LayoutIssue[];
+  /** Version the data was written with (before migration) */
+  sourceVersion: number;
+}
+
+type RawLayout = Record<string, unknown>;
+
+/**
+ * Upgrades data from the keyed version to the next one.
+ * Add an entry here whenever the saved format changes.
+ */
+const MIGRATIONS: Record<number, (data: RawLayout) => RawLayout> = {
+  // 0 → 1: the unversioned backup only gained the version field
+  0: data => ({ ...data, version: 1 }),
+  // 1 → 2: environments are new and optional; nothing to convert
+  1: data => ({ ...data, version: 2 }),
+  // 2 → 3: cards without `scenarioId` show the scenario of their id, as before
+  2: data => ({ ...data, version: 3 }),
+  // 3 → 4: card metadata is new and optional; nothing to convert
+  3: data => ({ ...data, version: 4 })
+};
+
+const DEFAULT_CARD_WIDTH = 350;
+const DEFAULT_CARD_HEIGHT = 250;
+const CONNECTION_SIDES = [0, 1, 2, 3];
+const ARROWHEAD_OPTIONS: Array<NonNullable<ConnectionStyle['arrowheads']>> = ['none', 'end', 'both'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+/** Own keys only: `in` would also accept inherited names like "constructor" */
+const isKeyOf = <T extends object>(table: T, value: unknown): value is keyof T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(table, value);
+const describe = (value: unknown) =>
+  value === undefined ? 'missing' : typeof value === 'number' ? String(value) : JSON.stringify(value) ?? String(value);
+
+/**
+ * Brings raw layout data up to the current version.
+ * Throws when the data was written by a newer viewer.
+ */
+function migrate(data: RawLayout): { data: RawLayout; sourceVersion: number } {
+  const declared = data.version;
+  if (declared !== undefined && (!Number.isInteger(declared) || (declared as number) < 0)) {
+    throw new Error(`Unrecognized layout version ${describe(declared)}`);
+  }
+
+  const sourceVersion = (declared as number | undefined) ?? 0;
+  if (sourceVersion > CURRENT_LAYOUT_VERSION) {
+    throw new Error(
+      `This layout was saved by a newer version of Scenario Viewer (format ${sourceVersion}, this viewer reads up to ${CURRENT_LAYOUT_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  for (let version = sourceVersion; version < CURRENT_LAYOUT_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return { data: migrated, sourceVersion };
+}
+
+/**
+ * `profileIds` are the layout's own environments; without them, overrides
+ * are kept as they are and resolved against the current environments.
+ */
+function parseCards(rawCards: unknown[], issues: LayoutIssue[], profileIds: Set<string> | null): CardLayout[] {
+  const cards: CardLayout[] = [];
+  const seenIds = new Set<number>();
+
+  rawCards.forEach((raw, index) => {
+    const path = `cards[${index}]`;
+    const skip = (problem: string) => issues.push({ path, problem, action: 'skipped' });
+    const fix = (field: string, problem: string) => issues.push({ path: `${path}.${field}`, problem, action: 'fixed' });
+
+    if (!isRecord(raw)) return skip('is not an object');
+    if (!Number.isInteger(raw.id)) return skip(`has an invalid id (${describe(raw.id)})`);
+    const id = raw.id as number;
+    if (seenIds.has(id)) return skip(`repeats card id ${id}`);
+    if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) {
+      return skip(`has an invalid position (x: ${describe(raw.x)}, y: ${describe(raw.y)})`);
+    }
+
+    const size = (field: 'width' | 'height', min: number, max: number, fallback: number) => {
+      const value = raw[field];
+      if (!isFiniteNumber(value)) {
+        fix(field, `was ${describe(value)}, using ${fallback}`);
+        return fallback;
+      }
+      const clamped = Math.min(max, Math.max(min, value));
+      if (clamped !== value) fix(field, `${value} is outside ${min}–${max}, using ${clamped}`);
+      return clamped;
+    };
+    const width = size('width', MIN_CARD_WIDTH, MAX_CARD_WIDTH, DEFAULT_CARD_WIDTH);
+    const height = size('height', MIN_CARD_HEIGHT, MAX_CARD_HEIGHT, DEFAULT_CARD_HEIGHT);
+
+    let zIndex = 1;
+    if (Number.isInteger(raw.zIndex)) {
+      zIndex = raw.zIndex as number;
+    } else {
+      fix('zIndex', `was ${describe(raw.zIndex)}, using 1`);
+    }
+
+    const card: CardLayout = { id, x: raw.x, y: raw.y, width, height, zIndex };
+    if (raw.scenarioId !== undefined) {
+      if (Number.isInteger(raw.scenarioId)) card.scenarioId = raw.scenarioId as number;
+      else fix('scenarioId', `${describe(raw.scenarioId)} is not a scenario number, showing scenario ${id}`);
+    }
+    if (raw.profileId !== undefined) {
+      if (typeof raw.profileId === 'string' && raw.profileId && (!profileIds || profileIds.has(raw.profileId))) {
+        card.profileId = raw.profileId;
+      } else {
+        fix('profileId', `unknown environment ${describe(raw.profileId)}, using the default`);
+      }
+    }
+    for (const field of ['title', 'notes', 'owner'] as const) {
+      if (raw[field] === undefined) continue;
+      if (typeof raw[field] === 'string' && (raw[field] as string).trim()) card[field] = raw[field] as string;
+      else fix(field, `${describe(raw[field])} is not text, removed`);
+    }
+    if (raw.color !== undefined) {
+      if (isCardColor(raw.color)) card.color = raw.color;
+      else fix('color', `${describe(raw.color)} is not a hex color, removed`);
+    }
+    if (raw.tags !== undefined) {
+      const tags = Array.isArray(raw.tags) ? normalizeTags(raw.tags.filter((tag): tag is string => typeof tag === 'string')) : [];
+      if (tags.length > 0) card.tags = tags;
+      if (!Array.isArray(raw.tags) || tags.length !== raw.tags.length) {
+        fix('tags', tags.length > 0 ? 'had empty, repeated or non-text tags, removed them' : `${describe(raw.tags)} is not a list of tags, removed`);
+      }
+    }
+
+    seenIds.add(id);
+    cards.push(card);
+  });
+
+  return cards;
+}
+
+function parseConnectionStyle(raw: unknown, path: string, issues: LayoutIssue[]): ConnectionStyle | undefined {
+  if (!isRecord(raw)) {
+    issues.push({ path, problem: 'is not an object, style removed', action: 'fixed' });
+    return undefined;
+  }
+
+  const style: ConnectionStyle = {};
+  const drop = (field: string) =>
+    issues.push({ path: `${path}.${field}`, problem: `${describe(raw[field])} is not valid, removed`, action: 'fixed' });
+
+  if (raw.color !== undefined) {
+    // Colors end up in style and fill attributes, so only hex colors are kept
+    if (isCardColor(raw.color)) style.color = raw.color;
+    else drop('color');
+  }
+  if (raw.dashed !== undefined) {
+    if (typeof raw.dashed === 'boolean') style.dashed = raw.dashed;
+    else drop('dashed');
+  }
+  if (raw.arrowheads !== undefined) {
+    if (ARROWHEAD_OPTIONS.includes(raw.arrowheads as never)) style.arrowheads = raw.arrowheads as ConnectionStyle['arrowheads'];
+    else drop('arrowheads');
+  }
+  return Object.keys(style).length ? style : undefined;
+}
+
+function parseConnections(rawConnections: unknown[], cardIds: Set<number>, issues: LayoutIssue[]): SavedConnection[] {
+  const connections: SavedConnection[] = [];
+  const seenIds = new Set<string>();
+  const seenEnds = new Set<string>();
+
+  rawConnections.forEach((raw, index) => {
+    const path = `connections[${index}]`;
+    const skip = (problem: string) => issues.push({ path, problem, action: 'skipped' });
+    const fix = (field: string, problem: string) => issues.push({ path: `${path}.${field}`, problem, action: 'fixed' });
+
+    if (!isRecord(raw)) return skip('is not an object');
+
+    for (const end of ['from', 'to'] as const) {
+      const cardId = raw[`${end}CardId`];
+      if (!Number.isInteger(cardId) || !cardIds.has(cardId as number)) {
+        return skip(`points ${end} a card that is not in the layout (${describe(cardId)})`);
+      }
+      if (!CONNECTION_SIDES.includes(raw[`${end}Side`] as number)) {
+        return skip(`has an invalid ${end} side (${describe(raw[`${end}Side`])})`);
+      }
+    }
+    if (raw.fromCardId === raw.toCardId) return skip('connects a card to itself');
+
+    const endKey = `${raw.fromCardId}:${raw.fromSide}->${raw.toCardId}:${raw.toSide}`;
+    if (seenEnds.has(endKey)) return skip('duplicates an earlier connection');
+
+    const position = (field: 'fromPosition' | 'toPosition') => {
+      const value = raw[field];
+      if (isFiniteNumber(value) && value >= 0 && value <= 1) return value;
+      fix(field, `was ${describe(value)}, using 0.5`);
+      return 0.5;
+    };
+
+    const connection: SavedConnection = {
+      fromCardId: raw.fromCardId as number,
+      fromSide: raw.fromSide as number,
+      fromPosition: position('fromPosition'),
+      toCardId: raw.toCardId as number,
+      toSide: raw.toSide as number,
+      toPosition: position('toPosition')
+    };
+
+    if (typeof raw.id === 'string' && raw.id && !seenIds.has(raw.id)) {
+      connection.id = raw.id;
+      seenIds.add(raw.id);
+    }
+    if (raw.label !== undefined) {
+      if (typeof raw.label === 'string') connection.label = raw.label;
+      else fix('label', `${describe(raw.label)} is not text, removed`);
+    }
+    if (raw.kind !== undefined) {
+      if (isKeyOf(CONNECTION_KIND_LABELS, raw.kind)) connection.kind = raw.kind as ConnectionKind;
+      else fix('kind', `unknown kind ${describe(raw.kind)}, removed`);
+    }
+    if (raw.routing !== undefined) {
+      if (isKeyOf(CONNECTION_ROUTING_LABELS, raw.routing)) connection.routing = raw.routing as ConnectionRouting;
+      else fix('routing', `unknown routing ${describe(raw.routing)}, removed`);
+    }
+    if (raw.style !== undefined) {
+      const style = parseConnectionStyle(raw.style, `${path}.style`, issues);
+      if (style) connection.style = style;
+    }
+
+    seenEnds.add(endKey);
+    connections.push(connection);
+  });
+
+  return connections;
+}
+
+function parseGrid(raw: unknown, issues: LayoutIssue[]): GridSettings | undefined {
+  if (!isRecord(raw)) {
+    issues.push({ path: 'grid', problem: 'is not an object, keeping current grid settings', action: 'skipped' });
+    return undefined;
+  }
+  const { snapToGrid, size, guides } = raw;
+  if (typeof snapToGrid !== 'boolean' || !isFiniteNumber(size) || size <= 0 || typeof guides !== 'boolean') {
+    issues.push({ path: 'grid', problem: 'has missing or invalid values, keeping current grid settings', action: 'skipped' });
+    return undefined;
+  }
+  return { snapToGrid, size, guides };
+}
+
+function parseEnvironments(raw: unknown, issues: LayoutIssue[]): EnvironmentSettings | undefined {
+  const keepCurrent = (problem: string) => {
+    issues.push({ path: 'environments', problem: `${problem}, keeping current environments`, action: 'skipped' });
+    return undefined;
+  };
+  if (!isRecord(raw) || !Array.isArray(raw.profiles)) return keepCurrent('is not an object with a "profiles" list');
+
+  const profiles: EnvironmentProfile[] = [];
+  raw.profiles.forEach((profile, index) => {
+    const path = `environments.profiles[${index}]`;
+    if (!isRecord(profile) || typeof profile.id !== 'string' || !profile.id || profiles.some(p => p.id === profile.id)) {
+      issues.push({ path, problem: `has a missing or repeated id (${describe(isRecord(profile) ? profile.id : profile)})`, action: 'skipped' });
+      return;
+    }
+    if (typeof profile.baseUrl !== 'string' || !isValidBaseUrl(profile.baseUrl)) {
+      issues.push({ path, problem: `has an invalid base URL (${describe(profile.baseUrl)})`, action: 'skipped' });
+      return;
+    }
+    const name = typeof profile.name === 'string' && profile.name.trim() ? profile.name.trim() : profile.id;
+    if (name !== profile.name) issues.push({ path: `${path}.name`, problem: `was ${describe(profile.name)}, using "${name}"`, action: 'fixed' });
+    // Colors end up in a style attribute, so only hex colors are kept
+    const color = isCardColor(profile.color) ? profile.color : DEFAULT_ENVIRONMENT_COLOR;
+    if (profile.color !== undefined && color !== profile.color) {
+      issues.push({ path: `${path}.color`, problem: `${describe(profile.color)} is not a hex color, using ${color}`, action: 'fixed' });
+    }
+    profiles.push({ id: profile.id, name, baseUrl: profile.baseUrl, color });
+  });
+  if (profiles.length === 0) return keepCurrent('has no valid profiles');
+
+  let defaultProfileId = raw.defaultProfileId;
+  if (typeof defaultProfileId !== 'string' || !profiles.some(p => p.id === defaultProfileId)) {
+    issues.push({
+      path: 'environments.defaultProfileId',
+      problem: `${describe(defaultProfileId)} is not one of the profiles, using "${profiles[0].name}"`,
+      action: 'fixed'
+    });
+    defaultProfileId = profiles[0].id;
+  }
+  return { profiles, defaultProfileId: defaultProfileId as string };
+}
+
+/**
+ * Summarizes issues for a report line, e.g. "2 skipped, 1 fixed".
+ */
+export function summarizeIssues(issues: LayoutIssue[]): string {
+  const count = (action: LayoutIssue['action']) => issues.filter(issue => issue.action === action).length;
+  const parts = [];
+  if (count('skipped')) parts.push(`${count('skipped')} skipped`);
+  if (count('fixed')) parts.push(`${count('fixed')} fixed`);
+  return parts.join(', ');
+}
+
+/**
+ * Validates and migrates raw layout JSON.
+ * Throws only when nothing usable can be read; otherwise returns the valid
+ * parts together with a list of what was skipped or fixed.
+ */
+export function parseSavedLayout(data: unknown): LayoutParseResult {
+  if (!isRecord(data)) {
+    throw new Error('A layout must be a JSON object');
+  }
+
+  const { data: migrated, sourceVersion } = migrate(data);
+  if (!Array.isArray(migrated.cards)) {
+    throw new Error('The layout has no "cards" list');
+  }
+  if (migrated.connections !== undefined && !Array.isArray(migrated.connections)) {
+    throw new Error('The layout\'s "connections" is not a list');
+  }
+
+  const issues: LayoutIssue[] = [];
+  const environments = migrated.environments !== undefined ? parseEnvironments(migrated.environments, issues) : undefined;
+  const cards = parseCards(migrated.cards, issues, environments ? new Set(environments.profiles.map(p => p.id)) : null);
+  const connections = parseConnections(
+    (migrated.connections as unknown[] | undefined) ?? [],
+    new Set(cards.map(c => c.id)),
+    issues
+  );
+
+  const layout: SavedLayout = { cards, connections, version: CURRENT_LAYOUT_VERSION };
+  if (migrated.routing !== undefined) {
+    if (isKeyOf(CONNECTION_ROUTING_LABELS, migrated.routing)) {
+      layout.routing = migrated.routing as ConnectionRouting;
+    } else {
+      issues.push({ path: 'routing', problem: `unknown routing ${describe(migrated.routing)}, keeping current setting`, action: 'skipped' });
+    }
+  }
+  if (migrated.grid !== undefined) {
+    const grid = parseGrid(migrated.grid, issues);
+    if (grid) layout.grid = grid;
+  }
+  if (environments) layout.environments = environments;
+
+  return { layout, issues, sourceVersion };
+}
@@ -2,11 +2,13 @@
 import { log } from '../utils/logger';
 import { CardLayout } from './index';
 import { $allCards } from './index';
+import { DEFAULT_SCENARIO_IDS } from './catalog';
 
-export function loadDefaultCards(): void {
-  log('loadDefaultCards called');
-  
-  const defaultCards: CardLayout[] = [1, 2, 3, 4, 5, 6].map((id, index) => {
+/**
+ * Builds the starter grid of default scenario cards.
+ */
+export function createDefaultCards(): CardLayout[] {
+  return DEFAULT_SCENARIO_IDS.map((id, index) => {
     log(`Creating card ${id}, index ${index}`);
     const cols = 3;
     const col = index % cols;
@@ -24,7 +26,12 @@ export function loadDefaultCards(): void {
     log(`Card ${id} positioned at`, { x: card.x, y: card.y });
     return card;
   });
+}
+
+export function loadDefaultCards(): void {
+  log('loadDefaultCards called');
   
+  const defaultCards = createDefaultCards();
   log('Setting default cards in store', { count: defaultCards.length });
   $allCards.set(defaultCards);
   log('Default cards loaded successfully');
@@ -0,0 +1,86 @@
+/**
+ * SCENARIO REPORTS
+ *
+ * What scenario pages tell the viewer through the postMessage bridge (see
+ * client/protocol.ts): a title, a status, badges and events. A report belongs
+ * to the page that sent it, so a card never shows what an earlier page said
+ * once it loads another one (other environment, other scenario).
+ *
+ * Product Features:
+ * - Scenario pages can name themselves and report ok / warning / error
+ * - Custom badges (build number, feature flags, ...) in the card header
+ * - The latest events a page sent, for a quick look at what happened
+ */
+
+import { atom } from 'nanostores';
+import { CardLayout } from './index';
+import { getCardSourceUrl } from './environments';
+import type { ScenarioBadge, ScenarioMessage, ScenarioStatus } from '../client/protocol';
+
+/** How many events are kept per card */
+export const MAX_REPORTED_EVENTS = 20;
+
+/**
+ * Everything a scenario page has reported since it loaded.
+ * Product Meaning: "What does the scenario itself say about how it's doing?"
+ */
+export interface ScenarioReport {
+  /** Address of the page that sent the report */
+  src: string;
+  title?: string;
+  status?: ScenarioStatus;
+  statusMessage?: string;
+  badges: ScenarioBadge[];
+  /** Oldest first */
+  events: Array<{ name: string; detail?: unknown; at: number }>;
+}
+
+/**
+ * Reports by card id.
+ * Product Context: Card headers show these next to the catalog information.
+ */
+export const $scenarioReports = atom<Record<number, ScenarioReport>>({});
+
+/**
+ * The report of the page a card currently shows, null when that page hasn't
+ * reported anything (or doesn't use the bridge).
+ */
+export function getScenarioReport(card: CardLayout): ScenarioReport | null {
+  const report = $scenarioReports.get()[card.id];
+  return report && report.src === getCardSourceUrl(card) ? report : null;
+}
+
+/**
+ * Records a message from the page shown in a card.
+ * `ready` starts a fresh report: the page has (re)loaded.
+ */
+export function applyScenarioMessage(cardId: number, src: string, message: ScenarioMessage): void {
+  const reports = $scenarioReports.get();
+  const previous = reports[cardId];
+  const report: ScenarioReport = message.type === 'ready' || previous?.src !== src
+    ? { src, badges: [], events: [] }
+    : previous;
+
+  let next: ScenarioReport;
+  switch (message.type) {
+    case 'ready':
+      next = report;
+      break;
+    case 'title':
+      next = { ...report, title: message.title };
+      break;
+    case 'status':
+      next = { ...report, status: message.status, statusMessage: message.message };
+      break;
+    case 'badges':
+      next = { ...report, badges: message.badges };
+      break;
+    case 'event':
+      next = {
+        ...report,
+        events: [...report.events, { name: message.name, detail: message.detail, at: Date.now() }].slice(-MAX_REPORTED_EVENTS)
+      };
+      break;
+  }
+  $scenarioReports.set({ ...reports, [cardId]: next });
+}
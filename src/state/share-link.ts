@@ -0,0 +1,125 @@
+/**
+ * SHAREABLE BOARD LINKS
+ *
+ * Packs a whole board (cards, connections, workspace settings and content
+ * source) into the fragment of a link, so sharing a board is as simple as
+ * sending a URL. The fragment never reaches a server.
+ *
+ * Product Features:
+ * - "Copy link" puts the current board in a compressed link
+ * - Opening such a link shows the board as a read-only preview first; it is
+ *   only added to your workspaces when you choose to import it
+ * - Links made by a newer version of the viewer are refused with a clear message
+ *
+ * Link format: `#board=<version>.<payload>` where the payload is the board as
+ * JSON, compressed with deflate and written as base64url.
+ *
+ * Version history:
+ *   1 - { name, hostUrl, layout } with layout in the saved layout format
+ */
+
+import { atom } from 'nanostores';
+import { SavedLayout, LayoutIssue, parseSavedLayout } from './layout-schema';
+import { isValidBaseUrl } from './index';
+
+/** Version written by this build of the viewer */
+export const SHARE_LINK_VERSION = 1;
+
+/** Name of the fragment parameter holding the board */
+export const SHARE_LINK_PARAM = 'board';
+
+/**
+ * Links longer than this may be cut off by chat apps, email clients and some
+ * browsers, so copying one asks for confirmation first.
+ */
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+/**
+ * Everything a link carries.
+ * Product Meaning: A board someone sent you, with the content source it was made against.
+ */
+export interface SharedBoard {
+  /** Name of the workspace it came from, used when importing */
+  name: string;
+  hostUrl: string;
+  layout: SavedLayout;
+}
+
+/**
+ * The shared board being previewed, null when showing your own workspaces.
+ * Product Context: While set, the board is read-only and the header offers import.
+ */
+export const $sharedBoardPreview = atom<SharedBoard | null>(null);
+
+async function runThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large boards don't exceed the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Encodes a board as a URL fragment (without the leading `#`).
+ */
+export async function encodeSharedBoard(board: SharedBoard): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(board));
+  const compressed = await runThrough(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_LINK_PARAM}=${SHARE_LINK_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Reads the board from a URL fragment.
+ * Returns null when the fragment holds no board, and throws with a readable
+ * message when it holds one that can't be used. The layout is validated like
+ * a layout file; skipped or fixed entries are returned as issues.
+ */
+export async function decodeSharedBoard(fragment: string): Promise<{ board: SharedBoard; issues: LayoutIssue[] } | null> {
+  const value = new URLSearchParams(fragment.replace(/^#/, '')).get(SHARE_LINK_PARAM);
+  if (!value) return null;
+
+  const separator = value.indexOf('.');
+  const version = Number(value.substring(0, separator));
+  if (separator < 0 || !Number.isInteger(version) || version < 1) {
+    throw new Error('The link is not a shared board link.');
+  }
+  if (version > SHARE_LINK_VERSION) {
+    throw new Error(`The link was made by a newer version of the viewer (link version ${version}, supported up to ${SHARE_LINK_VERSION}).`);
+  }
+
+  let data: Partial<SharedBoard>;
+  try {
+    const json = await runThrough(fromBase64Url(value.substring(separator + 1)), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The link is incomplete or damaged (was it cut off when it was sent?).');
+  }
+
+  const { layout, issues } = parseSavedLayout(data?.layout);
+  // The content source becomes the address of every card iframe, so only web pages are accepted
+  let hostUrl = typeof data.hostUrl === 'string' ? data.hostUrl.trim() : '';
+  if (hostUrl && !isValidBaseUrl(hostUrl)) {
+    issues.push({ path: 'hostUrl', problem: `${JSON.stringify(hostUrl)} is not an http(s) address, keeping your content source`, action: 'skipped' });
+    hostUrl = '';
+  }
+  return {
+    board: {
+      name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Shared board',
+      hostUrl,
+      layout
+    },
+    issues
+  };
+}
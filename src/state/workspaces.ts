@@ -0,0 +1,425 @@
+/**
+ * NAMED WORKSPACES
+ *
+ * Each workspace is a separate board with its own cards, connections,
+ * workspace settings and content source. Workspaces are kept in IndexedDB so
+ * boards are not limited by the localStorage quota, and the active one is
+ * saved automatically a moment after every change.
+ *
+ * Product Features:
+ * - Create, rename, duplicate, delete and switch between workspaces
+ * - Opening a layout file creates a new workspace instead of replacing yours
+ * - The single board from older versions (stored under the old localStorage
+ *   key) becomes the first workspace automatically
+ * - Switching workspaces starts a fresh undo history
+ * - Each workspace keeps its own environment profiles
+ */
+
+import { atom } from 'nanostores';
+import {
+  CardLayout,
+  $allCards,
+  $allConnections,
+  $connectionRouting,
+  $gridSettings,
+  $hostUrl,
+  $selectedCardIds,
+  $selectedConnectionId,
+  $layoutLoadReport,
+  createConnectionId,
+  updateHostUrl
+} from './index';
+import { clearHistory } from './history';
+import { $environments, setEnvironments } from './environments';
+import { CURRENT_LAYOUT_VERSION, SavedLayout, parseSavedLayout, summarizeIssues } from './layout-schema';
+import { createDefaultCards } from './loading';
+import { openDatabase, getRecord, getAllRecords, putRecord, deleteRecord } from '../utils/idb';
+import { log, error, success } from '../utils/logger';
+
+/**
+ * The name and id of a workspace, as listed in the switcher.
+ */
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+}
+
+/** Everything stored for one workspace */
+interface StoredWorkspace extends WorkspaceSummary {
+  /** Content source the workspace's scenarios are loaded from */
+  hostUrl: string;
+  layout: SavedLayout;
+  /** When the workspace was last saved (ms since epoch) */
+  updatedAt: number;
+}
+
+const DB_NAME = 'scenario-viewer';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+/** Where the single board was kept before workspaces existed */
+const LEGACY_LAYOUT_KEY = 'scenario-viewer-layout';
+/** Remembers which workspace to open on the next visit */
+const ACTIVE_WORKSPACE_KEY = 'scenario-viewer-active-workspace';
+/** Changes are batched for this long before being written */
+const SAVE_DELAY_MS = 300;
+
+/**
+ * All workspaces, sorted by name.
+ * Product Context: The entries of the workspace switcher.
+ */
+export const $workspaces = atom<WorkspaceSummary[]>([]);
+
+/**
+ * The workspace currently shown on the board.
+ */
+export const $activeWorkspaceId = atom<string | null>(null);
+
+let db: IDBDatabase | null = null;
+/** Used instead of IndexedDB when the browser doesn't provide it (nothing survives a reload) */
+const memoryStore = new Map<string, StoredWorkspace>();
+let saveTimer: number | undefined;
+/** True while a workspace is being put on the board, so that isn't saved back as a change */
+let isApplying = false;
+/** Workspace operations run one after another so a slow switch can't interleave with a save */
+let operationQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = operationQueue.then(operation);
+  operationQueue = result.catch(() => undefined);
+  return result;
+}
+
+function createWorkspaceId(): string {
+  return `ws-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Storage helpers: IndexedDB when available, otherwise the in-memory fallback
+
+function readWorkspace(id: string): Promise<StoredWorkspace | undefined> {
+  return db ? getRecord<StoredWorkspace>(db, WORKSPACE_STORE, id) : Promise.resolve(memoryStore.get(id));
+}
+
+function readAllWorkspaces(): Promise<StoredWorkspace[]> {
+  return db ? getAllRecords<StoredWorkspace>(db, WORKSPACE_STORE) : Promise.resolve(Array.from(memoryStore.values()));
+}
+
+async function writeWorkspace(record: StoredWorkspace): Promise<void> {
+  if (db) await putRecord(db, WORKSPACE_STORE, record);
+  else memoryStore.set(record.id, record);
+}
+
+async function removeWorkspaceRecord(id: string): Promise<void> {
+  if (db) await deleteRecord(db, WORKSPACE_STORE, id);
+  else memoryStore.delete(id);
+}
+
+function setWorkspaceList(workspaces: WorkspaceSummary[]) {
+  $workspaces.set(
+    workspaces
+      .map(({ id, name }) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  );
+}
+
+/**
+ * Snapshot of the board as it should be stored.
+ */
+function captureLayout(): SavedLayout {
+  return {
+    cards: $allCards.get(),
+    connections: $allConnections.get(),
+    routing: $connectionRouting.get(),
+    grid: $gridSettings.get(),
+    environments: $environments.get(),
+    version: CURRENT_LAYOUT_VERSION
+  };
+}
+
+/**
+ * Puts a stored workspace on the board, validating its layout on the way in.
+ */
+function applyWorkspace(record: StoredWorkspace) {
+  isApplying = true;
+  try {
+    let layout: SavedLayout;
+    try {
+      const result = parseSavedLayout(record.layout);
+      layout = result.layout;
+      if (result.issues.length > 0) {
+        $layoutLoadReport.set({
+          source: record.name,
+          outcome: 'partial',
+          message: `Some of this workspace could not be restored (${summarizeIssues(result.issues)}).`,
+          issues: result.issues
+        });
+      }
+    } catch (err) {
+      error('Stored workspace layout is unreadable', { id: record.id, err });
+      $layoutLoadReport.set({
+        source: record.name,
+        outcome: 'failed',
+        message: `This workspace could not be restored: ${(err as Error).message}`,
+        issues: []
+      });
+      layout = { cards: [], connections: [], version: CURRENT_LAYOUT_VERSION };
+    }
+
+    $selectedCardIds.set([]);
+    $selectedConnectionId.set(null);
+    $allCards.set(layout.cards);
+    $allConnections.set(layout.connections.map(conn => ({ ...conn, id: conn.id ?? createConnectionId() })));
+    if (layout.routing) $connectionRouting.set(layout.routing);
+    if (layout.grid) $gridSettings.set(layout.grid);
+    if (layout.environments) setEnvironments(layout.environments);
+    // updateHostUrl refuses anything but http(s), so a bad stored address can't become an iframe source
+    if (record.hostUrl && record.hostUrl !== $hostUrl.get()) updateHostUrl(record.hostUrl);
+
+    $activeWorkspaceId.set(record.id);
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, record.id);
+    clearHistory(); // Undo steps belong to the board they were made on
+  } finally {
+    isApplying = false;
+  }
+  log('Workspace opened', { id: record.id, name: record.name, cardCount: $allCards.get().length });
+}
+
+/**
+ * Writes the active workspace to storage now.
+ */
+async function saveActiveWorkspace(): Promise<void> {
+  window.clearTimeout(saveTimer);
+  saveTimer = undefined;
+
+  const summary = $workspaces.get().find(w => w.id === $activeWorkspaceId.get());
+  if (!summary) return;
+
+  await writeWorkspace({
+    ...summary,
+    hostUrl: $hostUrl.get(),
+    layout: captureLayout(),
+    updatedAt: Date.now()
+  });
+}
+
+function scheduleSave() {
+  if (isApplying) return;
+  window.clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(() => {
+    enqueue(saveActiveWorkspace).catch(err => error('Failed to save workspace', err));
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * Saves any pending change before the active workspace is replaced.
+ */
+async function flushPendingSave(): Promise<void> {
+  if (saveTimer !== undefined) await saveActiveWorkspace();
+}
+
+/**
+ * Turns the pre-workspace localStorage board into a workspace, if there is one.
+ */
+async function migrateLegacyLayout(): Promise<StoredWorkspace | null> {
+  const legacy = localStorage.getItem(LEGACY_LAYOUT_KEY);
+  if (!legacy) return null;
+
+  let record: StoredWorkspace | null = null;
+  try {
+    // Validated again when applied; this only checks there is something worth keeping
+    const { layout } = parseSavedLayout(JSON.parse(legacy));
+    record = { id: createWorkspaceId(), name: 'My workspace', hostUrl: $hostUrl.get(), layout, updatedAt: Date.now() };
+    await writeWorkspace(record);
+    success('Migrated saved board to a workspace', { cardCount: layout.cards.length });
+  } catch (err) {
+    error('Could not migrate the saved board', err);
+    $layoutLoadReport.set({
+      source: 'Saved workspace',
+      outcome: 'failed',
+      message: `Your saved board could not be restored: ${(err as Error).message}`,
+      issues: []
+    });
+  }
+
+  // Only forget the old board once it is safely stored (or known to be unreadable)
+  if (db || !record) localStorage.removeItem(LEGACY_LAYOUT_KEY);
+  return record;
+}
+
+/**
+ * Opens the workspace storage, migrates the old single board, restores the
+ * last used workspace and starts saving changes automatically.
+ * Product Purpose: Ensures user work is preserved even between sessions.
+ */
+export function initializeWorkspaces(): Promise<void> {
+  return enqueue(async () => {
+    try {
+      db = await openDatabase(DB_NAME, DB_VERSION, [WORKSPACE_STORE]);
+    } catch (err) {
+      error('Workspace storage unavailable; changes will not be kept after reload', err);
+    }
+
+    let records = await readAllWorkspaces();
+    if (records.length === 0) {
+      const migrated = await migrateLegacyLayout();
+      const first = migrated ?? {
+        id: createWorkspaceId(),
+        name: 'My workspace',
+        hostUrl: $hostUrl.get(),
+        layout: { ...captureLayout(), cards: createDefaultCards(), connections: [] },
+        updatedAt: Date.now()
+      };
+      if (!migrated) await writeWorkspace(first);
+      records = [first];
+    }
+
+    setWorkspaceList(records);
+    const lastActiveId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    applyWorkspace(records.find(r => r.id === lastActiveId) ?? records[0]);
+
+    // Save whenever the board, its settings or its content source change
+    $allCards.listen(scheduleSave);
+    $allConnections.listen(scheduleSave);
+    $connectionRouting.listen(scheduleSave);
+    $gridSettings.listen(scheduleSave);
+    $hostUrl.listen(scheduleSave);
+    $environments.listen(scheduleSave);
+    window.addEventListener('pagehide', () => {
+      saveActiveWorkspace().catch(err => error('Failed to save workspace on exit', err));
+    });
+
+    success('Workspaces initialized', { count: records.length, storage: db ? 'indexeddb' : 'memory' });
+  });
+}
+
+/**
+ * Creates a workspace and switches to it.
+ * Product Flow: User clicks "New workspace" (or opens a layout file) → a separate board opens, the old one is kept
+ *
+ * Without a layout the new board is empty and inherits the current settings;
+ * without a content source it uses the current one.
+ */
+export function createWorkspace(name: string, layout?: SavedLayout, hostUrl = $hostUrl.get()): Promise<void> {
+  return enqueue(async () => {
+    await flushPendingSave();
+    const record: StoredWorkspace = {
+      id: createWorkspaceId(),
+      name,
+      hostUrl,
+      layout: layout ?? { ...captureLayout(), cards: [], connections: [] },
+      updatedAt: Date.now()
+    };
+    await writeWorkspace(record);
+    setWorkspaceList([...$workspaces.get(), record]);
+    applyWorkspace(record);
+    log('Workspace created', { id: record.id, name });
+  });
+}
+
+/**
+ * Opens another workspace, saving the current one first.
+ */
+export function switchWorkspace(id: string): Promise<void> {
+  return enqueue(async () => {
+    if (id === $activeWorkspaceId.get()) return;
+    await flushPendingSave();
+    const record = await readWorkspace(id);
+    if (!record) {
+      error('switchWorkspace: Workspace not found', { id });
+      return;
+    }
+    applyWorkspace(record);
+  });
+}
+
+/**
+ * Gives a workspace a new name.
+ */
+export function renameWorkspace(id: string, name: string): Promise<void> {
+  return enqueue(async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      error('renameWorkspace: Name is empty, not renaming', { id });
+      return;
+    }
+    if (id === $activeWorkspaceId.get()) await flushPendingSave();
+    const record = await readWorkspace(id);
+    if (!record) {
+      error('renameWorkspace: Workspace not found', { id });
+      return;
+    }
+    await writeWorkspace({ ...record, name: trimmed });
+    setWorkspaceList($workspaces.get().map(w => w.id === id ? { id, name: trimmed } : w));
+    log('Workspace renamed', { id, name: trimmed });
+  });
+}
+
+/**
+ * Copies a workspace and switches to the copy.
+ * Product Flow: User duplicates a board → experiments on the copy while the original stays untouched
+ */
+export function duplicateWorkspace(id: string): Promise<void> {
+  return enqueue(async () => {
+    await flushPendingSave();
+    const original = await readWorkspace(id);
+    if (!original) {
+      error('duplicateWorkspace: Workspace not found', { id });
+      return;
+    }
+    const copy: StoredWorkspace = { ...original, id: createWorkspaceId(), name: `${original.name} copy`, updatedAt: Date.now() };
+    await writeWorkspace(copy);
+    setWorkspaceList([...$workspaces.get(), copy]);
+    applyWorkspace(copy);
+    log('Workspace duplicated', { from: id, to: copy.id });
+  });
+}
+
+/**
+ * Deletes a workspace. The last remaining workspace cannot be deleted.
+ * If the active workspace is deleted, the first remaining one is opened.
+ */
+export function deleteWorkspace(id: string): Promise<void> {
+  return enqueue(async () => {
+    const remaining = $workspaces.get().filter(w => w.id !== id);
+    if (remaining.length === 0) {
+      error('deleteWorkspace: Cannot delete the only workspace', { id });
+      return;
+    }
+
+    if (id === $activeWorkspaceId.get()) {
+      window.clearTimeout(saveTimer); // Pending changes belong to the workspace being deleted
+      saveTimer = undefined;
+      const next = await readWorkspace(remaining[0].id);
+      if (next) applyWorkspace(next);
+    }
+    await removeWorkspaceRecord(id);
+    setWorkspaceList(remaining);
+    log('Workspace deleted', { id });
+  });
+}
+
+/**
+ * Finds where the given scenarios were last placed: on the current board, or
+ * in the most recently saved workspace that contains all of them.
+ * Returns null when no board has every one of them.
+ * Product Context: Importing a diagram reuses a familiar arrangement when there is one.
+ */
+export async function findSavedCardLayouts(cardIds: number[]): Promise<CardLayout[] | null> {
+  const pick = (cards: CardLayout[]) => {
+    const byId = new Map(cards.map(card => [card.id, card]));
+    return cardIds.every(id => byId.has(id)) ? cardIds.map(id => byId.get(id)!) : null;
+  };
+
+  const fromBoard = pick($allCards.get());
+  if (fromBoard) return fromBoard;
+
+  const records = (await readAllWorkspaces()).sort((a, b) => b.updatedAt - a.updatedAt);
+  for (const record of records) {
+    try {
+      const found = pick(parseSavedLayout(record.layout).layout.cards);
+      if (found) return found;
+    } catch {
+      // Unreadable workspaces are reported when opened; just skip them here
+    }
+  }
+  return null;
+}
@@ -3,11 +3,27 @@
  * MAIN APPLICATION TEMPLATE
  */
 
-import { html, nothing } from 'lit-html'; // Import nothing
-import { $allCards, $allConnections, $pendingConnection } from '../state';
+import { html, svg, nothing } from 'lit-html'; // Import nothing
+import { repeat } from 'lit-html/directives/repeat.js';
+import { guard } from 'lit-html/directives/guard.js';
+import { $allCards, $allConnections, $pendingConnection, $marquee, $gridSettings, $snapGuides } from '../state';
+import { $camera } from '../state/camera';
 import { renderHeader } from './header';
 import { renderCard } from './card';
-import { renderAllConnections, getConnectionPointOnCard } from './connection'; 
+import { renderAllConnections, renderArrowMarkers } from './connection';
+import { getConnectionPointOnCard, $connectionViews } from '../state/connection-geometry';
+import { $cardViews } from '../state/card-views';
+import { renderConnectionEditor } from './connection-editor';
+import { renderConnectionLegend } from './legend';
+import { renderSelectionToolbar } from './selection-toolbar';
+import { renderLayoutLoadReport } from './layout-report';
+import { renderRemoteCursors } from './collaboration';
+import { renderSharedBoardBar } from './shared-preview';
+import { renderCommandPalette } from './command-palette';
+import { renderShortcutSettings } from './shortcut-settings';
+import { $sharedBoardPreview } from '../state/share-link';
+import { $announcement } from '../state/accessibility';
+import { $keyboardConnection } from '../state/keyboard-connection';
 import { log, error } from '../utils/logger'; // Import logger
 
 /**
@@ -17,81 +33,148 @@ export function renderApp() {
   const cards = $allCards.get();
   const connections = $allConnections.get();
   const pending = $pendingConnection.get();
-  
-  let pendingLineHtml = nothing; // Use 'nothing' for no output
+  const camera = $camera.get();
+  const marquee = $marquee.get();
+
+  let pendingLineHtml: unknown = nothing; // Use 'nothing' for no output
 
   if (pending) {
     log('RenderApp: Pending connection detected', pending);
-    const fromCardElement = document.querySelector(`[data-card-id="${pending.fromCardId}"]`) as HTMLElement;
-    
-    if (fromCardElement) {
-      log('RenderApp: Found fromCardElement for pending line', { id: fromCardElement.dataset.cardId });
-      const startPoint = getConnectionPointOnCard(fromCardElement, pending.fromSide, 0.5); // Assuming 0.5 for midpoint for now
-      
+    const fromCard = cards.find(card => card.id === pending.fromCardId);
+
+    if (fromCard) {
+      const startPoint = getConnectionPointOnCard(fromCard, pending.fromSide, pending.fromPosition);
+      // Over another card, the line snaps to the edge point it would attach to
+      const targetCard = pending.target && cards.find(card => card.id === pending.target?.cardId);
+      const endPoint = targetCard && pending.target
+        ? getConnectionPointOnCard(targetCard, pending.target.side, pending.target.position)
+        : { x: pending.currentX, y: pending.currentY };
+
       if (startPoint && !isNaN(startPoint.x) && !isNaN(startPoint.y)) {
-        log('RenderApp: Drawing pending line', { 
-            fromX: startPoint.x, fromY: startPoint.y, 
-            toX: pending.currentX, toY: pending.currentY 
+        log('RenderApp: Drawing pending line', {
+            fromX: startPoint.x, fromY: startPoint.y,
+            toX: endPoint.x, toY: endPoint.y
         });
-        pendingLineHtml = html`
+        pendingLineHtml = svg`
           <line
             class="connection-line pending"
             x1="${startPoint.x}"
             y1="${startPoint.y}"
-            x2="${pending.currentX}" 
-            y2="${pending.currentY}"
+            x2="${endPoint.x}"
+            y2="${endPoint.y}"
             stroke-dasharray="5,5"
             marker-end="url(#arrow-head-pending)"
           />
+          ${targetCard ? svg`<circle class="connection-snap-point" cx="${endPoint.x}" cy="${endPoint.y}" r="5" />` : nothing}
         `;
       } else {
         error('RenderApp: Failed to get valid startPoint for pending line', { startPoint, cardId: pending.fromCardId });
       }
     } else {
-      log('RenderApp: Could not find fromCardElement for pending line.', { fromCardId: pending.fromCardId });
-      // This can happen briefly if the card is removed while dragging, or if state updates out of sync.
-      // To be safe, don't draw if the source card element isn't there.
+      log('RenderApp: Could not find source card for pending line.', { fromCardId: pending.fromCardId });
+      // This can happen briefly if the card is removed while dragging.
+      // To be safe, don't draw if the source card isn't there.
     }
   }
 
+  // A keyboard connection is previewed once its target card is picked
+  const keyboardConnection = $keyboardConnection.get();
+  if (!pending && keyboardConnection && keyboardConnection.toCardId !== null) {
+    const fromCard = cards.find(card => card.id === keyboardConnection.fromCardId);
+    const toCard = cards.find(card => card.id === keyboardConnection.toCardId);
+    if (fromCard && toCard) {
+      const startPoint = getConnectionPointOnCard(fromCard, keyboardConnection.fromSide, 0.5);
+      const endPoint = getConnectionPointOnCard(toCard, keyboardConnection.toSide, 0.5);
+      pendingLineHtml = svg`
+        <line
+          class="connection-line pending"
+          x1="${startPoint.x}"
+          y1="${startPoint.y}"
+          x2="${endPoint.x}"
+          y2="${endPoint.y}"
+          stroke-dasharray="5,5"
+          marker-end="url(#arrow-head-pending)"
+        />
+      `;
+    }
+  }
+
+  // Every other announcement gets a trailing space, so repeating a message still changes the text and is read out
+  const announcement = $announcement.get();
+  const announcementText = announcement.message + (announcement.count % 2 ? '\u00a0' : '');
+
+  // The same camera transform is applied to the cards and the connection layer
+  const worldTransform = `translate(${camera.x}px, ${camera.y}px) scale(${camera.zoom})`;
+  const gridSize = $gridSettings.get().size * camera.zoom;
+  const snapGuides = $snapGuides.get();
+  const sharedPreview = $sharedBoardPreview.get();
+
   return html`
-    ${renderHeader()}
-    
-    <svg 
-      id="connections-svg" 
-      style="position: fixed; top: 0; left: 0; width: 100%; height: 100%; pointer-events: none; z-index: 10;"
+    ${sharedPreview ? renderSharedBoardBar(sharedPreview) : renderHeader()}
+
+    <div
+      id="workspace-content"
+      class="workspace-content ${sharedPreview ? 'read-only' : ''}"
+      style="background-size: ${gridSize}px ${gridSize}px; background-position: ${camera.x}px ${camera.y}px;"
     >
-      <defs>
-        <marker
-          id="arrow-head"
-          viewBox="0 0 10 10"
-          refX="8" 
-          refY="5"
-          markerWidth="8"
-          markerHeight="8"
-          orient="auto-start-reverse"
-        >
-          <path d="M 0 0 L 10 5 L 0 10 z" fill="#444" />
-        </marker>
-        <marker
-            id="arrow-head-pending"
-            viewBox="0 0 10 10"
-            refX="8"
-            refY="5"
-            markerWidth="8"
-            markerHeight="8"
-            orient="auto-start-reverse"
-        >
-            <path d="M 0 0 L 10 5 L 0 10 z" fill="rgba(100,100,100,0.7)" />
-        </marker>
-      </defs>
-      
-      ${renderAllConnections(connections, cards)}
-      ${pendingLineHtml}
-    </svg>
-    
-    <div id="workspace-content" class="workspace-content">
-      ${cards.map(card => renderCard(card))}
+      <div class="workspace-world" style="transform: ${worldTransform};">
+        <!-- Keyed by id so removing or reordering cards never moves an iframe to another card (which would reload it),
+             and guarded so only cards whose view changed are redrawn -->
+        ${repeat($cardViews.get(), view => view.card.id, view => guard([view], () => renderCard(view)))}
+        ${marquee ? html`
+          <div
+            class="marquee"
+            style="left: ${marquee.x}px; top: ${marquee.y}px; width: ${marquee.width}px; height: ${marquee.height}px;"
+          ></div>
+        ` : nothing}
+        ${renderRemoteCursors()}
+      </div>
+
+      <svg id="connections-svg" class="connections-layer">
+        <defs>
+          ${renderArrowMarkers(connections)}
+          <marker
+              id="arrow-head-pending"
+              viewBox="0 0 10 10"
+              refX="8"
+              refY="5"
+              markerWidth="8"
+              markerHeight="8"
+              orient="auto-start-reverse"
+          >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="rgba(100,100,100,0.7)" />
+          </marker>
+        </defs>
+
+        <g transform="translate(${camera.x} ${camera.y}) scale(${camera.zoom})">
+          ${renderAllConnections($connectionViews.get())}
+          ${pendingLineHtml}
+          ${snapGuides.map(guide => svg`
+            <line
+              class="snap-guide ${guide.type}"
+              x1="${guide.x1}"
+              y1="${guide.y1}"
+              x2="${guide.x2}"
+              y2="${guide.y2}"
+            />
+          `)}
+        </g>
+      </svg>
+
+      ${renderConnectionLegend(connections)}
     </div>
+
+    ${sharedPreview ? nothing : renderSelectionToolbar()}
+    ${sharedPreview ? nothing : renderConnectionEditor()}
+    ${renderLayoutLoadReport()}
+    ${renderShortcutSettings()}
+    ${renderCommandPalette()}
+
+    <!-- Screen reader support (see state/accessibility.ts and interactions/card-keyboard.ts) -->
+    <div class="sr-only" role="status" aria-live="polite">${announcementText}</div>
+    <p id="card-keyboard-help" class="sr-only">
+      Arrow keys move the card, Shift+arrow keys move it further, Alt+arrow keys go to the nearest card in that direction.
+      C connects it to another card, F2 renames it, Delete removes it.
+    </p>
   `;
-}
\ No newline at end of file
+}
@@ -7,28 +7,59 @@
  * 
  * Product Features:
  * - Draggable handle for repositioning
+ * - Resize handles on every edge and corner
+ * - Remove button (also removes the card's connections)
  * - Connection points (dots) for creating relationships
  * - Iframe display for scenario content
  * - Visual stacking order
+ * - Highlight when selected
+ * - Shows who is moving the card during live collaboration
+ * - Environment badge to load the scenario from another environment
+ * - Compare the scenario against another environment in a linked pair
+ * - Title, status, badges and events reported by the scenario page itself
+ * - Card menu to reload the scenario, navigate it or set its parameters
+ * - Loading spinner, and an overlay with a retry button when loading fails or times out
+ * - Lightweight placeholder with the last known title and status while the card has no iframe
+ * - Focusable and labelled for keyboard and screen reader users (keys in interactions/card-keyboard.ts)
+ * - Title renamed inline on the header, header color accent, tags and owner
+ * - Notes panel with markdown notes and the card's details (see state/card-metadata.ts)
  */
 
 import { html } from 'lit-html';
+import { keyed } from 'lit-html/directives/keyed.js';
+import { ref } from 'lit-html/directives/ref.js';
+import { unsafeHTML } from 'lit-html/directives/unsafe-html.js';
 import { CardLayout } from '../state';
-import { $hostUrl, $activeDraggedCard } from '../state';
+import { EnvironmentSettings } from '../state/environments';
+import { ScenarioReport } from '../state/scenario-bridge';
+import { CardLoadState, isUnhealthy, markCardFailed, markCardLoaded } from '../state/card-loading';
+import { CardView } from '../state/card-views';
+import { $sharedBoardPreview } from '../state/share-link';
+import { SIDE_NAMES } from '../state/accessibility';
+import { CARD_ACCENT_COLORS, CardMetadata } from '../state/card-metadata';
+import { renderMarkdown } from '../utils/markdown';
+import { log } from '../utils/logger';
 
 /**
  * Renders a single scenario card with all interactive elements.
  * Product Purpose: Displays a scenario view that users can organize and connect.
+ * 
+ * Everything shown comes from the card's view (state/card-views.ts), so a
+ * card is only redrawn when its view changes.
  */
-export function renderCard(card: CardLayout) {
-  const hostUrl = $hostUrl.get();
-  const isBeingDragged = $activeDraggedCard.get() === card.id;
-  const isDraggingOther = $activeDraggedCard.get() !== null && !isBeingDragged;
+export function renderCard(view: CardView) {
+  const {
+    card, scenario, title, scenarioTitle, profile, environments, sourceUrl, report, loadState, isMounted, isZoomedOut,
+    isSelected, isBeingDragged, isDraggingOther, isBeingResized, remoteDragger, partnerId, isReadOnly,
+    pickedSide, isConnectTarget, isEditingTitle, notesMode
+  } = view;
+  const attempt = loadState?.attempt ?? 0;
   
   return html`
     <div 
-      class="card ${isBeingDragged ? 'dragging' : ''} ${isDraggingOther ? 'other-dragging' : ''}"
+      class="card ${isBeingDragged ? 'dragging' : ''} ${isDraggingOther ? 'other-dragging' : ''} ${isBeingResized ? 'resizing' : ''} ${isSelected ? 'selected' : ''} ${remoteDragger ? 'remote-dragging' : ''} ${partnerId !== null ? 'compared' : ''} ${isConnectTarget ? 'connect-target' : ''}"
       style="
+        ${remoteDragger ? `--collaborator-color: ${remoteDragger.color};` : ''}
         left: ${card.x}px;
         top: ${card.y}px;
         width: ${card.width}px;
@@ -37,34 +68,349 @@ export function renderCard(card: CardLayout) {
         position: absolute;
       "
       data-card-id="${card.id}"
+      tabindex="0"
+      role="group"
+      aria-roledescription="scenario card"
+      aria-label="${title}, ${profile.name}"
+      aria-describedby="card-keyboard-help"
     >
       <!-- Card header with drag handle -->
-      <div class="card-header">
+      <div class="card-header ${card.color ? 'has-accent' : ''}" style=${card.color ? `--card-accent: ${card.color};` : ''}>
         <div 
           class="drag-handle" 
           data-drag-handle
           title="Drag to reposition this scenario card"
         ></div>
-        <h2>Scenario ${card.id}</h2>
+        ${report?.status ? html`
+          <span class="card-status status-${report.status}" title=${report.statusMessage ?? report.status} role="img" aria-label="Status: ${report.status}"></span>
+        ` : ''}
+        ${isEditingTitle ? renderTitleInput(card.id, card.title ?? '', scenarioTitle) : html`
+          <h2
+            title=${[card.title ? scenarioTitle : '', scenario?.description ?? scenario?.title ?? title, isReadOnly ? '' : 'Double-click to rename'].filter(Boolean).join('\n')}
+            @dblclick=${() => handleStartRename(card.id, isReadOnly)}
+          >${title}</h2>
+        `}
+        ${renderEnvironmentBadge(card.id, profile.id, profile.color, environments, isReadOnly)}
+        ${isReadOnly ? '' : renderCompareControl(card.id, profile.id, environments, partnerId)}
+        <button
+          class="card-notes-toggle ${card.notes ? 'has-notes' : ''}"
+          aria-expanded=${notesMode !== null ? 'true' : 'false'}
+          aria-controls="card-notes-${card.id}"
+          title=${card.notes ? 'Show notes and details' : 'Add notes and details'}
+          @click=${() => handleToggleNotes(card.id)}
+        >✎</button>
+        ${renderCardMenu(card.id, !!report, isReadOnly)}
+        <button
+          class="card-remove-btn"
+          @click=${() => handleRemoveCard(card.id)}
+          title="Remove this card and its connections"
+        >×</button>
+        ${remoteDragger ? html`<span class="card-remote-badge">${remoteDragger.name} is moving this</span>` : ''}
       </div>
       
-      <!-- Scenario content display -->
+      ${report ? renderReportBar(report) : ''}
+      ${renderMetadataBar(card)}
+
+      <!-- Scenario content display (only cards in view get a live iframe) -->
       <div class="card-content">
-        <iframe 
-          src="${hostUrl}?scenario=${card.id}"
-          frameborder="0"
-          title="Scenario ${card.id} preview"
-        ></iframe>
+        ${notesMode ? renderNotesPanel(card, title, notesMode, isReadOnly) : ''}
+        ${isMounted ? html`
+          <!-- A new load attempt gets a new iframe, so reloading works for any page -->
+          ${keyed(attempt, html`
+            <iframe 
+              src="${sourceUrl}"
+              frameborder="0"
+              title="${title} preview (${profile.name})"
+              @load=${() => markCardLoaded(card.id, attempt)}
+              @error=${() => markCardFailed(card.id, attempt, 'The page could not be loaded')}
+            ></iframe>
+          `)}
+          ${loadState ? renderLoadOverlay(card.id, loadState) : ''}
+        ` : renderPlaceholder(title, report, loadState, isZoomedOut)}
       </div>
       
       <!-- Connection points for linking cards -->
       <div class="connection-points">
-        ${renderConnectionDots(card.id)}
+        ${renderConnectionDots(card.id, title, pickedSide)}
       </div>
+      
+      <!-- Edge and corner handles for resizing -->
+      ${renderResizeHandles()}
     </div>
   `;
 }
 
+/**
+ * Renders the environment badge, which doubles as a picker for the card's environment.
+ * Product Purpose: Shows at a glance which environment each card comes from.
+ */
+function renderEnvironmentBadge(cardId: number, profileId: string, color: string, environments: EnvironmentSettings, isReadOnly: boolean) {
+  const { profiles, defaultProfileId } = environments;
+
+  return html`
+    <select
+      class="card-env-badge"
+      style="--env-color: ${color};"
+      title="Environment this scenario is loaded from"
+      aria-label="Environment"
+      ?disabled=${isReadOnly}
+      @change=${(e: Event) => handleEnvironmentChange(cardId, (e.target as HTMLSelectElement).value)}
+    >
+      ${profiles.map(p => html`
+        <option value=${p.id} ?selected=${p.id === profileId}>${p.name}${p.id === defaultProfileId ? ' (default)' : ''}</option>
+      `)}
+    </select>
+  `;
+}
+
+/**
+ * Renders "Compare" (a picker of the other environments), or "Keep this" for a card already in a pair.
+ * Product Purpose: Checking one scenario on two hosts for regressions without setting up two boards.
+ */
+function renderCompareControl(cardId: number, profileId: string, environments: EnvironmentSettings, partnerId: number | null) {
+  if (partnerId !== null) {
+    return html`
+      <button
+        class="card-compare-keep"
+        @click=${() => handleKeepComparisonCard(cardId)}
+        title="End the comparison and keep only this card"
+      >Keep this</button>
+    `;
+  }
+
+  const others = environments.profiles.filter(p => p.id !== profileId);
+  return html`
+    <select
+      class="card-compare"
+      aria-label="Compare with another environment"
+      title=${others.length > 0 ? 'Show this scenario from another environment next to this card' : 'Add a second environment to compare'}
+      ?disabled=${others.length === 0}
+      .value=${''}
+      @change=${(e: Event) => handleCompare(cardId, (e.target as HTMLSelectElement).value)}
+    >
+      <option value="">Compare</option>
+      ${others.map(p => html`<option value=${p.id}>vs ${p.name}</option>`)}
+    </select>
+  `;
+}
+
+/**
+ * Covers the content with a spinner while it loads, or with the reason and a
+ * retry button when it failed or timed out.
+ */
+function renderLoadOverlay(cardId: number, state: CardLoadState) {
+  if (state.status === 'loading') {
+    return html`<div class="card-load-overlay loading" role="status" aria-label="Loading scenario"><span class="card-load-spinner"></span></div>`;
+  }
+  if (!isUnhealthy(state)) return '';
+
+  return html`
+    <div class="card-load-overlay ${state.status}" role="alert">
+      <strong>${state.status === 'timed-out' ? 'Scenario did not load' : 'Scenario failed to load'}</strong>
+      <span>${state.message}</span>
+      <button @click=${() => handleRetry(cardId)}>Retry</button>
+    </div>
+  `;
+}
+
+/**
+ * Stands in for the iframe of a card that is off-screen, waiting for its turn
+ * to load, or too small to read. Shows what was last known about the scenario,
+ * in type large enough to read on a zoomed-out board.
+ */
+function renderPlaceholder(title: string, report: ScenarioReport | null, state: CardLoadState | undefined, isZoomedOut: boolean) {
+  const hint = isUnhealthy(state)
+    ? state?.message
+    : isZoomedOut
+      ? 'Zoom in to see the scenario'
+      : 'Waiting to load…';
+
+  return html`
+    <div class="card-placeholder ${state?.status ?? 'waiting'}">
+      ${report?.status ? html`<span class="card-status status-${report.status}" title=${report.statusMessage ?? report.status}></span>` : ''}
+      <strong class="card-placeholder-title">${title}</strong>
+      <span class="card-placeholder-hint">${hint}</span>
+    </div>
+  `;
+}
+
+/**
+ * Renders the badges and latest event the scenario reported, if any.
+ */
+function renderReportBar(report: ScenarioReport) {
+  const lastEvent = report.events[report.events.length - 1];
+  if (report.badges.length === 0 && !lastEvent) return '';
+
+  return html`
+    <div class="card-report-bar">
+      ${report.badges.map(badge => html`
+        <span class="card-scenario-badge" style=${badge.color ? `--badge-color: ${badge.color};` : ''}>${badge.label}</span>
+      `)}
+      ${lastEvent ? html`
+        <span
+          class="card-scenario-event"
+          title=${report.events.map(e => `${new Date(e.at).toLocaleTimeString()}  ${e.name}`).reverse().join('\n')}
+        >${lastEvent.name}</span>
+      ` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Focuses and selects an input as soon as it appears.
+ */
+function focusOnMount(element?: Element) {
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    element.focus();
+    element.select();
+  }
+}
+
+/**
+ * Renders the title as a text field while the card is being renamed.
+ * Enter or leaving the field saves, Escape cancels; an empty title goes back to the scenario's.
+ */
+function renderTitleInput(cardId: number, customTitle: string, scenarioTitle: string) {
+  return html`
+    <input
+      class="card-title-input"
+      .value=${customTitle}
+      placeholder=${scenarioTitle}
+      aria-label="Card title (leave empty to use the scenario's title)"
+      ${ref(focusOnMount)}
+      @keydown=${(e: KeyboardEvent) => handleTitleKeyDown(e, cardId)}
+      @blur=${(e: FocusEvent) => handleFinishRename(cardId, (e.target as HTMLInputElement).value)}
+    />
+  `;
+}
+
+/**
+ * Renders the card's tags and owner, if it has any.
+ */
+function renderMetadataBar(card: CardLayout) {
+  if (!card.tags && !card.owner) return '';
+
+  return html`
+    <div class="card-meta-bar">
+      ${(card.tags ?? []).map(tag => html`<span class="card-tag">${tag}</span>`)}
+      ${card.owner ? html`<span class="card-owner" title="Owner">${card.owner}</span>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Renders the notes panel over the card's content: the notes (as markdown, or
+ * a text field while editing) and the owner, tags and color of the card.
+ * Product Purpose: Record what a scenario is for and who looks after it.
+ */
+function renderNotesPanel(card: CardLayout, title: string, mode: 'view' | 'edit', isReadOnly: boolean) {
+  const update = (changes: CardMetadata) => handleMetadataChange(card.id, changes);
+
+  return html`
+    <section class="card-notes-panel" id="card-notes-${card.id}" aria-label="Notes and details for ${title}">
+      <div class="card-notes-heading">
+        <h3>Notes</h3>
+        ${isReadOnly ? '' : html`
+          <button @click=${() => handleEditNotes(mode !== 'edit')}>${mode === 'edit' ? 'Done' : 'Edit'}</button>
+        `}
+        <button class="card-notes-close" title="Close notes" aria-label="Close notes" @click=${() => handleToggleNotes(card.id)}>×</button>
+      </div>
+
+      ${mode === 'edit' ? html`
+        <textarea
+          class="card-notes-input"
+          .value=${card.notes ?? ''}
+          placeholder="What is this scenario for? Markdown works: **bold**, - lists, [links](https://…)"
+          aria-label="Notes (markdown)"
+          ${ref(focusOnMount)}
+          @change=${(e: Event) => update({ notes: (e.target as HTMLTextAreaElement).value })}
+          @keydown=${handleNotesKeyDown}
+        ></textarea>
+      ` : card.notes ? html`
+        <div class="card-notes-text">${unsafeHTML(renderMarkdown(card.notes))}</div>
+      ` : html`
+        <p class="card-notes-empty">${isReadOnly ? 'No notes.' : 'No notes yet. Choose Edit to describe what this scenario is for.'}</p>
+      `}
+
+      ${isReadOnly ? '' : html`
+        <div class="card-notes-fields">
+          <label>
+            Owner
+            <input .value=${card.owner ?? ''} placeholder="Person or team" @change=${(e: Event) => update({ owner: (e.target as HTMLInputElement).value })} />
+          </label>
+          <label>
+            Tags
+            <input
+              .value=${(card.tags ?? []).join(', ')}
+              placeholder="checkout, needs review"
+              title="Separate tags with commas"
+              @change=${(e: Event) => handleTagsChange(card.id, (e.target as HTMLInputElement).value)}
+            />
+          </label>
+          <div class="card-color-picker" role="radiogroup" aria-label="Header color">
+            <button
+              class="card-color-swatch none"
+              role="radio"
+              aria-checked=${card.color ? 'false' : 'true'}
+              title="No color"
+              @click=${() => update({ color: undefined })}
+            ></button>
+            ${CARD_ACCENT_COLORS.map(color => html`
+              <button
+                class="card-color-swatch"
+                style="--swatch-color: ${color.value};"
+                role="radio"
+                aria-checked=${card.color === color.value ? 'true' : 'false'}
+                title=${color.name}
+                aria-label=${color.name}
+                @click=${() => update({ color: color.value })}
+              ></button>
+            `)}
+          </div>
+        </div>
+      `}
+    </section>
+  `;
+}
+
+/**
+ * Renders the ⋯ menu with commands for the scenario page.
+ * Navigating and setting parameters need a page that uses the scenario bridge.
+ */
+function renderCardMenu(cardId: number, isBridged: boolean, isReadOnly: boolean) {
+  const bridgeHint = isBridged ? '' : 'This scenario does not use the viewer bridge';
+
+  return html`
+    <details class="card-menu">
+      <summary title="Scenario commands" aria-label="Scenario commands">⋯</summary>
+      <div class="card-menu-items">
+        ${isReadOnly ? '' : html`<button @click=${(e: Event) => handleRenameCommand(e, cardId)}>Rename…</button>`}
+        <button @click=${(e: Event) => handleScenarioCommand(e, cardId, 'reload')}>Reload</button>
+        <button ?disabled=${!isBridged} title=${bridgeHint} @click=${(e: Event) => handleScenarioCommand(e, cardId, 'navigate')}>Navigate…</button>
+        <button ?disabled=${!isBridged} title=${bridgeHint} @click=${(e: Event) => handleScenarioCommand(e, cardId, 'set-params')}>Set parameters…</button>
+      </div>
+    </details>
+  `;
+}
+
+/**
+ * Renders the invisible resize handles along each edge and corner.
+ * Product Purpose: Lets users make a scenario larger when its content needs room.
+ * 
+ * Handle names follow compass directions (n = top edge, se = bottom-right corner).
+ */
+function renderResizeHandles() {
+  const directions = ['n', 'e', 's', 'w', 'ne', 'nw', 'se', 'sw'];
+  
+  return directions.map(direction => html`
+    <div 
+      class="resize-handle resize-${direction}"
+      data-resize-handle="${direction}"
+      title="Drag to resize this scenario card"
+    ></div>
+  `);
+}
+
 /**
  * Renders the connection dots on each side of the card.
  * Product Purpose: Provides attachment points for creating visual relationships
@@ -75,8 +421,10 @@ export function renderCard(card: CardLayout) {
  * - 1: Right center  
  * - 2: Bottom center
  * - 3: Left center
+ * The dots aren't tab stops (C on the focused card picks a side instead),
+ * but screen reader users can still activate them.
  */
-function renderConnectionDots(cardId: number) {
+function renderConnectionDots(cardId: number, title: string, pickedSide: number | null) {
   const positions = [
     { side: 0, style: 'top: 0; left: 50%; transform: translate(-50%, -50%);' },
     { side: 1, style: 'top: 50%; left: 100%; transform: translate(-50%, -50%);' },
@@ -86,11 +434,180 @@ function renderConnectionDots(cardId: number) {
   
   return positions.map(pos => html`
     <div 
-      class="connection-dot"
+      class="connection-dot ${pickedSide === pos.side ? 'keyboard-picked' : ''}"
       style="${pos.style}"
       data-card-id="${cardId}"
       data-side="${pos.side}"
       title="Click and drag to create a connection to another card"
+      role="button"
+      tabindex="-1"
+      aria-label="Connect from the ${SIDE_NAMES[pos.side]} side of ${title}"
+      @click=${(e: MouseEvent) => handleDotActivate(e, cardId, pos.side)}
     ></div>
   `);
-}
\ No newline at end of file
+}
+
+/**
+ * Starts a keyboard connection when a screen reader activates a dot.
+ * Pointer clicks (detail > 0) are left to the drag-to-connect interaction.
+ */
+function handleDotActivate(event: MouseEvent, cardId: number, side: number) {
+  if (event.detail > 0 || $sharedBoardPreview.get()) return;
+  import('../state/keyboard-connection').then(({ startKeyboardConnection }) => {
+    startKeyboardConnection(cardId, side);
+  });
+}
+
+/**
+ * Starts renaming the card when its title is double-clicked.
+ */
+function handleStartRename(cardId: number, isReadOnly: boolean) {
+  if (isReadOnly) return;
+  log('Card title double-clicked for renaming', { cardId });
+  import('../state/card-metadata').then(({ startEditingTitle }) => {
+    startEditingTitle(cardId);
+  });
+}
+
+/**
+ * Starts renaming from the card menu, closing the menu.
+ */
+function handleRenameCommand(event: Event, cardId: number) {
+  (event.target as Element).closest('details')?.removeAttribute('open');
+  handleStartRename(cardId, false);
+}
+
+/**
+ * Enter saves the new title, Escape keeps the old one; focus goes back to the card either way.
+ */
+function handleTitleKeyDown(event: KeyboardEvent, cardId: number) {
+  if (event.key !== 'Enter' && event.key !== 'Escape') return;
+  event.preventDefault();
+  event.stopPropagation(); // Escape would otherwise also clear the selection
+  const input = event.target as HTMLInputElement;
+  const cardElement = input.closest<HTMLElement>('.card');
+  handleFinishRename(cardId, event.key === 'Enter' ? input.value : undefined);
+  cardElement?.focus();
+}
+
+/**
+ * Saves (or with no title, cancels) renaming the card.
+ */
+function handleFinishRename(cardId: number, title?: string) {
+  import('../state/card-metadata').then(({ finishEditingTitle }) => {
+    finishEditingTitle(cardId, title);
+  });
+}
+
+/**
+ * Opens or closes the card's notes panel.
+ */
+function handleToggleNotes(cardId: number) {
+  log('Card notes toggled', { cardId });
+  import('../state/card-metadata').then(({ toggleNotes }) => {
+    toggleNotes(cardId);
+  });
+}
+
+/**
+ * Switches the notes panel between reading and editing.
+ */
+function handleEditNotes(isEditing: boolean) {
+  import('../state/card-metadata').then(({ setEditingNotes }) => {
+    setEditingNotes(isEditing);
+  });
+}
+
+/**
+ * Escape or Ctrl+Enter in the notes saves them and shows them formatted.
+ */
+function handleNotesKeyDown(event: KeyboardEvent) {
+  if (event.key !== 'Escape' && !(event.key === 'Enter' && (event.ctrlKey || event.metaKey))) return;
+  event.preventDefault();
+  event.stopPropagation();
+  (event.target as HTMLTextAreaElement).blur(); // Blurring fires change, which saves
+  handleEditNotes(false);
+}
+
+/**
+ * Saves a change made in the notes panel.
+ */
+function handleMetadataChange(cardId: number, changes: CardMetadata) {
+  log('Card details changed', { cardId, fields: Object.keys(changes) });
+  import('../state/card-metadata').then(({ updateCardMetadata }) => {
+    updateCardMetadata(cardId, changes);
+  });
+}
+
+/**
+ * Saves tags typed as a comma-separated list.
+ */
+function handleTagsChange(cardId: number, text: string) {
+  import('../state/card-metadata').then(({ parseTags, updateCardMetadata }) => {
+    updateCardMetadata(cardId, { tags: parseTags(text) });
+  });
+}
+
+/**
+ * Switches the card to the environment picked on its badge.
+ */
+function handleEnvironmentChange(cardId: number, profileId: string) {
+  log('Card environment picked', { cardId, profileId });
+  import('../state/environments').then(({ setCardEnvironment }) => {
+    setCardEnvironment(cardId, profileId);
+  });
+}
+
+/**
+ * Loads the card's scenario again from its overlay.
+ */
+function handleRetry(cardId: number) {
+  log('Retry card load clicked', { cardId });
+  import('../state/card-loading').then(({ reloadCard }) => {
+    reloadCard(cardId);
+  });
+}
+
+/**
+ * Runs a card menu command and closes the menu.
+ */
+function handleScenarioCommand(event: Event, cardId: number, command: 'reload' | 'navigate' | 'set-params') {
+  (event.target as Element).closest('details')?.removeAttribute('open');
+  log('Scenario command picked', { cardId, command });
+  import('../interactions/scenario-bridge').then(({ reloadScenario, promptNavigateScenario, promptScenarioParams }) => {
+    if (command === 'reload') reloadScenario(cardId);
+    else if (command === 'navigate') promptNavigateScenario(cardId);
+    else promptScenarioParams(cardId);
+  });
+}
+
+/**
+ * Creates a comparison pair with the environment picked in "Compare".
+ */
+function handleCompare(cardId: number, profileId: string) {
+  if (!profileId) return;
+  log('Compare picked', { cardId, profileId });
+  import('../state/comparison').then(({ compareCard }) => {
+    compareCard(cardId, profileId);
+  });
+}
+
+/**
+ * Turns a comparison pair back into this single card.
+ */
+function handleKeepComparisonCard(cardId: number) {
+  log('Keep comparison card clicked', { cardId });
+  import('../state/comparison').then(({ keepComparisonCard }) => {
+    keepComparisonCard(cardId);
+  });
+}
+
+/**
+ * Removes the card when its × button is clicked.
+ */
+function handleRemoveCard(cardId: number) {
+  log('Remove card clicked', { cardId });
+  import('../interactions/scenarios').then(({ removeScenarioCard }) => {
+    removeScenarioCard(cardId);
+  });
+}
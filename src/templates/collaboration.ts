@@ -0,0 +1,135 @@
+/**
+ * COLLABORATION CONTROLS AND PRESENCE
+ *
+ * The header controls for sharing a board and the other people's cursors
+ * drawn on top of it.
+ *
+ * Product Features:
+ * - Share this board / join a board by room id
+ * - Connection status, room id (click to copy) and who else is here
+ * - Named, colored cursors of everyone else in the room
+ */
+
+import { html, nothing } from 'lit-html';
+import { $collaboration, $collaborators, $collaboratorName, $relayUrl, CollaborationStatus } from '../state/collaboration';
+import { log } from '../utils/logger';
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Live',
+  reconnecting: 'Offline, reconnecting…'
+};
+
+/**
+ * Renders the collaboration controls shown in the header.
+ * Product Purpose: One place to start, follow and end a shared session.
+ */
+export function renderCollaborationControls() {
+  const session = $collaboration.get();
+
+  if (!session) {
+    return html`
+      <div class="collab-controls">
+        <details class="collab-menu">
+          <summary title="Edit this board together with others">Collaborate</summary>
+          <div class="collab-menu-items" @click=${closeMenu}>
+            <button @click=${shareCurrentBoard}>Share this board</button>
+            <button @click=${joinSharedBoard}>Join a board…</button>
+            <button @click=${changeName}>Your name: ${$collaboratorName.get()}</button>
+            <button @click=${changeRelayUrl} title=${$relayUrl.get()}>Relay server…</button>
+          </div>
+        </details>
+      </div>
+    `;
+  }
+
+  const collaborators = $collaborators.get();
+  return html`
+    <div class="collab-controls active">
+      <span class="collab-status ${session.status}" title=${session.relayUrl}>${STATUS_LABELS[session.status]}</span>
+      <button class="collab-room" @click=${() => copyRoomId(session.roomId)} title="Copy the room id to invite others">
+        Room ${session.roomId}
+      </button>
+      <div class="collab-people">
+        ${collaborators.map(person => html`
+          <span class="collab-avatar" style="background: ${person.color};" title=${person.name}>
+            ${person.name.charAt(0).toUpperCase()}
+          </span>
+        `)}
+      </div>
+      <button class="collab-leave" @click=${leaveSharedBoard} title="Stop sharing; the board stays as a normal workspace">Leave</button>
+    </div>
+  `;
+}
+
+/**
+ * Renders everyone else's cursor, in world coordinates (inside the camera transform).
+ */
+export function renderRemoteCursors() {
+  if (!$collaboration.get()) return nothing;
+
+  return $collaborators.get().map(person => person.cursor ? html`
+    <div class="remote-cursor" style="left: ${person.cursor.x}px; top: ${person.cursor.y}px; --collaborator-color: ${person.color};">
+      <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden="true">
+        <path d="M 1 1 L 1 14 L 5 10 L 8 15 L 10 14 L 7 9 L 13 9 Z" />
+      </svg>
+      <span class="remote-cursor-name">${person.name}</span>
+    </div>
+  ` : nothing);
+}
+
+function closeMenu(event: Event) {
+  (event.currentTarget as HTMLElement).closest('details')?.removeAttribute('open');
+}
+
+function shareCurrentBoard() {
+  log('Share board clicked');
+  import('../state/collaboration').then(({ shareBoard }) => {
+    const roomId = shareBoard();
+    copyRoomId(roomId);
+  });
+}
+
+function joinSharedBoard() {
+  const roomId = prompt('Room id to join (the board opens as a new workspace):');
+  if (!roomId?.trim()) return;
+  log('Join board requested', { roomId });
+  import('../state/collaboration').then(({ joinBoard }) => {
+    joinBoard(roomId);
+  });
+}
+
+function leaveSharedBoard() {
+  log('Leave shared board clicked');
+  import('../state/collaboration').then(({ leaveSession }) => {
+    leaveSession();
+  });
+}
+
+function changeName() {
+  const name = prompt('Name shown to others:', $collaboratorName.get());
+  if (!name?.trim()) return;
+  import('../state/collaboration').then(({ setCollaboratorName }) => {
+    setCollaboratorName(name);
+  });
+}
+
+function changeRelayUrl() {
+  const url = prompt('Relay server address (start it with "npm run relay"):', $relayUrl.get());
+  if (!url || url === $relayUrl.get()) return;
+  import('../state/collaboration').then(({ setRelayUrl }) => {
+    setRelayUrl(url);
+  });
+}
+
+function copyRoomId(roomId: string) {
+  // The clipboard API is missing outside secure contexts (e.g. a LAN address over http)
+  if (!navigator.clipboard) {
+    prompt('Share this room id with others:', roomId);
+    return;
+  }
+  navigator.clipboard.writeText(roomId).then(
+    () => log('Room id copied', { roomId }),
+    () => prompt('Share this room id with others:', roomId)
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * COMMAND PALETTE
+ *
+ * The Ctrl+K search box over every workspace action, shown above the board.
+ * Typing filters the list, the arrow keys move the highlight and Enter runs
+ * the highlighted action (or asks for its next value).
+ */
+
+import { html, nothing } from 'lit-html';
+import { $commandPalette, getPaletteArgument, getPaletteItems } from '../state/command-palette';
+import { formatShortcut, getAction, getActionShortcuts } from '../state/actions';
+
+/**
+ * Renders the palette when it is open.
+ * Product Purpose: Everything the workspace can do is a few keystrokes away, even without the mouse.
+ */
+export function renderCommandPalette() {
+  const state = $commandPalette.get();
+  if (!state) return nothing;
+
+  const action = state.actionId ? getAction(state.actionId) : undefined;
+  const argument = getPaletteArgument(state);
+  const items = getPaletteItems(state);
+  const activeIndex = Math.min(state.activeIndex, items.length - 1);
+
+  return html`
+    <div class="command-palette-backdrop" @pointerdown=${handleBackdropPointerDown}>
+      <div class="command-palette" role="dialog" aria-label="Command palette">
+        ${action ? html`<div class="command-palette-step">${action.title}</div>` : nothing}
+        <input
+          class="command-palette-input"
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant=${activeIndex >= 0 ? `command-palette-item-${activeIndex}` : ''}
+          placeholder=${argument?.prompt ?? 'Type a command…'}
+          .value=${state.query}
+          @input=${(e: Event) => changeQuery((e.target as HTMLInputElement).value)}
+          @keydown=${handleKeyDown}
+          @blur=${handleBlur}
+        />
+        <ul class="command-palette-list" id="command-palette-list" role="listbox">
+          ${items.length === 0 ? html`<li class="command-palette-empty">Nothing found</li>` : nothing}
+          ${items.map((item, index) => html`
+            <li
+              id="command-palette-item-${index}"
+              class="command-palette-item ${index === activeIndex ? 'active' : ''}"
+              role="option"
+              aria-selected=${index === activeIndex ? 'true' : 'false'}
+              @pointerdown=${(e: PointerEvent) => e.preventDefault()}
+              @click=${() => pickItem(index)}
+            >
+              <span class="command-palette-label">${item.label}</span>
+              ${item.detail ? html`<span class="command-palette-detail">${item.detail}</span>` : nothing}
+              ${state.actionId ? nothing : renderShortcut(item.id)}
+              ${item.hint ? html`<span class="command-palette-hint">${item.hint}</span>` : nothing}
+            </li>
+          `)}
+        </ul>
+      </div>
+    </div>
+  `;
+}
+
+function renderShortcut(actionId: string) {
+  const [shortcut] = getActionShortcuts(actionId);
+  return shortcut ? html`<kbd class="command-palette-shortcut">${formatShortcut(shortcut)}</kbd>` : nothing;
+}
+
+// Palette handlers
+
+function handleKeyDown(event: KeyboardEvent) {
+  const input = event.target as HTMLInputElement;
+  if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+    event.preventDefault();
+    const delta = event.key === 'ArrowDown' ? 1 : -1;
+    import('../state/command-palette').then(({ movePaletteHighlight }) => movePaletteHighlight(delta));
+  } else if (event.key === 'Enter') {
+    event.preventDefault();
+    pickItem();
+  } else if (event.key === 'Escape') {
+    event.preventDefault();
+    event.stopPropagation(); // Don't also clear the selection
+    close();
+  } else if (event.key === 'Backspace' && input.value === '') {
+    event.preventDefault();
+    import('../state/command-palette').then(({ stepBackPalette }) => stepBackPalette());
+  }
+}
+
+function changeQuery(query: string) {
+  import('../state/command-palette').then(({ setPaletteQuery }) => setPaletteQuery(query));
+}
+
+function pickItem(index?: number) {
+  import('../state/command-palette').then(({ pickPaletteItem }) => pickPaletteItem(index));
+}
+
+function close() {
+  import('../state/command-palette').then(({ closeCommandPalette }) => closeCommandPalette());
+}
+
+function handleBackdropPointerDown(event: PointerEvent) {
+  if (event.target === event.currentTarget) close();
+}
+
+/**
+ * Closes the palette when focus moves elsewhere (e.g. Tab), but not while
+ * the page itself loses focus.
+ */
+function handleBlur(event: FocusEvent) {
+  if (!document.hasFocus()) return;
+  if (event.relatedTarget instanceof Node && (event.target as HTMLElement).closest('.command-palette')?.contains(event.relatedTarget)) return;
+  close();
+}
@@ -0,0 +1,160 @@
+/**
+ * CONNECTION EDITOR PANEL
+ *
+ * A small floating panel for editing the selected connection: what it means
+ * (kind), what it says (label), how it looks (color, dashes, arrowheads) and
+ * how it is routed between the cards.
+ *
+ * Product Features:
+ * - Opens when a connection line is clicked
+ * - Every change is applied immediately and can be undone
+ * - Delete button as a discoverable alternative to double-clicking the line
+ */
+
+import { html, nothing } from 'lit-html';
+import {
+  $allConnections,
+  $selectedConnectionId,
+  Connection,
+  ConnectionKind,
+  ConnectionRouting,
+  ConnectionStyle,
+  CONNECTION_KIND_LABELS,
+  CONNECTION_ROUTING_LABELS
+} from '../state';
+import { resolveConnectionStyle } from './connection';
+import { log } from '../utils/logger';
+
+/** Kinds a line can be given by hand; "comparison" only comes from the Compare action */
+const USER_KINDS = (Object.keys(CONNECTION_KIND_LABELS) as ConnectionKind[]).filter(kind => kind !== 'comparison');
+
+/**
+ * Renders the editor for the selected connection, if any.
+ * Product Purpose: Lets teams explain relationships instead of drawing anonymous arrows.
+ */
+export function renderConnectionEditor() {
+  const selectedId = $selectedConnectionId.get();
+  const connection = selectedId ? $allConnections.get().find(c => c.id === selectedId) : undefined;
+  if (!connection) return nothing;
+
+  const style = resolveConnectionStyle(connection);
+
+  return html`
+    <div class="connection-editor" role="dialog" aria-label="Edit connection">
+      <div class="connection-editor-header">
+        <span>Connection ${connection.fromCardId} → ${connection.toCardId}</span>
+        <button class="connection-editor-close" @click=${closeEditor} title="Close">×</button>
+      </div>
+
+      <label>
+        Label
+        <input
+          type="text"
+          .value=${connection.label ?? ''}
+          placeholder=${connection.kind ? CONNECTION_KIND_LABELS[connection.kind] : 'No label'}
+          @change=${(e: Event) => {
+            const label = (e.target as HTMLInputElement).value.trim();
+            applyChanges(connection, { label: label || undefined });
+          }}
+        />
+      </label>
+
+      ${connection.kind === 'comparison' ? html`
+        <p class="connection-editor-note">Links a comparison pair. Deleting it leaves two separate cards.</p>
+      ` : html`
+        <label>
+          Kind
+          <select
+            @change=${(e: Event) => {
+              const kind = (e.target as HTMLSelectElement).value as ConnectionKind | '';
+              applyChanges(connection, { kind: kind || undefined });
+            }}
+          >
+            <option value="" ?selected=${!connection.kind}>(none)</option>
+            ${USER_KINDS.map(kind => html`
+              <option value=${kind} ?selected=${connection.kind === kind}>${CONNECTION_KIND_LABELS[kind]}</option>
+            `)}
+          </select>
+        </label>
+      `}
+
+      <label>
+        Color
+        <input
+          type="color"
+          .value=${style.color}
+          @change=${(e: Event) => applyStyle(connection, { color: (e.target as HTMLInputElement).value })}
+        />
+      </label>
+
+      <label class="connection-editor-inline">
+        <input
+          type="checkbox"
+          .checked=${style.dashed}
+          @change=${(e: Event) => applyStyle(connection, { dashed: (e.target as HTMLInputElement).checked })}
+        />
+        Dashed
+      </label>
+
+      <label>
+        Arrowheads
+        <select
+          @change=${(e: Event) => applyStyle(connection, {
+            arrowheads: (e.target as HTMLSelectElement).value as ConnectionStyle['arrowheads']
+          })}
+        >
+          <option value="none" ?selected=${style.arrowheads === 'none'}>None</option>
+          <option value="end" ?selected=${style.arrowheads === 'end'}>At target</option>
+          <option value="both" ?selected=${style.arrowheads === 'both'}>Both ends</option>
+        </select>
+      </label>
+
+      <label>
+        Routing
+        <select
+          @change=${(e: Event) => {
+            const routing = (e.target as HTMLSelectElement).value as ConnectionRouting | '';
+            applyChanges(connection, { routing: routing || undefined });
+          }}
+        >
+          <option value="" ?selected=${!connection.routing}>Workspace default</option>
+          ${(Object.keys(CONNECTION_ROUTING_LABELS) as ConnectionRouting[]).map(routing => html`
+            <option value=${routing} ?selected=${connection.routing === routing}>${CONNECTION_ROUTING_LABELS[routing]}</option>
+          `)}
+        </select>
+      </label>
+
+      <div class="connection-editor-actions">
+        <button @click=${() => resetStyle(connection)} title="Use the default look for this kind">Reset style</button>
+        <button class="danger" @click=${() => deleteConnection(connection.id)}>Delete</button>
+      </div>
+    </div>
+  `;
+}
+
+function closeEditor() {
+  $selectedConnectionId.set(null);
+}
+
+function applyChanges(connection: Connection, changes: Partial<Pick<Connection, 'label' | 'kind' | 'style' | 'routing'>>) {
+  log('Connection editor change', { connectionId: connection.id, changes });
+  import('../state').then(({ updateConnection }) => {
+    updateConnection(connection.id, changes);
+  });
+}
+
+function applyStyle(connection: Connection, styleChanges: ConnectionStyle) {
+  applyChanges(connection, { style: { ...connection.style, ...styleChanges } });
+}
+
+function resetStyle(connection: Connection) {
+  applyChanges(connection, { style: undefined });
+}
+
+function deleteConnection(connectionId: string) {
+  log('Connection editor delete clicked', { connectionId });
+  import('../state').then(({ removeConnection }) => {
+    removeConnection(connectionId);
+    $selectedConnectionId.set(null);
+  });
+}
@@ -1,111 +1,201 @@
 // src/templates/connection.ts
 /**
  * CONNECTION LINE VISUALIZATION
+ * 
+ * Each connection can carry a label, a kind ("depends on", "navigates to",
+ * "variant of") and style overrides (color, dashes, arrowheads).
+ * Lines are drawn as SVG paths routed straight, curved or orthogonally
+ * around other cards; where they go is worked out in state/connection-geometry.ts.
+ * Lines can be focused: Enter opens the editor, Delete removes the line.
+ * Lines that touch a side at the same spot are spread out (see utils/anchors.ts),
+ * and either end can be dragged elsewhere by its handle.
  */
 
-import { html, nothing } from 'lit-html'; // Import nothing
-import { Connection, CardLayout } from '../state';
+import { svg, nothing } from 'lit-html'; // svg`` so lines are created in the SVG namespace
+import { repeat } from 'lit-html/directives/repeat.js';
+import { guard } from 'lit-html/directives/guard.js';
+import {
+  Connection,
+  ConnectionKind,
+  ConnectionStyle,
+  CONNECTION_KIND_LABELS,
+  $selectedConnectionId
+} from '../state';
+import { $sharedBoardPreview } from '../state/share-link';
+import { announce, describeConnection } from '../state/accessibility';
+import { ConnectionView } from '../state/connection-geometry';
+import { RoutePoint } from '../utils/routing';
 import { log, error } from '../utils/logger';
 
+/**
+ * Default look of each connection kind; connections without a kind use `default`.
+ */
+const KIND_STYLES: Record<ConnectionKind | 'default', Required<ConnectionStyle>> = {
+  'default': { color: '#444444', dashed: false, arrowheads: 'end' },
+  'depends-on': { color: '#444444', dashed: false, arrowheads: 'end' },
+  'navigates-to': { color: '#4361ee', dashed: false, arrowheads: 'end' },
+  'variant-of': { color: '#7b2cbf', dashed: true, arrowheads: 'both' },
+  'comparison': { color: '#0c8599', dashed: false, arrowheads: 'none' }
+};
+
+/**
+ * Combines a connection's own style overrides with the defaults of its kind.
+ */
+export function resolveConnectionStyle(connection: Pick<Connection, 'kind' | 'style'>): Required<ConnectionStyle> {
+  const base = KIND_STYLES[connection.kind ?? 'default'] ?? KIND_STYLES.default;
+  const overrides = connection.style ?? {};
+  return {
+    color: overrides.color ?? base.color,
+    dashed: overrides.dashed ?? base.dashed,
+    arrowheads: overrides.arrowheads ?? base.arrowheads
+  };
+}
+
+/**
+ * Builds a stable marker id for an arrowhead color.
+ */
+function getArrowMarkerId(color: string): string {
+  return `arrow-head-${color.replace(/[^a-zA-Z0-9]/g, '')}`;
+}
+
+/**
+ * Renders one arrowhead marker per line color in use.
+ * SVG markers can't inherit the line's color, so each color needs its own.
+ */
+export function renderArrowMarkers(connections: Connection[]) {
+  const colors = new Set(connections.map(conn => resolveConnectionStyle(conn).color));
+  return Array.from(colors).map(color => svg`
+    <marker
+      id="${getArrowMarkerId(color)}"
+      viewBox="0 0 10 10"
+      refX="8"
+      refY="5"
+      markerWidth="8"
+      markerHeight="8"
+      orient="auto-start-reverse"
+    >
+      <path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" />
+    </marker>
+  `);
+}
+
 /**
  * Renders all connection lines in the workspace.
+ * Lines are drawn in world coordinates; the surrounding SVG group applies the camera.
+ * Keyed and guarded, so only lines whose view changed are redrawn.
  */
-export function renderAllConnections(connections: Connection[], cardsData?: CardLayout[]) {
-  if (!connections || connections.length === 0) return nothing;
-  return connections.map(conn => renderSingleConnection(conn, cardsData));
+export function renderAllConnections(views: ConnectionView[]) {
+  if (views.length === 0) return nothing;
+  return repeat(views, view => view.connection.id, view => guard([view], () => renderSingleConnection(view)));
 }
 
 /**
- * Renders a single connection line between two cards.
+ * Renders a single connection line between two cards, with its optional label.
  */
-function renderSingleConnection(connection: Connection, allCardsData?: CardLayout[]) {
-  const fromCardElement = getCardElement(connection.fromCardId);
-  const toCardElement = getCardElement(connection.toCardId);
-  
-  if (!fromCardElement || !toCardElement) {
-    // log('Could not render connection, card element(s) not found', { connectionId: connection.id, fromFound: !!fromCardElement, toFound: !!toCardElement });
-    return nothing; 
-  }
-  
-  const fromPoint = getConnectionPointOnCard(fromCardElement, connection.fromSide, connection.fromPosition);
-  const toPoint = getConnectionPointOnCard(toCardElement, connection.toSide, connection.toPosition);
-  
-  if (isNaN(fromPoint.x) || isNaN(fromPoint.y) || isNaN(toPoint.x) || isNaN(toPoint.y)) {
-    error('Failed to render connection due to NaN coordinates', {connectionId: connection.id, fromPoint, toPoint });
-    return nothing;
-  }
+function renderSingleConnection(view: ConnectionView) {
+  const { connection, fromPoint, toPoint, route, description, isSelected, isMovingEnd, isReadOnly } = view;
   // log('Rendering connection', { id: connection.id, from: fromPoint, to: toPoint });
 
-  return html`
-    <line
-      class="connection-line"
-      x1="${fromPoint.x}"
-      y1="${fromPoint.y}"
-      x2="${toPoint.x}"
-      y2="${toPoint.y}"
-      marker-end="url(#arrow-head)"
+  const style = resolveConnectionStyle(connection);
+  const markerUrl = `url(#${getArrowMarkerId(style.color)})`;
+  const label = connection.label ?? (connection.kind ? CONNECTION_KIND_LABELS[connection.kind] : '');
+
+  return svg`
+    <g
+      class="connection ${isSelected ? 'selected' : ''} ${isMovingEnd ? 'moving-end' : ''}"
       data-connection-id="${connection.id}"
+      tabindex="0"
+      role="button"
+      aria-label="Connection: ${description}"
+      @keydown=${(e: KeyboardEvent) => handleConnectionKeyDown(e, connection.id)}
+      @click=${(e: MouseEvent) => {
+          e.stopPropagation();
+          handleConnectionClick(connection.id);
+      }}
       @dblclick=${(e: MouseEvent) => {
           e.stopPropagation(); 
           handleConnectionDoubleClick(connection.id);
       }}
-      title="Double-click to remove this connection"
-    />
+    >
+      <title>Click to edit (then drag an end to move it), double-click to remove this connection</title>
+      <!-- Wide transparent stroke makes thin lines easy to click -->
+      <path class="connection-hit-area" d="${route.d}" />
+      <path
+        class="connection-line"
+        d="${route.d}"
+        style="stroke: ${style.color};"
+        stroke-dasharray="${style.dashed ? '8,5' : 'none'}"
+        marker-end="${style.arrowheads === 'none' ? 'none' : markerUrl}"
+        marker-start="${style.arrowheads === 'both' ? markerUrl : 'none'}"
+      />
+      ${label ? svg`
+        <text class="connection-label" x="${route.midpoint.x}" y="${route.midpoint.y}" fill="${style.color}">${label}</text>
+      ` : nothing}
+      <!-- Only the selected line gets handles, so they never cover the dots new lines start from -->
+      ${isReadOnly || !(isSelected || isMovingEnd) ? nothing : svg`
+        ${renderEndHandle(connection.id, 'from', fromPoint)}
+        ${renderEndHandle(connection.id, 'to', toPoint)}
+      `}
+    </g>
   `;
 }
 
 /**
- * Gets the DOM element for a card by its ID.
+ * Renders the handle for dragging one end of a line to another spot, side or card.
+ * Dragging is handled in interactions/connections.ts.
  */
-function getCardElement(cardId: number): HTMLElement | null {
-  // Query within the specific workspace content area if possible, though global query should also work for unique IDs
-  const workspaceContent = document.getElementById('workspace-content');
-  if (workspaceContent) {
-      return workspaceContent.querySelector(`.card[data-card-id="${cardId}"]`);
-  }
-  return document.querySelector(`.card[data-card-id="${cardId}"]`);
+function renderEndHandle(connectionId: string, end: 'from' | 'to', point: RoutePoint) {
+  return svg`
+    <circle
+      class="connection-end-handle"
+      cx="${point.x}"
+      cy="${point.y}"
+      r="5"
+      data-connection-id="${connectionId}"
+      data-end="${end}"
+    ><title>Drag to attach this end somewhere else</title></circle>
+  `;
 }
 
 /**
- * Calculates the exact viewport pixel coordinates for a connection point on a card's edge.
+ * Opens the editor for a connection when it is clicked.
  */
-export function getConnectionPointOnCard(cardElement: HTMLElement, side: number, positionRatio: number) {
-  if (!cardElement) {
-    error('getConnectionPointOnCard: cardElement is null');
-    return { x: NaN, y: NaN };
-  }
-  const rect = cardElement.getBoundingClientRect(); // Viewport-relative coordinates
-  
-  let x = 0, y = 0;
+function handleConnectionClick(connectionId: string) {
+  if ($sharedBoardPreview.get()) return; // Shared link previews are read-only
+  log('Connection clicked for editing', { connectionId });
+  $selectedConnectionId.set(connectionId);
+}
 
-  switch (side) {
-    case 0: // Top
-      x = rect.left + rect.width * positionRatio;
-      y = rect.top;
-      break;
-    case 1: // Right
-      x = rect.right;
-      y = rect.top + rect.height * positionRatio;
-      break;
-    case 2: // Bottom
-      x = rect.left + rect.width * positionRatio;
-      y = rect.bottom;
-      break;
-    case 3: // Left
-      x = rect.left;
-      y = rect.top + rect.height * positionRatio;
-      break;
-    default: 
-      error('Invalid side provided to getConnectionPointOnCard', { side, cardId: cardElement.dataset.cardId });
-      return { x: rect.left, y: rect.top }; // Fallback, but ideally should not happen
+/**
+ * Enter or Space opens the editor of a focused connection, Delete removes it.
+ * Handled here so the global Delete shortcut doesn't also remove the selected cards.
+ */
+function handleConnectionKeyDown(event: KeyboardEvent, connectionId: string) {
+  if (event.key === 'Enter' || event.key === ' ') {
+    event.preventDefault();
+    handleConnectionClick(connectionId);
+  } else if (event.key === 'Delete' || event.key === 'Backspace') {
+    event.preventDefault();
+    event.stopPropagation();
+    if ($sharedBoardPreview.get()) return;
+    log('Focused connection removed with the keyboard', { connectionId });
+    import('../state').then(({ $allConnections, removeConnection }) => {
+      const connection = $allConnections.get().find(c => c.id === connectionId);
+      if (!connection) return;
+      const description = describeConnection(connection);
+      removeConnection(connectionId);
+      announce(`Removed connection: ${description}`);
+    }).catch(err => {
+      error('Failed to dynamically import removeConnection for keyboard removal', err);
+    });
   }
-  return { x, y };
 }
 
 /**
  * Handles connection deletion when double-clicked.
  */
 function handleConnectionDoubleClick(connectionId: string) {
+  if ($sharedBoardPreview.get()) return;
   log('Connection double-clicked for removal', { connectionId });
   // Dynamic import for state modification functions
   import('../state').then(({ removeConnection }) => {
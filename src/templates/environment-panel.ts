@@ -0,0 +1,158 @@
+/**
+ * ENVIRONMENT SETTINGS PANEL
+ *
+ * A dropdown under the header's environment display for managing the
+ * workspace's environment profiles: name, base URL and badge color of each,
+ * which one is the default, and adding or removing profiles.
+ */
+
+import { html, nothing } from 'lit-html';
+import { $allCards } from '../state';
+import {
+  $environments,
+  $isEnvironmentPanelOpen,
+  DEFAULT_ENVIRONMENT_COLOR,
+  EnvironmentProfile,
+  addEnvironmentProfile,
+  isValidBaseUrl,
+  removeEnvironmentProfile,
+  setDefaultEnvironmentProfile,
+  updateEnvironmentProfile
+} from '../state/environments';
+import { log } from '../utils/logger';
+
+/**
+ * Renders the environment settings when the panel is open.
+ * Product Purpose: Replaces the old one-URL prompt with named, reusable content sources.
+ */
+export function renderEnvironmentPanel() {
+  if (!$isEnvironmentPanelOpen.get()) return nothing;
+
+  const { profiles, defaultProfileId } = $environments.get();
+  const cards = $allCards.get();
+
+  return html`
+    <div class="environment-panel" role="dialog" aria-label="Environments">
+      <div class="environment-panel-header">
+        <span>Environments</span>
+        <button class="environment-panel-close" @click=${closePanel} title="Close">×</button>
+      </div>
+
+      <table class="environment-table">
+        <thead>
+          <tr><th>Default</th><th>Color</th><th>Name</th><th>Base URL</th><th></th></tr>
+        </thead>
+        <tbody>
+          ${profiles.map(profile => renderProfileRow(profile, profile.id === defaultProfileId, cards.filter(c => c.profileId === profile.id).length))}
+        </tbody>
+      </table>
+
+      <form class="environment-add" @submit=${handleAddProfile}>
+        <input name="name" placeholder="Name, e.g. staging" required />
+        <input
+          name="baseUrl"
+          type="url"
+          placeholder="https://staging.example.com/scenarios"
+          required
+          @input=${(e: Event) => (e.target as HTMLInputElement).setCustomValidity('')}
+        />
+        <button type="submit">Add environment</button>
+      </form>
+
+      <p class="environment-panel-note">
+        Cards use the default unless their badge picks another environment.
+        The scenario list (Add Scenario) comes from the default environment.
+      </p>
+    </div>
+  `;
+}
+
+function renderProfileRow(profile: EnvironmentProfile, isDefault: boolean, overrideCount: number) {
+  return html`
+    <tr>
+      <td>
+        <input
+          type="radio"
+          name="default-environment"
+          aria-label="Use ${profile.name} by default"
+          .checked=${isDefault}
+          @change=${() => setDefaultEnvironmentProfile(profile.id)}
+        />
+      </td>
+      <td>
+        <input
+          type="color"
+          aria-label="${profile.name} color"
+          .value=${toColorInputValue(profile.color)}
+          @change=${(e: Event) => updateEnvironmentProfile(profile.id, { color: (e.target as HTMLInputElement).value })}
+        />
+      </td>
+      <td>
+        <input
+          aria-label="Environment name"
+          .value=${profile.name}
+          @change=${(e: Event) => commitField(e, profile, 'name')}
+        />
+      </td>
+      <td>
+        <input
+          type="url"
+          aria-label="${profile.name} base URL"
+          .value=${profile.baseUrl}
+          @change=${(e: Event) => commitField(e, profile, 'baseUrl')}
+        />
+      </td>
+      <td>
+        <button
+          class="environment-remove"
+          ?disabled=${isDefault}
+          @click=${() => removeProfile(profile, overrideCount)}
+          title=${isDefault ? 'Make another environment the default before removing this one' : `Remove ${profile.name}`}
+        >×</button>
+      </td>
+    </tr>
+  `;
+}
+
+/**
+ * Applies an edited name or URL, or puts the old value back if it isn't valid.
+ */
+function commitField(event: Event, profile: EnvironmentProfile, field: 'name' | 'baseUrl') {
+  const input = event.target as HTMLInputElement;
+  const value = input.value.trim();
+  const isValid = field === 'name' ? value.length > 0 : isValidBaseUrl(value);
+  if (!isValid) {
+    log('Environment edit rejected', { id: profile.id, field, value });
+    input.value = profile[field];
+    return;
+  }
+  updateEnvironmentProfile(profile.id, { [field]: value });
+}
+
+function handleAddProfile(event: Event) {
+  event.preventDefault();
+  const form = event.target as HTMLFormElement;
+  const name = (form.elements.namedItem('name') as HTMLInputElement).value;
+  const baseUrl = (form.elements.namedItem('baseUrl') as HTMLInputElement).value;
+  if (!isValidBaseUrl(baseUrl)) {
+    (form.elements.namedItem('baseUrl') as HTMLInputElement).setCustomValidity('Enter an http:// or https:// address');
+    form.reportValidity();
+    return;
+  }
+  addEnvironmentProfile(name, baseUrl);
+  form.reset();
+}
+
+function removeProfile(profile: EnvironmentProfile, overrideCount: number) {
+  if (overrideCount > 0 && !confirm(`${overrideCount} card(s) use "${profile.name}". They will switch to the default environment.`)) return;
+  removeEnvironmentProfile(profile.id);
+}
+
+/** Color inputs only accept #rrggbb; anything else shows as gray */
+function toColorInputValue(color: string): string {
+  return /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_ENVIRONMENT_COLOR;
+}
+
+function closePanel() {
+  $isEnvironmentPanelOpen.set(false);
+}
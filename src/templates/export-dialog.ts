@@ -0,0 +1,114 @@
+/**
+ * EXPORT DIAGRAM DIALOG
+ *
+ * A dropdown under the Export button for choosing how the board is exported:
+ * as an image (SVG/PNG) or as Mermaid/DOT text, which part of the board, PNG
+ * resolution and whether to draw the grid.
+ */
+
+import { html, nothing } from 'lit-html';
+import { $selectedCardIds } from '../state';
+import {
+  $exportOptions,
+  $isExportDialogOpen,
+  ExportArea,
+  ExportFormat,
+  ExportOptions,
+  EXPORT_AREA_LABELS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_SCALE_OPTIONS,
+  updateExportOptions
+} from '../state/export';
+import { log } from '../utils/logger';
+
+/**
+ * Renders the export options when the dialog is open.
+ * Product Purpose: Gets a board into slides and docs without screenshots.
+ */
+export function renderExportDialog() {
+  if (!$isExportDialogOpen.get()) return nothing;
+
+  const options = $exportOptions.get();
+  const hasSelection = $selectedCardIds.get().length > 0;
+  const isImage = options.format === 'svg' || options.format === 'png';
+
+  return html`
+    <div class="export-dialog" role="dialog" aria-label="Export diagram">
+      <div class="export-dialog-header">
+        <span>Export</span>
+        <button class="export-dialog-close" @click=${closeDialog} title="Close">×</button>
+      </div>
+
+      <label>
+        Format
+        <select @change=${(e: Event) => changeOptions({ format: (e.target as HTMLSelectElement).value as ExportFormat })}>
+          ${(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => html`
+            <option value=${format} ?selected=${options.format === format}>${EXPORT_FORMAT_LABELS[format]}</option>
+          `)}
+        </select>
+      </label>
+
+      <label>
+        Area
+        <select @change=${(e: Event) => changeOptions({ area: (e.target as HTMLSelectElement).value as ExportArea })}>
+          ${(Object.keys(EXPORT_AREA_LABELS) as ExportArea[]).map(area => html`
+            <option
+              value=${area}
+              ?selected=${options.area === area}
+              ?disabled=${area === 'selection' && !hasSelection}
+            >${EXPORT_AREA_LABELS[area]}</option>
+          `)}
+        </select>
+      </label>
+
+      ${options.format === 'png' ? html`
+        <label>
+          Scale
+          <select @change=${(e: Event) => changeOptions({ scale: Number((e.target as HTMLSelectElement).value) })}>
+            ${EXPORT_SCALE_OPTIONS.map(scale => html`
+              <option value=${scale} ?selected=${options.scale === scale}>${scale}×</option>
+            `)}
+          </select>
+        </label>
+      ` : nothing}
+
+      ${isImage ? html`
+        <label class="export-dialog-inline">
+          <input
+            type="checkbox"
+            .checked=${options.includeGrid}
+            @change=${(e: Event) => changeOptions({ includeGrid: (e.target as HTMLInputElement).checked })}
+          />
+          Background grid
+        </label>
+
+        <p class="export-dialog-note">Scenario content can't be captured, so cards appear as titled boxes.</p>
+      ` : html`
+        <p class="export-dialog-note">Scenario titles and connection labels are kept; open the file with Load Layout to bring it back.</p>
+      `}
+
+      <button
+        class="export-dialog-submit"
+        ?disabled=${options.area === 'selection' && !hasSelection}
+        @click=${runExport}
+      >
+        Download ${EXPORT_FORMAT_LABELS[options.format]}
+      </button>
+    </div>
+  `;
+}
+
+function changeOptions(changes: Partial<ExportOptions>) {
+  updateExportOptions(changes);
+}
+
+function closeDialog() {
+  $isExportDialogOpen.set(false);
+}
+
+function runExport() {
+  log('Export download clicked', $exportOptions.get());
+  import('../interactions/export').then(({ exportDiagram }) => {
+    exportDiagram();
+  });
+}
@@ -7,12 +7,47 @@
  * Product Functions:
  * - Layout persistence for team collaboration
  * - Quick workspace reset
- * - Content source management
+ * - Environment profiles (named content sources)
+ * - Undo/redo of workspace changes
+ * - Canvas zoom controls
+ * - Adding scenarios from the content source's catalog
+ * - Workspace-wide connection routing
+ * - Snap grid and alignment guide settings
+ * - Graph-aware auto-arrange
+ * - Switching between named workspaces
+ * - Exporting the board as an SVG or PNG image
+ * - Sharing the board for live collaboration
+ * - Copying a link that contains the whole board
+ * - How many cards failed to load, and reloading them all
+ * - Opening the command palette
+ *
+ * Buttons run workspace actions by id, the same ones shortcuts and the
+ * command palette run.
  */
 
 import { html } from 'lit-html';
-import { $hostUrl } from '../state';
-import { log } from '../utils/logger';
+import {
+  $allCards,
+  $hostUrl,
+  $connectionRouting,
+  $gridSettings,
+  ConnectionRouting,
+  GridSettings,
+  CONNECTION_ROUTING_LABELS,
+  GRID_SIZE_OPTIONS,
+  getCardScenarioId
+} from '../state';
+import { $undoStack, $redoStack } from '../state/history';
+import { $camera } from '../state/camera';
+import { $workspaces, $activeWorkspaceId } from '../state/workspaces';
+import { renderScenarioPicker } from './scenario-picker';
+import { renderExportDialog } from './export-dialog';
+import { renderCollaborationControls } from './collaboration';
+import { renderEnvironmentPanel } from './environment-panel';
+import { $environments } from '../state/environments';
+import { runAction, describeShortcut } from '../state/actions';
+import { $mountedCardIds, averageLoadDuration, getCardLoadState, isUnhealthy } from '../state/card-loading';
+import { getScenarioInfo } from '../state/catalog';
 
 /**
  * Renders the application header with all control buttons.
@@ -20,54 +55,212 @@ import { log } from '../utils/logger';
  */
 export function renderHeader() {
   const hostUrl = $hostUrl.get();
+  const undoStack = $undoStack.get();
+  const redoStack = $redoStack.get();
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+  const zoomPercent = Math.round($camera.get().zoom * 100);
+  const grid = $gridSettings.get();
+  const workspaces = $workspaces.get();
+  const activeWorkspaceId = $activeWorkspaceId.get();
+  const environments = $environments.get();
+  const defaultProfile = environments.profiles.find(p => p.id === environments.defaultProfileId);
   
   return html`
     <header class="app-header">
       <h1>Scenario Viewer</h1>
+      <button
+        class="command-palette-btn"
+        @click=${() => runAction('palette.open')}
+        title=${`Search every action${describeShortcut('palette.open')}`}
+      >
+        Commands
+      </button>
       
-      <!-- Content source display and edit -->
+      <!-- Workspace switcher and management -->
+      <div class="workspace-controls">
+        <select aria-label="Workspace" title="Switch workspace" @change=${(e: Event) => runAction('workspace.switch', [(e.target as HTMLSelectElement).value])}>
+          ${workspaces.map(workspace => html`
+            <option value=${workspace.id} ?selected=${workspace.id === activeWorkspaceId}>${workspace.name}</option>
+          `)}
+        </select>
+        <details class="workspace-menu">
+          <summary title="Manage workspaces">⋯</summary>
+          <div class="workspace-menu-items" @click=${closeWorkspaceMenu}>
+            <button @click=${() => runAction('workspace.new')}>New workspace…</button>
+            <button @click=${() => runAction('workspace.rename')} ?disabled=${!activeWorkspaceId}>Rename…</button>
+            <button @click=${() => runAction('workspace.duplicate')} ?disabled=${!activeWorkspaceId}>Duplicate</button>
+            <button class="danger" @click=${() => runAction('workspace.delete')} ?disabled=${workspaces.length <= 1}>Delete…</button>
+          </div>
+        </details>
+      </div>
+      
+      <!-- Live collaboration -->
+      ${renderCollaborationControls()}
+      
+      <!-- Default environment display and environment settings -->
       <div class="host-container">
-        <span class="host-label">Content Source:</span>
-        <span class="host-value">${hostUrl}</span>
+        <span class="host-label">Environment:</span>
+        <span class="environment-swatch" style="background: ${defaultProfile?.color ?? 'transparent'};"></span>
+        <span class="host-value" title=${hostUrl}>${defaultProfile?.name ?? 'default'}</span>
+        <span class="host-url">${hostUrl}</span>
         <button 
           class="edit-host-btn"
-          @click=${editHostUrl}
-          title="Change where scenario content is loaded from"
+          @click=${() => runAction('environment.manage')}
+          title="Manage the environments scenario content is loaded from"
+        >
+          Environments
+        </button>
+        ${renderEnvironmentPanel()}
+      </div>
+      
+      <!-- Card load health -->
+      ${renderLoadHealth()}
+      
+      <!-- Undo/redo controls -->
+      <div class="history-controls">
+        <button 
+          class="undo-btn"
+          ?disabled=${!nextUndo}
+          @click=${() => runAction('history.undo')}
+          title=${nextUndo ? `Undo ${nextUndo.label}${describeShortcut('history.undo')}` : 'Nothing to undo'}
+        >
+          Undo
+        </button>
+        <button 
+          class="redo-btn"
+          ?disabled=${!nextRedo}
+          @click=${() => runAction('history.redo')}
+          title=${nextRedo ? `Redo ${nextRedo.label}${describeShortcut('history.redo')}` : 'Nothing to redo'}
         >
-          Edit
+          Redo
+        </button>
+      </div>
+      
+      <!-- Canvas zoom controls -->
+      <div class="zoom-controls">
+        <button class="zoom-out-btn" @click=${() => runAction('view.zoom-out')} title=${`Zoom out${describeShortcut('view.zoom-out')}`}>−</button>
+        <button class="zoom-reset-btn" @click=${() => runAction('view.zoom-reset')} title=${`Reset zoom to 100%${describeShortcut('view.zoom-reset')}`}>
+          ${zoomPercent}%
+        </button>
+        <button class="zoom-in-btn" @click=${() => runAction('view.zoom-in')} title=${`Zoom in${describeShortcut('view.zoom-in')}`}>+</button>
+        <button class="zoom-fit-btn" @click=${() => runAction('view.zoom-fit')} title=${`Show all cards${describeShortcut('view.zoom-fit')}`}>Fit</button>
+        <button class="zoom-selection-btn" @click=${() => runAction('view.zoom-selection')} title=${`Zoom to the selected card${describeShortcut('view.zoom-selection')}`}>
+          Selection
         </button>
       </div>
       
+      <!-- Workspace connection routing -->
+      <label class="routing-control" title="How connection lines are drawn (individual connections can override this)">
+        Lines
+        <select @change=${handleRoutingChange}>
+          ${(Object.keys(CONNECTION_ROUTING_LABELS) as ConnectionRouting[]).map(routing => html`
+            <option value=${routing} ?selected=${$connectionRouting.get() === routing}>${CONNECTION_ROUTING_LABELS[routing]}</option>
+          `)}
+        </select>
+      </label>
+      
+      <!-- Snap grid and guides (hold Alt while dragging to bypass) -->
+      <div class="snap-controls" title="Hold Alt while dragging to temporarily turn snapping off">
+        <label>
+          <input
+            type="checkbox"
+            .checked=${grid.snapToGrid}
+            @change=${(e: Event) => changeGridSettings({ snapToGrid: (e.target as HTMLInputElement).checked })}
+          />
+          Snap
+        </label>
+        <select
+          aria-label="Grid size"
+          @change=${(e: Event) => changeGridSettings({ size: Number((e.target as HTMLSelectElement).value) })}
+        >
+          ${GRID_SIZE_OPTIONS.map(size => html`
+            <option value=${size} ?selected=${grid.size === size}>${size}px</option>
+          `)}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${grid.guides}
+            @change=${(e: Event) => changeGridSettings({ guides: (e.target as HTMLInputElement).checked })}
+          />
+          Guides
+        </label>
+      </div>
+      
       <!-- Layout management controls -->
       <div class="layout-controls">
+        <div class="add-scenario-container">
+          <button 
+            class="add-scenario-btn"
+            @click=${() => runAction('scenario.browse')}
+            title="Add another scenario from the content source"
+          >
+            Add Scenario
+          </button>
+          ${renderScenarioPicker()}
+        </div>
+        <div class="arrange-controls">
+          <button
+            class="arrange-btn"
+            @click=${() => runAction('layout.arrange-lr')}
+            title="Arrange connected cards in a left-to-right flow"
+          >
+            Arrange →
+          </button>
+          <button
+            class="arrange-btn"
+            @click=${() => runAction('layout.arrange-tb')}
+            title="Arrange connected cards in a top-to-bottom flow"
+          >
+            ↓
+          </button>
+        </div>
         <button 
           class="reset-layout-btn"
-          @click=${resetToDefaultLayout}
+          @click=${() => runAction('layout.reset')}
           title="Arrange all cards in a clean grid"
         >
           Reset Layout
         </button>
         <button 
           class="load-layout-btn"
-          @click=${triggerLoadLayout}
-          title="Load a previously saved arrangement"
+          @click=${() => runAction('layout.load')}
+          title=${`Open a saved arrangement (.json) or a Mermaid/DOT diagram as a new workspace${describeShortcut('layout.load')}`}
         >
           Load Layout
         </button>
         <button 
           class="save-layout-btn"
-          @click=${saveCurrentLayout}
-          title="Save current arrangement for future use"
+          @click=${() => runAction('layout.save')}
+          title=${`Save current arrangement for future use${describeShortcut('layout.save')}`}
         >
           Save Layout
         </button>
+        <button 
+          class="copy-link-btn"
+          @click=${() => runAction('layout.copy-link')}
+          title="Copy a link that opens this board (cards, connections and content source)"
+        >
+          Copy Link
+        </button>
+        <div class="export-container">
+          <button 
+            class="export-btn"
+            @click=${() => runAction('export.open')}
+            title="Download the board as an SVG or PNG image"
+          >
+            Export
+          </button>
+          ${renderExportDialog()}
+        </div>
       </div>
       
       <!-- Hidden file input for loading layouts -->
       <input 
         type="file" 
         id="layout-file-input"
-        accept=".json"
+        accept=".json,.mmd,.mermaid,.dot,.gv"
         style="display: none;"
         @change=${handleLayoutFileSelected}
       />
@@ -75,34 +268,67 @@ export function renderHeader() {
   `;
 }
 
-// Header control handlers - these functions trigger actions when buttons are clicked
+/**
+ * Renders how many cards are loading or failed, with a "Reload all" button.
+ * Product Purpose: A content source that is down shows up in one place instead of as broken frames.
+ */
+function renderLoadHealth() {
+  const cards = $allCards.get();
+  if (cards.length === 0) return '';
 
-function editHostUrl() {
-    log('Edit host URL clicked');
-    const currentUrl = $hostUrl.get();
-    const newUrl = prompt('Enter the URL where scenario content is hosted:', currentUrl);
-    
-    if (newUrl && newUrl !== currentUrl) {
-      log('Host URL changing', { from: currentUrl, to: newUrl });
-      import('../state').then(({ updateHostUrl }) => {
-        updateHostUrl(newUrl);
-      });
-    } else {
-      log('Host URL edit cancelled');
-    }
-  }
-  
+  const entries = cards.map(card => ({ card, state: getCardLoadState(card) }));
+  const unhealthy = entries.filter(({ state }) => isUnhealthy(state));
+  const loadingCount = entries.filter(({ state }) => state?.status === 'loading').length;
+  const loadedCount = entries.filter(({ state }) => state?.status === 'loaded').length;
+  const averages = entries
+    .map(({ state }) => state ? averageLoadDuration(state) : null)
+    .filter((ms): ms is number => ms !== null);
+  const averageMs = averages.length ? Math.round(averages.reduce((sum, ms) => sum + ms, 0) / averages.length) : null;
 
-  function resetToDefaultLayout() {
-    log('Reset layout button clicked');
-    import('../interactions/layout').then(({ resetLayout }) => {
-      resetLayout();
-    });
-  }
-  
+  const status = unhealthy.length > 0 ? 'unhealthy' : loadingCount > 0 ? 'loading' : 'healthy';
+  const text = unhealthy.length > 0
+    ? `${unhealthy.length} ${unhealthy.length === 1 ? 'card' : 'cards'} not loading`
+    : loadingCount > 0
+      ? `Loading ${loadingCount} of ${cards.length}`
+      : loadedCount < cards.length
+        ? `${loadedCount} of ${cards.length} loaded`
+        : `All ${cards.length} loaded`;
+  const details = unhealthy.length > 0
+    ? unhealthy.map(({ card, state }) => {
+      const scenarioId = getCardScenarioId(card);
+      return `${getScenarioInfo(scenarioId)?.title ?? `Scenario ${scenarioId}`}: ${state?.message ?? state?.status}`;
+    }).join('\n')
+    : [
+      averageMs !== null ? `Average load time ${averageMs} ms` : '',
+      // Off-screen cards only load once they are shown
+      `${$mountedCardIds.get().length} of ${cards.length} cards live in view`
+    ].filter(Boolean).join('\n');
 
-function triggerLoadLayout() {
-  document.getElementById('layout-file-input')?.click();
+  return html`
+    <div class="load-health">
+      <span class="load-health-status ${status}" title=${details} role="status">${text}</span>
+      <button @click=${() => runAction('scenario.reload-all')} title="Load every card's scenario again">Reload all</button>
+    </div>
+  `;
+}
+
+// Header control handlers - most buttons run workspace actions (see interactions/actions.ts)
+
+function closeWorkspaceMenu(event: Event) {
+  (event.currentTarget as HTMLElement).closest('details')?.removeAttribute('open');
+}
+
+function changeGridSettings(changes: Partial<GridSettings>) {
+  import('../state').then(({ updateGridSettings }) => {
+    updateGridSettings(changes);
+  });
+}
+
+function handleRoutingChange(event: Event) {
+  const routing = (event.target as HTMLSelectElement).value as ConnectionRouting;
+  import('../state').then(({ setConnectionRouting }) => {
+    setConnectionRouting(routing);
+  });
 }
 
 function handleLayoutFileSelected(event: Event) {
@@ -110,14 +336,14 @@ function handleLayoutFileSelected(event: Event) {
   const file = input.files?.[0];
   
   if (file) {
-    import('../interactions/layout').then(({ loadLayoutFromFile }) => {
-      loadLayoutFromFile(file);
+    import('../interactions/layout').then(({ loadLayoutFromFile, importDiagramFromFile }) => {
+      // JSON is a saved layout; anything else is treated as Mermaid or DOT text
+      if (file.name.toLowerCase().endsWith('.json')) {
+        loadLayoutFromFile(file);
+      } else {
+        importDiagramFromFile(file);
+      }
     });
   }
+  input.value = ''; // Allow picking the same file again
 }
-
-function saveCurrentLayout() {
-  import('../interactions/layout').then(({ saveLayoutToFile }) => {
-    saveLayoutToFile();
-  });
-}
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * LAYOUT LOAD REPORT
+ *
+ * A dismissible panel shown after loading a layout that had problems. It lists
+ * every card or connection that was skipped or fixed, and why, so users can
+ * repair the file instead of guessing what went wrong.
+ */
+
+import { html, nothing } from 'lit-html';
+import { $layoutLoadReport } from '../state';
+import { log } from '../utils/logger';
+
+/**
+ * Renders the report for the last problematic layout load, if any.
+ * Product Purpose: Broken files degrade gracefully and explain themselves.
+ */
+export function renderLayoutLoadReport() {
+  const report = $layoutLoadReport.get();
+  if (!report) return nothing;
+
+  return html`
+    <div class="layout-report ${report.outcome}" role="alert" aria-label="Layout load report">
+      <div class="layout-report-header">
+        <span>${report.outcome === 'failed' ? 'Could not load' : 'Loaded with problems'}: ${report.source}</span>
+        <button class="layout-report-close" @click=${dismissReport} title="Dismiss">×</button>
+      </div>
+      <p class="layout-report-message">${report.message}</p>
+      ${report.issues.length > 0 ? html`
+        <ul class="layout-report-issues">
+          ${report.issues.map(issue => html`
+            <li class=${issue.action}>
+              <span class="layout-report-action">${issue.action}</span>
+              <code>${issue.path}</code> ${issue.problem}
+            </li>
+          `)}
+        </ul>
+      ` : nothing}
+    </div>
+  `;
+}
+
+function dismissReport() {
+  log('Layout load report dismissed');
+  import('../interactions/layout').then(({ dismissLayoutLoadReport }) => {
+    dismissLayoutLoadReport();
+  });
+}
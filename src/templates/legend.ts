@@ -0,0 +1,43 @@
+/**
+ * CONNECTION LEGEND
+ *
+ * A small overlay that explains the connection kinds currently on the board,
+ * drawn with each kind's default line style.
+ */
+
+import { html, nothing } from 'lit-html';
+import { Connection, ConnectionKind, CONNECTION_KIND_LABELS } from '../state';
+import { resolveConnectionStyle } from './connection';
+
+/**
+ * Renders the legend for the connection kinds in use (nothing if none are typed).
+ * Product Purpose: Makes a board readable by someone who didn't draw it.
+ */
+export function renderConnectionLegend(connections: Connection[]) {
+  const kindsInUse = (Object.keys(CONNECTION_KIND_LABELS) as ConnectionKind[])
+    .filter(kind => connections.some(conn => conn.kind === kind));
+
+  if (kindsInUse.length === 0) return nothing;
+
+  return html`
+    <div class="connection-legend" aria-label="Connection legend">
+      <div class="connection-legend-title">Connections</div>
+      ${kindsInUse.map(kind => {
+        const style = resolveConnectionStyle({ kind });
+        return html`
+          <div class="connection-legend-item">
+            <svg width="36" height="10" aria-hidden="true">
+              <line
+                x1="2" y1="5" x2="34" y2="5"
+                stroke="${style.color}"
+                stroke-width="2"
+                stroke-dasharray="${style.dashed ? '6,4' : 'none'}"
+              />
+            </svg>
+            <span>${CONNECTION_KIND_LABELS[kind]}</span>
+          </div>
+        `;
+      })}
+    </div>
+  `;
+}
@@ -0,0 +1,65 @@
+/**
+ * ADD SCENARIO PICKER
+ *
+ * A dropdown listing every scenario the content source offers, so users can
+ * put more scenarios on the board than the six defaults.
+ *
+ * Product Features:
+ * - Lists titles and descriptions from the content source's manifest
+ * - Scenarios already on the board are shown but can't be added twice
+ * - Indicates when the built-in defaults are used because no manifest was found
+ */
+
+import { html, nothing } from 'lit-html';
+import { $allCards } from '../state';
+import { $scenarioCatalog, $catalogSource, $isScenarioPickerOpen } from '../state/catalog';
+import { log } from '../utils/logger';
+
+/**
+ * Renders the "Add scenario" dropdown when it is open.
+ * Product Purpose: Lets teams discover and add any scenario their host serves.
+ */
+export function renderScenarioPicker() {
+  if (!$isScenarioPickerOpen.get()) return nothing;
+
+  const catalog = $scenarioCatalog.get();
+  const onBoard = new Set($allCards.get().map(card => card.id));
+
+  return html`
+    <div class="scenario-picker" role="dialog" aria-label="Add scenario">
+      <div class="scenario-picker-header">
+        <span>Add scenario</span>
+        <button class="scenario-picker-close" @click=${closePicker} title="Close">×</button>
+      </div>
+      ${$catalogSource.get() === 'defaults' ? html`
+        <p class="scenario-picker-note">No scenarios.json found at the content source; showing default scenarios.</p>
+      ` : nothing}
+      <ul class="scenario-picker-list">
+        ${catalog.map(scenario => html`
+          <li>
+            <button
+              class="scenario-picker-item"
+              ?disabled=${onBoard.has(scenario.id)}
+              @click=${() => addScenario(scenario.id)}
+              title=${onBoard.has(scenario.id) ? 'Already on the workspace' : `Add ${scenario.title}`}
+            >
+              <span class="scenario-picker-title">${scenario.title}</span>
+              ${scenario.description ? html`<span class="scenario-picker-description">${scenario.description}</span>` : nothing}
+            </button>
+          </li>
+        `)}
+      </ul>
+    </div>
+  `;
+}
+
+function closePicker() {
+  $isScenarioPickerOpen.set(false);
+}
+
+function addScenario(scenarioId: number) {
+  log('Scenario picked from catalog', { scenarioId });
+  import('../interactions/scenarios').then(({ addScenarioCard }) => {
+    addScenarioCard(scenarioId);
+  });
+}
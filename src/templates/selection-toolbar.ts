@@ -0,0 +1,70 @@
+/**
+ * SELECTION TOOLBAR
+ *
+ * Bulk actions for the selected cards: bring to front, align and delete.
+ * Appears whenever at least one card is selected.
+ */
+
+import { html, nothing } from 'lit-html';
+import { $selectedCardIds, CardAlignment } from '../state';
+import { log } from '../utils/logger';
+
+/** Alignment buttons in display order */
+const ALIGNMENTS: Array<{ alignment: CardAlignment; label: string; title: string }> = [
+  { alignment: 'left', label: '⇤', title: 'Align left edges' },
+  { alignment: 'center', label: '↔', title: 'Align horizontal centers' },
+  { alignment: 'right', label: '⇥', title: 'Align right edges' },
+  { alignment: 'top', label: '⤒', title: 'Align top edges' },
+  { alignment: 'middle', label: '↕', title: 'Align vertical centers' },
+  { alignment: 'bottom', label: '⤓', title: 'Align bottom edges' }
+];
+
+/**
+ * Renders the toolbar for the current selection (nothing if no card is selected).
+ * Product Purpose: Lets teams rearrange a cluster of scenarios in one action.
+ */
+export function renderSelectionToolbar() {
+  const selectedIds = $selectedCardIds.get();
+  if (selectedIds.length === 0) return nothing;
+
+  const canAlign = selectedIds.length >= 2;
+
+  return html`
+    <div class="selection-toolbar" role="toolbar" aria-label="Selected cards">
+      <span class="selection-count">${selectedIds.length} selected</span>
+      <button @click=${bringSelectionToFront} title="Bring selected cards to front">To front</button>
+      ${ALIGNMENTS.map(({ alignment, label, title }) => html`
+        <button
+          class="align-btn"
+          ?disabled=${!canAlign}
+          @click=${() => alignSelection(alignment)}
+          title=${canAlign ? title : 'Select at least two cards to align'}
+        >${label}</button>
+      `)}
+      <button class="danger" @click=${deleteSelection} title="Remove selected cards and their connections (Delete)">
+        Delete
+      </button>
+    </div>
+  `;
+}
+
+function bringSelectionToFront() {
+  log('Bring selection to front clicked');
+  import('../state').then(({ bringCardsToFront }) => {
+    bringCardsToFront($selectedCardIds.get());
+  });
+}
+
+function alignSelection(alignment: CardAlignment) {
+  log('Align selection clicked', { alignment });
+  import('../state').then(({ alignCards }) => {
+    alignCards($selectedCardIds.get(), alignment);
+  });
+}
+
+function deleteSelection() {
+  log('Delete selection clicked');
+  import('../state').then(({ removeCards }) => {
+    removeCards($selectedCardIds.get());
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * SHARED BOARD PREVIEW BAR
+ *
+ * Replaces the header while a board opened from a shared link is previewed.
+ * The preview is read-only; the bar explains that and offers the two ways out.
+ *
+ * Product Features:
+ * - Shows the shared board's name, size and content source
+ * - Import as a new workspace, or close the preview and return to your boards
+ */
+
+import { html } from 'lit-html';
+import { SharedBoard } from '../state/share-link';
+import { error, log } from '../utils/logger';
+
+/**
+ * Renders the bar for the board being previewed.
+ */
+export function renderSharedBoardBar(board: SharedBoard) {
+  const cardCount = board.layout.cards.length;
+  const connectionCount = board.layout.connections.length;
+
+  return html`
+    <header class="app-header shared-preview-bar">
+      <h1>Scenario Viewer</h1>
+      <div class="shared-preview-info">
+        <span class="shared-preview-badge">Read-only preview</span>
+        <strong>${board.name}</strong>
+        <span class="shared-preview-details">
+          ${cardCount} ${cardCount === 1 ? 'card' : 'cards'}, ${connectionCount} ${connectionCount === 1 ? 'connection' : 'connections'}
+          ${board.hostUrl ? html` · content from ${board.hostUrl}` : ''}
+        </span>
+      </div>
+      <div class="shared-preview-actions">
+        <button class="shared-preview-import" @click=${importBoard} title="Add this board to your workspaces so you can edit it">
+          Import as new workspace
+        </button>
+        <button @click=${closePreview} title="Discard the preview and open your own workspaces">Close preview</button>
+      </div>
+    </header>
+  `;
+}
+
+function importBoard() {
+  log('Import shared board clicked');
+  import('../interactions/share-link').then(({ importSharedBoard }) => importSharedBoard())
+    .catch(err => error('Failed to import the shared board', err));
+}
+
+function closePreview() {
+  log('Close shared board preview clicked');
+  import('../interactions/share-link').then(({ closeSharedBoardPreview }) => closeSharedBoardPreview())
+    .catch(err => error('Failed to close the shared board preview', err));
+}
@@ -0,0 +1,97 @@
+/**
+ * KEYBOARD SHORTCUT SETTINGS
+ *
+ * A dialog listing every action that can have a shortcut, grouped by
+ * category, where shortcuts are recorded, cleared or reset to the defaults.
+ */
+
+import { html, nothing } from 'lit-html';
+import {
+  $isShortcutSettingsOpen,
+  $recordingShortcutFor,
+  $shortcutOverrides,
+  WorkspaceAction,
+  formatShortcut,
+  getActionShortcuts,
+  getActions
+} from '../state/actions';
+
+/**
+ * Renders the shortcut settings when they are open.
+ * Product Purpose: Teams can keep the keys they know from other tools.
+ */
+export function renderShortcutSettings() {
+  if (!$isShortcutSettingsOpen.get()) return nothing;
+
+  // Actions that ask for values are only run from the palette
+  const bindable = getActions().filter(action => !action.args?.length);
+  const categories = Array.from(new Set(bindable.map(action => action.category)));
+  const hasOverrides = Object.keys($shortcutOverrides.get()).length > 0;
+
+  return html`
+    <div class="shortcut-settings" role="dialog" aria-label="Keyboard shortcuts" @keydown=${handleKeyDown}>
+      <div class="shortcut-settings-header">
+        <span>Keyboard shortcuts</span>
+        <button class="shortcut-settings-close" @click=${close} title="Close">×</button>
+      </div>
+      <div class="shortcut-settings-list">
+        ${categories.map(category => html`
+          <h3>${category}</h3>
+          ${bindable.filter(action => action.category === category).map(renderShortcutRow)}
+        `)}
+      </div>
+      <div class="shortcut-settings-footer">
+        <button @click=${() => resetShortcuts()} ?disabled=${!hasOverrides}>Reset all</button>
+      </div>
+    </div>
+  `;
+}
+
+function renderShortcutRow(action: WorkspaceAction) {
+  const shortcuts = getActionShortcuts(action.id);
+  const isRecording = $recordingShortcutFor.get() === action.id;
+  const isChanged = action.id in $shortcutOverrides.get();
+
+  return html`
+    <div class="shortcut-row ${isRecording ? 'recording' : ''}">
+      <span class="shortcut-title">${action.title}</span>
+      <span class="shortcut-keys">
+        ${isRecording
+          ? html`<span class="shortcut-recording">Press keys… (Escape to cancel)</span>`
+          : shortcuts.length
+            ? shortcuts.map(shortcut => html`<kbd>${formatShortcut(shortcut)}</kbd>`)
+            : html`<span class="shortcut-none">None</span>`}
+      </span>
+      <button @click=${() => startRecording(action.id)}>Change</button>
+      <button @click=${() => clearShortcut(action.id)} ?disabled=${shortcuts.length === 0}>Clear</button>
+      <button @click=${() => resetShortcuts(action.id)} ?disabled=${!isChanged}>Reset</button>
+    </div>
+  `;
+}
+
+// Settings handlers
+
+function handleKeyDown(event: KeyboardEvent) {
+  // While recording, Escape belongs to the recording (see interactions/keyboard.ts)
+  if (event.key === 'Escape' && !$recordingShortcutFor.get()) {
+    event.stopPropagation();
+    close();
+  }
+}
+
+function close() {
+  $recordingShortcutFor.set(null);
+  $isShortcutSettingsOpen.set(false);
+}
+
+function startRecording(id: string) {
+  $recordingShortcutFor.set(id);
+}
+
+function clearShortcut(id: string) {
+  import('../state/actions').then(({ clearActionShortcut }) => clearActionShortcut(id));
+}
+
+function resetShortcuts(id?: string) {
+  import('../state/actions').then(({ resetActionShortcuts }) => resetActionShortcuts(id));
+}
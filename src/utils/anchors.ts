@@ -0,0 +1,119 @@
+// src/utils/anchors.ts
+/**
+ * CONNECTION ANCHORS
+ *
+ * Pure geometry for where connections touch a card's edge: the edge point
+ * nearest the cursor, and spreading out lines that leave one side at the same
+ * spot so they don't overlap.
+ *
+ * Sides are numbered like Connection.fromSide / toSide: 0=top, 1=right,
+ * 2=bottom, 3=left. Positions run from 0 to 1 along the side, left to right
+ * or top to bottom.
+ */
+
+/** A card's rectangle in world coordinates */
+export interface AnchorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A point on a card's edge */
+export interface EdgeAnchor {
+  side: number;
+  position: number;
+}
+
+/** One connection end touching a card, as input for spreadAnchors */
+export interface AnchorUse {
+  /** Identifies the end in the result, e.g. "<connection id>:from" */
+  key: string;
+  /** Ends with the same group (card) and side may be spread */
+  group: number | string;
+  rect: AnchorRect;
+  side: number;
+  position: number;
+  /** Where the line goes; spread ends are ordered by it so lines don't cross */
+  toward: { x: number; y: number };
+}
+
+/** Keeps anchors off the very corners, where it's unclear which side a line leaves */
+const EDGE_INSET = 0.05;
+/** Gap between lines spread along one side, in pixels (less on short sides) */
+const SPREAD_SPACING = 24;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * The point on a rectangle's edge nearest to `point`, which may be inside or
+ * outside the rectangle.
+ */
+export function nearestEdgeAnchor(rect: AnchorRect, point: { x: number; y: number }): EdgeAnchor {
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  const px = clamp(point.x, rect.x, right);
+  const py = clamp(point.y, rect.y, bottom);
+
+  const candidates: Array<EdgeAnchor & { distance: number }> = [
+    { side: 0, position: (px - rect.x) / rect.width, distance: Math.hypot(point.x - px, point.y - rect.y) },
+    { side: 1, position: (py - rect.y) / rect.height, distance: Math.hypot(point.x - right, point.y - py) },
+    { side: 2, position: (px - rect.x) / rect.width, distance: Math.hypot(point.x - px, point.y - bottom) },
+    { side: 3, position: (py - rect.y) / rect.height, distance: Math.hypot(point.x - rect.x, point.y - py) }
+  ];
+  const nearest = candidates.reduce((best, candidate) => candidate.distance < best.distance ? candidate : best);
+  return { side: nearest.side, position: clampEdgePosition(nearest.position) };
+}
+
+/**
+ * Keeps a position on its side, away from the corners.
+ */
+export function clampEdgePosition(position: number): number {
+  return Number.isFinite(position) ? clamp(position, EDGE_INSET, 1 - EDGE_INSET) : 0.5;
+}
+
+/**
+ * Spreads out ends that would touch the same side at (almost) the same spot,
+ * around the spot they share. Ends that are already apart keep their
+ * positions. Returns the position of every end by key.
+ * Product Purpose: Three arrows into the left side of a card read as three arrows, not one.
+ */
+export function spreadAnchors(uses: AnchorUse[]): Map<string, number> {
+  const result = new Map<string, number>();
+  const groups = new Map<string, AnchorUse[]>();
+  for (const use of uses) {
+    result.set(use.key, use.position);
+    const groupKey = `${use.group}:${use.side}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), use]);
+  }
+
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    const { rect, side } = group[0];
+    const length = side === 0 || side === 2 ? rect.width : rect.height;
+    if (length <= 0) return;
+    const spacing = Math.min(SPREAD_SPACING / length, (1 - 2 * EDGE_INSET) / group.length);
+
+    // Ends closer together than the spacing form one cluster
+    const sorted = [...group].sort((a, b) => a.position - b.position);
+    const clusters: AnchorUse[][] = [[sorted[0]]];
+    for (const use of sorted.slice(1)) {
+      const cluster = clusters[clusters.length - 1];
+      if (use.position - cluster[cluster.length - 1].position < spacing) cluster.push(use);
+      else clusters.push([use]);
+    }
+
+    const along = (use: AnchorUse) => side === 0 || side === 2 ? use.toward.x : use.toward.y;
+    for (const cluster of clusters) {
+      if (cluster.length < 2) continue;
+      const center = cluster.reduce((sum, use) => sum + use.position, 0) / cluster.length;
+      const width = spacing * (cluster.length - 1);
+      const start = clamp(center - width / 2, EDGE_INSET, 1 - EDGE_INSET - width);
+      [...cluster]
+        .sort((a, b) => along(a) - along(b) || a.key.localeCompare(b.key))
+        .forEach((use, index) => result.set(use.key, start + index * spacing));
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,237 @@
+// src/utils/auto-layout.ts
+/**
+ * GRAPH-AWARE AUTO-LAYOUT
+ *
+ * Pure functions that arrange connected cards into a layered flow
+ * (a simplified Sugiyama layout):
+ *
+ * 1. Break cycles by reversing back edges found with a depth-first search
+ * 2. Assign each card a layer using the longest path from a source
+ * 3. Insert placeholder nodes on edges that skip layers
+ * 4. Order each layer with barycenter sweeps to reduce crossing lines
+ * 5. Turn layers and orders into coordinates
+ *
+ * Cards without any connection are placed in a separate grid after the flow.
+ */
+
+/** The geometry the layout needs from a card */
+export interface LayoutNode {
+  id: number;
+  width: number;
+  height: number;
+}
+
+/** The part of a connection the layout needs */
+export interface LayoutEdge {
+  fromCardId: number;
+  toCardId: number;
+}
+
+/** Flow direction: left-to-right or top-to-bottom */
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  /** Top-left corner of the arrangement */
+  origin: { x: number; y: number };
+  /** Space between layers (along the flow) */
+  layerGap: number;
+  /** Space between cards within a layer (across the flow) */
+  nodeGap: number;
+}
+
+/** Number of down/up barycenter sweeps used for crossing reduction */
+const ORDERING_SWEEPS = 8;
+/** Columns used for the grid of unconnected cards */
+const UNCONNECTED_COLUMNS = 4;
+
+/**
+ * Computes new top-left positions for every node.
+ */
+export function computeLayeredLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions
+): Map<number, { x: number; y: number }> {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const validEdges = edges.filter(e => nodeIds.has(e.fromCardId) && nodeIds.has(e.toCardId) && e.fromCardId !== e.toCardId);
+
+  const connectedIds = new Set(validEdges.flatMap(e => [e.fromCardId, e.toCardId]));
+  const connected = nodes.filter(n => connectedIds.has(n.id));
+  const unconnected = nodes.filter(n => !connectedIds.has(n.id));
+
+  const positions = new Map<number, { x: number; y: number }>();
+  const flowExtent = placeFlow(connected, validEdges, options, positions);
+  placeUnconnected(unconnected, options, flowExtent, positions);
+  return positions;
+}
+
+/**
+ * Returns the edges as a DAG by reversing the edges that close a cycle.
+ */
+function breakCycles(nodes: LayoutNode[], edges: LayoutEdge[]): Array<[number, number]> {
+  const outgoing = new Map<number, number[]>(nodes.map(n => [n.id, []]));
+  for (const e of edges) outgoing.get(e.fromCardId)!.push(e.toCardId);
+
+  const state = new Map<number, 'visiting' | 'done'>();
+  const backEdges = new Set<string>();
+
+  const visit = (id: number) => {
+    state.set(id, 'visiting');
+    for (const next of outgoing.get(id)!) {
+      if (state.get(next) === 'visiting') backEdges.add(`${id}->${next}`);
+      else if (!state.has(next)) visit(next);
+    }
+    state.set(id, 'done');
+  };
+  for (const n of nodes) if (!state.has(n.id)) visit(n.id);
+
+  const dag = new Map<string, [number, number]>();
+  for (const e of edges) {
+    const pair: [number, number] = backEdges.has(`${e.fromCardId}->${e.toCardId}`)
+      ? [e.toCardId, e.fromCardId]
+      : [e.fromCardId, e.toCardId];
+    dag.set(`${pair[0]}->${pair[1]}`, pair); // Drops duplicate edges
+  }
+  return Array.from(dag.values());
+}
+
+/**
+ * Longest-path layering: every node sits one layer after its furthest predecessor.
+ */
+function assignLayers(nodes: LayoutNode[], dag: Array<[number, number]>): Map<number, number> {
+  const incoming = new Map<number, number[]>(nodes.map(n => [n.id, []]));
+  for (const [from, to] of dag) incoming.get(to)!.push(from);
+
+  const layer = new Map<number, number>();
+  const resolve = (id: number): number => {
+    if (layer.has(id)) return layer.get(id)!;
+    const preds = incoming.get(id)!;
+    const value = preds.length === 0 ? 0 : Math.max(...preds.map(resolve)) + 1;
+    layer.set(id, value);
+    return value;
+  };
+  nodes.forEach(n => resolve(n.id));
+  return layer;
+}
+
+/**
+ * Places the connected cards and returns the far edge of the flow (across the flow axis).
+ */
+function placeFlow(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions,
+  positions: Map<number, { x: number; y: number }>
+): number {
+  const crossOrigin = options.direction === 'LR' ? options.origin.y : options.origin.x;
+  if (nodes.length === 0) return crossOrigin;
+
+  const dag = breakCycles(nodes, edges);
+  const layerOf = assignLayers(nodes, dag);
+
+  // Graph with placeholder nodes so every edge spans exactly one layer. Their ids
+  // start below every card id (comparison copies have negative ids too)
+  const layers: number[][] = [];
+  const addToLayer = (id: number, index: number) => (layers[index] ??= []).push(id);
+  nodes.forEach(n => addToLayer(n.id, layerOf.get(n.id)!));
+
+  const up = new Map<number, number[]>();
+  const down = new Map<number, number[]>();
+  const link = (from: number, to: number) => {
+    (down.get(from) ?? down.set(from, []).get(from)!).push(to);
+    (up.get(to) ?? up.set(to, []).get(to)!).push(from);
+  };
+
+  const placeholders = new Set<number>();
+  let nextPlaceholder = Math.min(0, ...nodes.map(n => n.id)) - 1;
+  for (const [from, to] of dag) {
+    let previous = from;
+    for (let l = layerOf.get(from)! + 1; l < layerOf.get(to)!; l++) {
+      const placeholder = nextPlaceholder--;
+      placeholders.add(placeholder);
+      addToLayer(placeholder, l);
+      link(previous, placeholder);
+      previous = placeholder;
+    }
+    link(previous, to);
+  }
+
+  orderLayers(layers, up, down);
+
+  // Coordinates: layers advance along the flow, cards stack across it
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const along = (n: LayoutNode) => options.direction === 'LR' ? n.width : n.height;
+  const across = (n: LayoutNode) => options.direction === 'LR' ? n.height : n.width;
+
+  const realLayers = layers.map(layer => layer.filter(id => !placeholders.has(id)).map(id => nodeById.get(id)!));
+  const layerExtents = realLayers.map(layer =>
+    layer.reduce((sum, n) => sum + across(n), 0) + Math.max(0, layer.length - 1) * options.nodeGap
+  );
+  const widestLayer = Math.max(...layerExtents);
+
+  let alongCursor = options.direction === 'LR' ? options.origin.x : options.origin.y;
+  realLayers.forEach((layer, index) => {
+    // Center each layer across the flow so the graph reads as a balanced tree
+    let acrossCursor = crossOrigin + (widestLayer - layerExtents[index]) / 2;
+    for (const node of layer) {
+      positions.set(node.id, options.direction === 'LR'
+        ? { x: Math.round(alongCursor), y: Math.round(acrossCursor) }
+        : { x: Math.round(acrossCursor), y: Math.round(alongCursor) });
+      acrossCursor += across(node) + options.nodeGap;
+    }
+    alongCursor += Math.max(0, ...layer.map(along)) + options.layerGap;
+  });
+
+  return crossOrigin + widestLayer;
+}
+
+/**
+ * Reorders every layer by the average position of its neighbors (barycenter heuristic),
+ * sweeping down and up several times.
+ */
+function orderLayers(layers: number[][], up: Map<number, number[]>, down: Map<number, number[]>) {
+  const reorder = (layer: number[], reference: number[], neighbors: Map<number, number[]>) => {
+    const indexOf = new Map(reference.map((id, i) => [id, i]));
+    const barycenter = new Map(layer.map((id, i) => {
+      const linked = (neighbors.get(id) ?? []).filter(n => indexOf.has(n));
+      // Nodes without neighbors keep their current slot
+      return [id, linked.length ? linked.reduce((s, n) => s + indexOf.get(n)!, 0) / linked.length : i];
+    }));
+    layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let l = 1; l < layers.length; l++) reorder(layers[l], layers[l - 1], up);
+    } else {
+      for (let l = layers.length - 2; l >= 0; l--) reorder(layers[l], layers[l + 1], down);
+    }
+  }
+}
+
+/**
+ * Places unconnected cards in a grid beyond the flow (below it for LR, to its right for TB).
+ */
+function placeUnconnected(
+  nodes: LayoutNode[],
+  options: LayoutOptions,
+  flowExtent: number,
+  positions: Map<number, { x: number; y: number }>
+) {
+  if (nodes.length === 0) return;
+
+  const hasFlow = positions.size > 0;
+  const cellWidth = Math.max(...nodes.map(n => n.width)) + options.nodeGap;
+  const cellHeight = Math.max(...nodes.map(n => n.height)) + options.nodeGap;
+  // Leave a full layer gap between the flow and the unconnected area
+  const areaStart = hasFlow ? flowExtent + options.layerGap : (options.direction === 'LR' ? options.origin.y : options.origin.x);
+
+  nodes.forEach((node, index) => {
+    const col = index % UNCONNECTED_COLUMNS;
+    const row = Math.floor(index / UNCONNECTED_COLUMNS);
+    positions.set(node.id, options.direction === 'LR'
+      ? { x: options.origin.x + col * cellWidth, y: areaStart + row * cellHeight }
+      : { x: areaStart + row * cellWidth, y: options.origin.y + col * cellHeight });
+  });
+}
@@ -0,0 +1,219 @@
+// src/utils/crdt.ts
+/**
+ * CONFLICT-FREE BOARD DOCUMENT
+ *
+ * A small state-based CRDT for sharing the board between several people.
+ * Every field of every card and connection is a last-writer-wins register
+ * stamped with a Lamport clock and the writer's client id. Merging keeps the
+ * newest stamp per field, so replicas that have seen the same updates end up
+ * identical no matter the order the updates arrived in.
+ *
+ * - Two people dragging the same card: the later move wins for x and y
+ * - One person relabels a connection while another recolors it: both survive
+ * - Deletions are a `_deleted` field, so a delete and an edit also converge
+ */
+
+/** Orders writes: higher counter wins, client id breaks ties */
+export interface Stamp {
+  counter: number;
+  clientId: string;
+}
+
+/** One field value together with when (and by whom) it was written */
+export interface FieldEntry {
+  value: unknown;
+  stamp: Stamp;
+}
+
+/** All fields of one card or connection; `_deleted` marks removed items */
+export type CrdtRecord = Record<string, FieldEntry>;
+
+export type CrdtCollection = 'cards' | 'connections';
+
+export interface CrdtDoc {
+  cards: Record<string, CrdtRecord>;
+  connections: Record<string, CrdtRecord>;
+}
+
+/** A single field write, as sent between clients */
+export interface FieldUpdate {
+  collection: CrdtCollection;
+  id: string;
+  field: string;
+  value: unknown;
+  stamp: Stamp;
+}
+
+const DELETED = '_deleted';
+
+/**
+ * Maps keyed by ids and field names come from other clients, so they have no
+ * prototype: a key like `__proto__` is then just another entry.
+ */
+const createMap = <T>(): Record<string, T> => Object.create(null);
+
+export function createDoc(): CrdtDoc {
+  return { cards: createMap(), connections: createMap() };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export function isStamp(value: unknown): value is Stamp {
+  return isObject(value) && Number.isFinite(value.counter) && typeof value.clientId === 'string';
+}
+
+/**
+ * Whether a value received from another client is a well-formed update.
+ */
+export function isFieldUpdate(value: unknown): value is FieldUpdate {
+  return isObject(value)
+    && (value.collection === 'cards' || value.collection === 'connections')
+    && typeof value.id === 'string'
+    && typeof value.field === 'string'
+    && isStamp(value.stamp);
+}
+
+/** Positive when `a` is newer than `b` */
+export function compareStamps(a: Stamp, b: Stamp): number {
+  return a.counter !== b.counter ? a.counter - b.counter : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+/**
+ * Lamport clock for one client. Every local write ticks it; every remote
+ * stamp seen moves it forward so later local writes beat what was seen.
+ */
+export function createClock(clientId: string, start = 0) {
+  let counter = start;
+  return {
+    tick(): Stamp {
+      counter += 1;
+      return { counter, clientId };
+    },
+    observe(stamp: Stamp) {
+      counter = Math.max(counter, stamp.counter);
+    }
+  };
+}
+
+export type Clock = ReturnType<typeof createClock>;
+
+/** Structural equality for JSON-like values */
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Applies one update if it is newer than what the document holds.
+ * Returns whether the document changed.
+ */
+export function applyUpdate(doc: CrdtDoc, update: FieldUpdate): boolean {
+  const records = doc[update.collection];
+  const record = records[update.id] ?? (records[update.id] = createMap());
+  const current = record[update.field];
+  if (current && compareStamps(update.stamp, current.stamp) <= 0) return false;
+  record[update.field] = { value: update.value ?? null, stamp: update.stamp };
+  return true;
+}
+
+/**
+ * Merges another replica into `doc`, returning the updates that were new.
+ * `other` may come from another client: malformed entries are skipped.
+ */
+export function mergeDoc(doc: CrdtDoc, other: unknown): FieldUpdate[] {
+  const applied: FieldUpdate[] = [];
+  if (!isObject(other)) return applied;
+  for (const collection of ['cards', 'connections'] as const) {
+    const records = other[collection];
+    if (!isObject(records)) continue;
+    for (const [id, record] of Object.entries(records)) {
+      if (!isObject(record)) continue;
+      for (const [field, entry] of Object.entries(record)) {
+        const update = { collection, id, field, value: isObject(entry) ? entry.value : undefined, stamp: isObject(entry) ? entry.stamp : undefined };
+        if (isFieldUpdate(update) && applyUpdate(doc, update)) applied.push(update);
+      }
+    }
+  }
+  return applied;
+}
+
+/** Highest counter anywhere in the document (to resume a clock) */
+export function maxCounter(doc: CrdtDoc): number {
+  let max = 0;
+  for (const collection of ['cards', 'connections'] as const) {
+    for (const record of Object.values(doc[collection])) {
+      for (const entry of Object.values(record)) max = Math.max(max, entry.stamp.counter);
+    }
+  }
+  return max;
+}
+
+/**
+ * Reads the live (not deleted) items of a collection as plain objects.
+ * Items keep the order of `previous` where possible; new ones are appended.
+ */
+export function materialize<T>(doc: CrdtDoc, collection: CrdtCollection, keyOf: (item: T) => string, previous: T[] = []): T[] {
+  const live = new Map<string, T>();
+  for (const [id, record] of Object.entries(doc[collection])) {
+    if (record[DELETED]?.value === true) continue;
+    // fromEntries defines own properties, so no field name can set a prototype
+    const item = Object.fromEntries(Object.entries(record)
+      .filter(([field, entry]) => field !== DELETED && entry.value !== null && entry.value !== undefined)
+      .map(([field, entry]) => [field, entry.value]));
+    live.set(id, item as T);
+  }
+
+  const ordered: T[] = [];
+  for (const item of previous) {
+    const key = keyOf(item);
+    const next = live.get(key);
+    if (next) {
+      ordered.push(next);
+      live.delete(key);
+    }
+  }
+  return [...ordered, ...live.values()];
+}
+
+/**
+ * Records the difference between the document and the new local items as
+ * stamped updates (applied to the document and returned for broadcasting).
+ */
+export function recordLocalChanges<T extends object>(
+  doc: CrdtDoc,
+  collection: CrdtCollection,
+  items: T[],
+  keyOf: (item: T) => string,
+  clock: Clock
+): FieldUpdate[] {
+  const updates: FieldUpdate[] = [];
+  const write = (id: string, field: string, value: unknown) => {
+    const update = { collection, id, field, value, stamp: clock.tick() };
+    applyUpdate(doc, update);
+    updates.push(update);
+  };
+
+  const records = doc[collection];
+  const seen = new Set<string>();
+  for (const item of items) {
+    const id = keyOf(item);
+    seen.add(id);
+    const record = records[id] ?? {};
+    const fields = item as Record<string, unknown>;
+
+    if (!record[DELETED] || record[DELETED].value !== false) write(id, DELETED, false);
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      if (!record[field] || !sameValue(record[field].value, value)) write(id, field, value);
+    }
+    // Fields the item no longer has (e.g. a removed label) are written as null
+    for (const [field, entry] of Object.entries(record)) {
+      if (field !== DELETED && entry.value !== null && fields[field] === undefined) write(id, field, null);
+    }
+  }
+
+  for (const [id, record] of Object.entries(records)) {
+    if (!seen.has(id) && record[DELETED]?.value !== true) write(id, DELETED, true);
+  }
+  return updates;
+}
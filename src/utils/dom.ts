@@ -0,0 +1,10 @@
+// src/utils/dom.ts
+
+/**
+ * Returns true when a keyboard event comes from a control that handles its own typing,
+ * so global shortcuts (undo, delete, ...) should leave it alone.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
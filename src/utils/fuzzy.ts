@@ -0,0 +1,32 @@
+// src/utils/fuzzy.ts
+
+/**
+ * Scores how well a search matches a text: every character of the search
+ * must appear in the text, in order. Matches at the start of words and runs
+ * of consecutive characters score higher, so "rl" ranks "Reset layout" above
+ * "Reload all". Returns null when the text doesn't match at all; an empty
+ * search matches everything with a score of 0.
+ */
+export function fuzzyScore(search: string, text: string): number | null {
+  const query = search.trim().toLowerCase();
+  if (!query) return 0;
+  const target = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+  for (const char of query) {
+    if (char === ' ') continue;
+    const index = target.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === 0 || /[\s\-_.:/(]/.test(target[index - 1])) score += 3; // Start of a word
+    if (index === previousMatch + 1) score += 2; // Continues the previous match
+    score -= Math.min(index - position, 5) * 0.1; // Skipped characters
+
+    previousMatch = index;
+    position = index + 1;
+  }
+  return score;
+}
@@ -0,0 +1,418 @@
+// src/utils/graph-text.ts
+/**
+ * GRAPH TEXT FORMATS
+ *
+ * Pure functions that write a scenario graph as Mermaid `flowchart` or
+ * Graphviz DOT text, and read either format back.
+ *
+ * Only the parts that matter for a scenario graph are understood: nodes with
+ * a title, directed links with an optional label, and dashed/dotted links.
+ * Styling, subgraphs and other directives are ignored when reading.
+ */
+
+/** A node as written by the exporters (ids are scenario ids) */
+export interface GraphNode {
+  id: number;
+  title: string;
+}
+
+/** A link as written by the exporters */
+export interface GraphEdge {
+  from: number;
+  to: number;
+  label?: string;
+  dashed?: boolean;
+}
+
+/** A node read from text; `key` is the identifier used in the source */
+export interface ParsedNode {
+  key: string;
+  title?: string;
+}
+
+export interface ParsedEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+export interface ParsedGraph {
+  format: GraphTextFormat;
+  /** Layout direction declared by the source (Mermaid `LR`/`TD`, DOT `rankdir`) */
+  direction: 'LR' | 'TB';
+  nodes: ParsedNode[];
+  edges: ParsedEdge[];
+  /** Statements that could not be understood, with their line numbers */
+  warnings: Array<{ line: number; message: string }>;
+}
+
+export type GraphTextFormat = 'mermaid' | 'dot';
+
+/** Identifier used for a scenario node in both formats */
+const nodeKey = (id: number) => `s${id}`;
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+/** Escapes text for a Mermaid quoted label ("..." can't contain a plain quote, and | would end a link label) */
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, ' ');
+}
+
+/** Escapes text for a DOT quoted string */
+function dotText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Writes the graph as a Mermaid flowchart.
+ */
+export function toMermaid(nodes: GraphNode[], edges: GraphEdge[], direction: 'LR' | 'TB' = 'LR'): string {
+  const lines = [`flowchart ${direction}`];
+  for (const node of nodes) {
+    lines.push(`  ${nodeKey(node.id)}["${mermaidText(node.title)}"]`);
+  }
+  for (const edge of edges) {
+    const arrow = edge.dashed ? '-.->' : '-->';
+    const label = edge.label ? `|"${mermaidText(edge.label)}"|` : '';
+    lines.push(`  ${nodeKey(edge.from)} ${arrow}${label} ${nodeKey(edge.to)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes the graph as a Graphviz DOT digraph.
+ */
+export function toDot(nodes: GraphNode[], edges: GraphEdge[], direction: 'LR' | 'TB' = 'LR'): string {
+  const lines = ['digraph scenarios {', `  rankdir=${direction};`, '  node [shape=box];'];
+  for (const node of nodes) {
+    lines.push(`  ${nodeKey(node.id)} [label="${dotText(node.title)}"];`);
+  }
+  for (const edge of edges) {
+    const attrs = [
+      ...(edge.label ? [`label="${dotText(edge.label)}"`] : []),
+      ...(edge.dashed ? ['style=dashed'] : [])
+    ];
+    lines.push(`  ${nodeKey(edge.from)} -> ${nodeKey(edge.to)}${attrs.length ? ` [${attrs.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/**
+ * Guesses the format of a graph text, or null if it looks like neither.
+ */
+export function detectGraphFormat(text: string): GraphTextFormat | null {
+  const firstStatement = text
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('%%') && !line.startsWith('//') && !line.startsWith('#'));
+  if (!firstStatement) return null;
+  if (/^(flowchart|graph)\b/i.test(firstStatement) && !firstStatement.includes('{')) return 'mermaid';
+  if (/^(strict\s+)?(di)?graph\b/i.test(firstStatement)) return 'dot';
+  return null;
+}
+
+/**
+ * Reads Mermaid or DOT text into nodes and edges.
+ * Throws when the text is in neither format.
+ */
+export function parseGraphText(text: string): ParsedGraph {
+  const format = detectGraphFormat(text);
+  if (format === 'mermaid') return parseMermaid(text);
+  if (format === 'dot') return parseDot(text);
+  throw new Error('Not a Mermaid flowchart or Graphviz DOT graph');
+}
+
+/**
+ * Collects nodes and edges, keeping the first title seen for each node.
+ */
+function createGraphBuilder(format: GraphTextFormat) {
+  const graph: ParsedGraph = { format, direction: 'LR', nodes: [], edges: [], warnings: [] };
+  const byKey = new Map<string, ParsedNode>();
+
+  return {
+    graph,
+    node(key: string, title?: string) {
+      const existing = byKey.get(key);
+      if (existing) {
+        if (title && !existing.title) existing.title = title;
+        return;
+      }
+      const node: ParsedNode = title ? { key, title } : { key };
+      byKey.set(key, node);
+      graph.nodes.push(node);
+    },
+    edge(edge: ParsedEdge) {
+      graph.edges.push(edge);
+    }
+  };
+}
+
+/** Mermaid statements that carry no nodes or links */
+const MERMAID_IGNORED = /^(subgraph|end|direction|classDef|class|style|linkStyle|click|accTitle|accDescr)\b/;
+/** A Mermaid link, with an optional |label| or |"quoted label"| after it */
+const MERMAID_LINK = /\s*(<?-{2,}>|<?-\.+->|<?={2,}>|-{3,}|-\.+-|={3,})\s*(?:\|("[^"]*"|[^|]*)\|)?\s*/;
+/** A Mermaid node: id, optionally followed by a shape holding its text */
+const MERMAID_NODE = /^([\w-]+)\s*(?:[[({>\/\\]+\s*(.*?)\s*[\])}\/\\]+)?(?::::\w+)?$/;
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return /^".*"$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+function mermaidLabel(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const label = unquote(text).replace(/#quot;/g, '"').replace(/#124;/g, '|').replace(/<br\s*\/?>/gi, ' ').trim();
+  return label || undefined;
+}
+
+/** Splits a line on `;` separators outside quoted text (entities like #quot; also end in `;`) */
+function splitMermaidStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements;
+}
+
+function parseMermaid(text: string): ParsedGraph {
+  const builder = createGraphBuilder('mermaid');
+  const { graph } = builder;
+
+  text.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (!line) return;
+
+    const header = line.match(/^(flowchart|graph)\s*(LR|RL|TB|TD|BT)?/i);
+    if (header) {
+      graph.direction = header[2] && /^(LR|RL)$/i.test(header[2]) ? 'LR' : header[2] ? 'TB' : graph.direction;
+      return;
+    }
+
+    for (const rawStatement of splitMermaidStatements(line)) {
+      // Turn "A -- text --> B" style labels into "A -->|text| B"
+      const statement = rawStatement.trim()
+        .replace(/--\s+([^|>-][^>]*?)\s+-->/g, '-->|$1|')
+        .replace(/-\.\s+(.+?)\s+\.->/g, '-.->|$1|')
+        .replace(/==\s+(.+?)\s+==>/g, '==>|$1|');
+      if (!statement || MERMAID_IGNORED.test(statement)) continue;
+
+      // split() with capture groups yields: node, arrow, label, node, arrow, label, node...
+      const parts = statement.split(MERMAID_LINK);
+      const nodeKeys: string[] = [];
+      for (let i = 0; i < parts.length; i += 3) {
+        // "A & B --> C" links every node on each side
+        const group = parts[i].split(/\s*&\s*/).map(token => token.match(MERMAID_NODE));
+        if (group.some(match => !match)) {
+          graph.warnings.push({ line: lineNumber, message: `Could not read "${parts[i].trim()}"` });
+          return;
+        }
+        const keys = group.map(match => {
+          builder.node(match![1], mermaidLabel(match![2]));
+          return match![1];
+        });
+        nodeKeys.push(keys.join('&'));
+      }
+
+      for (let i = 0; i + 1 < nodeKeys.length; i++) {
+        const arrow = parts[i * 3 + 1];
+        const label = mermaidLabel(parts[i * 3 + 2]);
+        const dashed = arrow.includes('.');
+        for (const from of nodeKeys[i].split('&')) {
+          for (const to of nodeKeys[i + 1].split('&')) {
+            builder.edge({ from, to, ...(label ? { label } : {}), ...(dashed ? { dashed } : {}) });
+          }
+        }
+      }
+    }
+  });
+
+  return graph;
+}
+
+interface DotToken {
+  value: string;
+  /** Quoted strings can contain anything and never act as punctuation */
+  quoted: boolean;
+  line: number;
+}
+
+/**
+ * Splits DOT text into identifiers, quoted strings and punctuation.
+ */
+function tokenizeDot(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') { line++; i++; continue; }
+    if (/\s/.test(char)) { i++; continue; }
+
+    // Comments: //, /* */ and # at the start of a line
+    if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      line += (text.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? ' ' : next;
+          i += 2;
+          continue;
+        }
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      }
+      i++; // Closing quote
+      tokens.push({ value, quoted: true, line });
+      continue;
+    }
+
+    if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ value: text.slice(i, i + 2), quoted: false, line });
+      i += 2;
+      continue;
+    }
+    if ('{}[];,=:'.includes(char)) {
+      tokens.push({ value: char, quoted: false, line });
+      i++;
+      continue;
+    }
+
+    const word = text.slice(i).match(/^[\w.]+/);
+    if (word) {
+      tokens.push({ value: word[0], quoted: false, line });
+      i += word[0].length;
+    } else {
+      tokens.push({ value: char, quoted: false, line }); // Unknown character, reported by the parser
+      i++;
+    }
+  }
+  return tokens;
+}
+
+function parseDot(text: string): ParsedGraph {
+  const builder = createGraphBuilder('dot');
+  const { graph } = builder;
+  const tokens = tokenizeDot(text);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isPunct = (token: DotToken | undefined, value: string) => !!token && !token.quoted && token.value === value;
+  const isId = (token: DotToken | undefined) => !!token && (token.quoted || /^[\w.]+$/.test(token.value));
+
+  const readAttributes = (): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    while (isPunct(peek(), '[')) {
+      pos++;
+      while (pos < tokens.length && !isPunct(peek(), ']')) {
+        const key = tokens[pos++];
+        if (isPunct(peek(), '=')) {
+          pos++;
+          const value = tokens[pos++];
+          if (key && value) attrs[key.value.toLowerCase()] = value.value;
+        }
+        if (isPunct(peek(), ',') || isPunct(peek(), ';')) pos++;
+      }
+      pos++; // ]
+    }
+    return attrs;
+  };
+
+  // Header: [strict] (graph|digraph) [name] {
+  while (pos < tokens.length && !isPunct(peek(), '{')) pos++;
+  pos++;
+
+  while (pos < tokens.length) {
+    const token = peek();
+    if (isPunct(token, '}') || isPunct(token, '{') || isPunct(token, ';')) { pos++; continue; }
+
+    if (!token.quoted && /^(graph|node|edge)$/i.test(token.value) && isPunct(tokens[pos + 1], '[')) {
+      pos++;
+      const attrs = readAttributes();
+      if (token.value.toLowerCase() === 'graph' && attrs.rankdir) {
+        graph.direction = /^(LR|RL)$/i.test(attrs.rankdir) ? 'LR' : 'TB';
+      }
+      continue;
+    }
+    if (!token.quoted && /^subgraph$/i.test(token.value)) {
+      pos++;
+      if (isId(peek()) && !isPunct(peek(), '{')) pos++; // Subgraph name
+      continue;
+    }
+    if (!isId(token)) {
+      graph.warnings.push({ line: token.line, message: `Unexpected "${token.value}"` });
+      pos++;
+      continue;
+    }
+
+    // Graph attribute: key = value
+    if (isPunct(tokens[pos + 1], '=')) {
+      if (token.value.toLowerCase() === 'rankdir' && tokens[pos + 2]) {
+        graph.direction = /^(LR|RL)$/i.test(tokens[pos + 2].value) ? 'LR' : 'TB';
+      }
+      pos += 3;
+      continue;
+    }
+
+    // Node or edge chain: a [-> b ...] [attrs]
+    const chain = [token.value];
+    pos++;
+    if (isPunct(peek(), ':')) pos += 2; // Port, e.g. a:n
+    while (isPunct(peek(), '->') || isPunct(peek(), '--')) {
+      pos++;
+      const next = peek();
+      if (!isId(next)) {
+        graph.warnings.push({ line: token.line, message: 'Edge without a target' });
+        break;
+      }
+      chain.push(next.value);
+      pos++;
+      if (isPunct(peek(), ':')) pos += 2;
+    }
+    const attrs = readAttributes();
+
+    if (chain.length === 1) {
+      builder.node(chain[0], attrs.label?.trim() || undefined);
+      continue;
+    }
+    chain.forEach(key => builder.node(key));
+    const label = attrs.label?.trim();
+    const dashed = /dashed|dotted/i.test(attrs.style ?? '');
+    for (let i = 0; i + 1 < chain.length; i++) {
+      builder.edge({ from: chain[i], to: chain[i + 1], ...(label ? { label } : {}), ...(dashed ? { dashed } : {}) });
+    }
+  }
+
+  return graph;
+}
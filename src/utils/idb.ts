@@ -0,0 +1,72 @@
+// src/utils/idb.ts
+/**
+ * INDEXEDDB HELPERS
+ *
+ * A minimal promise wrapper around IndexedDB for a database with simple
+ * key-value object stores. Everything the viewer stores in the browser goes
+ * through these few functions.
+ */
+
+/**
+ * Opens (and creates or upgrades) a database with the given object stores.
+ * Stores are keyed by the `id` property of their records.
+ */
+export function openDatabase(name: string, version: number, storeNames: string[]): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of storeNames) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is blocked by another open tab`));
+  });
+}
+
+/**
+ * Runs one request in its own transaction and resolves with its result once committed.
+ */
+function runRequest<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/** Reads one record by key */
+export function getRecord<T>(db: IDBDatabase, storeName: string, id: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(db, storeName, 'readonly', store => store.get(id));
+}
+
+/** Reads every record in a store */
+export function getAllRecords<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return runRequest<T[]>(db, storeName, 'readonly', store => store.getAll());
+}
+
+/** Inserts or replaces a record */
+export function putRecord<T>(db: IDBDatabase, storeName: string, record: T): Promise<void> {
+  return runRequest<void>(db, storeName, 'readwrite', store => store.put(record));
+}
+
+/** Deletes a record by key */
+export function deleteRecord(db: IDBDatabase, storeName: string, id: IDBValidKey): Promise<void> {
+  return runRequest<void>(db, storeName, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,89 @@
+// src/utils/markdown.ts
+/**
+ * MARKDOWN
+ *
+ * A small markdown renderer for card notes. It understands the parts people
+ * use in short notes: headings, paragraphs, bullet and numbered lists, quotes,
+ * code blocks, `code`, **bold**, *italic*, ~~strikethrough~~ and [links](https://…).
+ *
+ * All text is escaped before any markup is added, and links only allow
+ * http(s) and mailto addresses, so the output is safe to insert as HTML.
+ */
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Renders the inline markup of one (already joined) block of text.
+ */
+function renderInline(text: string): string {
+  // Code spans are set aside first so nothing inside them is formatted
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a?: string, b?: string) => `<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Renders markdown text as HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let index = 0;
+
+  const collect = (pattern: RegExp) => {
+    const items: string[] = [];
+    while (index < lines.length && pattern.test(lines[index])) {
+      items.push(lines[index].replace(pattern, ''));
+      index++;
+    }
+    return items;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+    } else if (line.startsWith('```')) {
+      index++;
+      const code: string[] = [];
+      while (index < lines.length && !lines[index].startsWith('```')) code.push(lines[index++]);
+      index++; // Closing fence (or the end of the notes)
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+    } else if (/^#{1,6}\s/.test(line)) {
+      // Notes sit under the card title, so headings start one level below it
+      const level = Math.min(6, line.indexOf(' ') + 2);
+      blocks.push(`<h${level}>${renderInline(line.replace(/^#+\s+/, ''))}</h${level}>`);
+      index++;
+    } else if (/^\s*[-*+]\s/.test(line)) {
+      blocks.push(`<ul>${collect(/^\s*[-*+]\s+/).map(item => `<li>${renderInline(item)}</li>`).join('')}</ul>`);
+    } else if (/^\s*\d+[.)]\s/.test(line)) {
+      blocks.push(`<ol>${collect(/^\s*\d+[.)]\s+/).map(item => `<li>${renderInline(item)}</li>`).join('')}</ol>`);
+    } else if (line.startsWith('>')) {
+      blocks.push(`<blockquote>${renderInline(collect(/^>\s?/).join(' '))}</blockquote>`);
+    } else {
+      const paragraph: string[] = [];
+      while (index < lines.length && lines[index].trim() && !/^(```|#{1,6}\s|\s*[-*+]\s|\s*\d+[.)]\s|>)/.test(lines[index])) {
+        paragraph.push(lines[index++].trim());
+      }
+      blocks.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    }
+  }
+
+  return blocks.join('');
+}
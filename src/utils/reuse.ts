@@ -0,0 +1,22 @@
+// src/utils/reuse.ts
+
+/**
+ * Returns `previous` when `next` holds the same values, otherwise `next`.
+ * Derived stores rebuild their items on every change; keeping the identity of
+ * the unchanged ones lets templates skip them (lit's guard compares by
+ * identity). Values that are different objects count as the same when they
+ * serialize alike, which suits the plain state objects they come from.
+ */
+export function reuseIfUnchanged<T extends object>(previous: T | undefined, next: T): T {
+  if (!previous) return next;
+  const keys = Object.keys(next) as (keyof T)[];
+  if (keys.length !== Object.keys(previous).length) return next;
+  for (const key of keys) {
+    const a = previous[key];
+    const b = next[key];
+    if (a === b) continue;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return next;
+    if (JSON.stringify(a) !== JSON.stringify(b)) return next;
+  }
+  return previous;
+}
@@ -0,0 +1,331 @@
+// src/utils/routing.ts
+/**
+ * CONNECTOR ROUTING
+ *
+ * Pure geometry that turns two card edge points into an SVG path.
+ *
+ * Modes:
+ * - straight:   a single segment between the two points
+ * - curved:     a cubic bezier that leaves and enters each card perpendicular to its side
+ * - orthogonal: horizontal/vertical segments that go around other cards
+ *
+ * The orthogonal router builds a sparse grid from the edges of nearby cards
+ * (inflated by a margin) and runs Dijkstra on it, penalizing bends so routes
+ * stay tidy. If no route exists it falls back to a simple elbow.
+ */
+
+/** A point in world coordinates */
+export interface RoutePoint {
+  x: number;
+  y: number;
+}
+
+/** An axis-aligned obstacle in world coordinates */
+export interface RouteRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One end of a connection: where it touches the card and which side it leaves from */
+export interface RouteEndpoint {
+  point: RoutePoint;
+  /** 0=top, 1=right, 2=bottom, 3=left (same as Connection.fromSide / toSide) */
+  side: number;
+}
+
+/** Result of routing: the SVG path and a good place for a label */
+export interface Route {
+  d: string;
+  midpoint: RoutePoint;
+}
+
+/** How far the orthogonal route keeps away from card edges */
+const ROUTE_MARGIN = 16;
+/** Length of the straight stub leaving each card before the first bend */
+const STUB_LENGTH = 24;
+/** Extra cost of a bend, in pixels of path length */
+const BEND_PENALTY = 40;
+/** Cards further than this from both endpoints' bounding box are ignored as obstacles */
+const OBSTACLE_SEARCH_PADDING = 300;
+
+/** Outward unit vectors for each side */
+const SIDE_NORMALS: RoutePoint[] = [
+  { x: 0, y: -1 }, // Top
+  { x: 1, y: 0 },  // Right
+  { x: 0, y: 1 },  // Bottom
+  { x: -1, y: 0 }  // Left
+];
+
+function getNormal(side: number): RoutePoint {
+  return SIDE_NORMALS[side] ?? { x: 0, y: 0 };
+}
+
+/**
+ * A straight line between the two endpoints.
+ */
+export function routeStraight(from: RouteEndpoint, to: RouteEndpoint): Route {
+  return {
+    d: `M ${from.point.x} ${from.point.y} L ${to.point.x} ${to.point.y}`,
+    midpoint: { x: (from.point.x + to.point.x) / 2, y: (from.point.y + to.point.y) / 2 }
+  };
+}
+
+/**
+ * A smooth curve that leaves and enters each card at a right angle to its side.
+ */
+export function routeCurved(from: RouteEndpoint, to: RouteEndpoint): Route {
+  const p0 = from.point;
+  const p3 = to.point;
+  const distance = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+  const handle = Math.max(40, distance * 0.4);
+  const n0 = getNormal(from.side);
+  const n3 = getNormal(to.side);
+  const p1 = { x: p0.x + n0.x * handle, y: p0.y + n0.y * handle };
+  const p2 = { x: p3.x + n3.x * handle, y: p3.y + n3.y * handle };
+
+  // Cubic bezier at t = 0.5
+  const midpoint = {
+    x: (p0.x + 3 * p1.x + 3 * p2.x + p3.x) / 8,
+    y: (p0.y + 3 * p1.y + 3 * p2.y + p3.y) / 8
+  };
+
+  return {
+    d: `M ${p0.x} ${p0.y} C ${p1.x} ${p1.y}, ${p2.x} ${p2.y}, ${p3.x} ${p3.y}`,
+    midpoint
+  };
+}
+
+/**
+ * Horizontal/vertical segments from one card to another that avoid the given obstacles.
+ */
+export function routeOrthogonal(from: RouteEndpoint, to: RouteEndpoint, obstacles: RouteRect[]): Route {
+  const n0 = getNormal(from.side);
+  const n1 = getNormal(to.side);
+  const start = { x: from.point.x + n0.x * STUB_LENGTH, y: from.point.y + n0.y * STUB_LENGTH };
+  const end = { x: to.point.x + n1.x * STUB_LENGTH, y: to.point.y + n1.y * STUB_LENGTH };
+
+  const searchArea = inflate(boundsOf([start, end]), OBSTACLE_SEARCH_PADDING);
+  const inflated = obstacles
+    .map(rect => inflate(rect, ROUTE_MARGIN))
+    .filter(rect => intersects(rect, searchArea));
+
+  const middle = findGridPath(start, end, n0, { x: -n1.x, y: -n1.y }, inflated)
+    ?? elbowFallback(start, end, n0);
+
+  const points = simplify([from.point, ...middle, to.point]);
+  return {
+    d: points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' '),
+    midpoint: pointAlongPolyline(points, 0.5)
+  };
+}
+
+function inflate(rect: RouteRect, amount: number): RouteRect {
+  return { x: rect.x - amount, y: rect.y - amount, width: rect.width + amount * 2, height: rect.height + amount * 2 };
+}
+
+function boundsOf(points: RoutePoint[]): RouteRect {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function intersects(a: RouteRect, b: RouteRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/** Strictly inside (points on the border are allowed, routes run along inflated edges) */
+function isInside(p: RoutePoint, rect: RouteRect): boolean {
+  return p.x > rect.x && p.x < rect.x + rect.width && p.y > rect.y && p.y < rect.y + rect.height;
+}
+
+/**
+ * Dijkstra over the sparse grid formed by the obstacle edges and the two stub ends.
+ * The search state includes the travel direction so bends can be penalized.
+ */
+function findGridPath(
+  start: RoutePoint,
+  end: RoutePoint,
+  startDirection: RoutePoint,
+  endDirection: RoutePoint,
+  obstacles: RouteRect[]
+): RoutePoint[] | null {
+  const xs = uniqueSorted([start.x, end.x, ...obstacles.flatMap(r => [r.x, r.x + r.width])]);
+  const ys = uniqueSorted([start.y, end.y, ...obstacles.flatMap(r => [r.y, r.y + r.height])]);
+  const columns = xs.length;
+
+  const blocked = (p: RoutePoint) => obstacles.some(rect => isInside(p, rect));
+  const nodeIndex = (xi: number, yi: number) => yi * columns + xi;
+
+  const startIndex = nodeIndex(xs.indexOf(start.x), ys.indexOf(start.y));
+  const endIndex = nodeIndex(xs.indexOf(end.x), ys.indexOf(end.y));
+
+  // Directions: 0=up, 1=right, 2=down, 3=left (matches side numbering)
+  const steps = [{ dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }];
+  const directionOf = (v: RoutePoint) => steps.findIndex(s => s.dx === Math.sign(v.x) && s.dy === Math.sign(v.y));
+
+  const stateCount = xs.length * ys.length * 4;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const queue = new MinHeap();
+
+  const initialDirection = Math.max(0, directionOf(startDirection));
+  const initialState = startIndex * 4 + initialDirection;
+  cost[initialState] = 0;
+  queue.push(initialState, 0);
+
+  const finalDirection = directionOf(endDirection);
+  let bestEndState = -1;
+
+  while (queue.size > 0) {
+    const { value: state, priority } = queue.pop();
+    if (priority > cost[state]) continue;
+
+    const node = Math.floor(state / 4);
+    const direction = state % 4;
+    if (node === endIndex) {
+      bestEndState = state;
+      break;
+    }
+
+    const xi = node % columns;
+    const yi = Math.floor(node / columns);
+
+    for (let nextDirection = 0; nextDirection < 4; nextDirection++) {
+      if (nextDirection === (direction + 2) % 4) continue; // Never reverse in place
+
+      const nxi = xi + steps[nextDirection].dx;
+      const nyi = yi + steps[nextDirection].dy;
+      if (nxi < 0 || nyi < 0 || nxi >= xs.length || nyi >= ys.length) continue;
+
+      const a = { x: xs[xi], y: ys[yi] };
+      const b = { x: xs[nxi], y: ys[nyi] };
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      if (blocked(mid) || blocked(b)) continue;
+
+      const nextNode = nodeIndex(nxi, nyi);
+      let stepCost = Math.abs(b.x - a.x) + Math.abs(b.y - a.y);
+      if (nextDirection !== direction) stepCost += BEND_PENALTY;
+      // Arriving against the target's entry direction would need an extra bend at the card
+      if (nextNode === endIndex && finalDirection >= 0 && nextDirection !== finalDirection) stepCost += BEND_PENALTY;
+
+      const nextState = nextNode * 4 + nextDirection;
+      const nextCost = cost[state] + stepCost;
+      if (nextCost < cost[nextState]) {
+        cost[nextState] = nextCost;
+        previous[nextState] = state;
+        queue.push(nextState, nextCost);
+      }
+    }
+  }
+
+  if (bestEndState < 0) return null;
+
+  const path: RoutePoint[] = [];
+  for (let state = bestEndState; state >= 0; state = previous[state]) {
+    const node = Math.floor(state / 4);
+    path.unshift({ x: xs[node % columns], y: ys[Math.floor(node / columns)] });
+  }
+  return path;
+}
+
+/**
+ * Simple one- or two-bend route used when the grid search finds nothing.
+ */
+function elbowFallback(start: RoutePoint, end: RoutePoint, startDirection: RoutePoint): RoutePoint[] {
+  if (startDirection.x !== 0) {
+    const midX = (start.x + end.x) / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+  const midY = (start.y + end.y) / 2;
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+/**
+ * Removes duplicate and collinear points so the path has one vertex per bend.
+ */
+function simplify(points: RoutePoint[]): RoutePoint[] {
+  const result: RoutePoint[] = [];
+  for (const p of points) {
+    const last = result[result.length - 1];
+    if (last && last.x === p.x && last.y === p.y) continue;
+    const beforeLast = result[result.length - 2];
+    if (beforeLast && last &&
+        ((beforeLast.x === last.x && last.x === p.x) || (beforeLast.y === last.y && last.y === p.y))) {
+      result[result.length - 1] = p;
+      continue;
+    }
+    result.push(p);
+  }
+  return result;
+}
+
+/**
+ * Returns the point at the given fraction (0-1) of a polyline's total length.
+ */
+function pointAlongPolyline(points: RoutePoint[], fraction: number): RoutePoint {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) * fraction;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+/**
+ * Minimal binary heap keyed by priority, used by the grid search.
+ */
+class MinHeap {
+  private items: { value: number; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: number, priority: number): void {
+    const items = this.items;
+    items.push({ value, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { value: number; priority: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
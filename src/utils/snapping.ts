@@ -0,0 +1,213 @@
+// src/utils/snapping.ts
+/**
+ * SNAPPING GEOMETRY
+ *
+ * Pure functions that decide where a dragged rectangle should snap to.
+ *
+ * Per axis, in order of preference:
+ * 1. Alignment: an edge or center of the moving rect lines up with an edge or
+ *    center of another card (Figma-style smart guides)
+ * 2. Equal spacing: the moving rect sits exactly between two neighbors, or
+ *    repeats a gap that already exists between two other cards
+ * 3. Grid: the rect's top-left corner lands on the snap grid
+ *
+ * The result includes the guides to draw so users can see why it snapped.
+ */
+
+/** An axis-aligned rectangle in world coordinates */
+export interface SnapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A temporary visual hint drawn while dragging.
+ * - align: a line through the shared edge/center
+ * - spacing: a short segment marking one of the equal gaps
+ */
+export interface SnapGuide {
+  type: 'align' | 'spacing';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface SnapOptions {
+  /** Grid spacing in world pixels, or 0 to disable grid snapping */
+  gridSize: number;
+  /** Whether to snap to other cards' edges, centers and spacing */
+  guides: boolean;
+  /** How close (in world pixels) something must be before it snaps */
+  threshold: number;
+}
+
+export interface SnapResult {
+  /** Offset to add to the moving rect's position */
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+type Axis = 'x' | 'y';
+
+/** Candidate snap for one axis */
+interface AxisSnap {
+  delta: number;
+  guides: (snapped: SnapRect) => SnapGuide[];
+}
+
+const size = (rect: SnapRect, axis: Axis) => axis === 'x' ? rect.width : rect.height;
+const start = (rect: SnapRect, axis: Axis) => rect[axis];
+const end = (rect: SnapRect, axis: Axis) => rect[axis] + size(rect, axis);
+const other = (axis: Axis): Axis => axis === 'x' ? 'y' : 'x';
+
+/**
+ * Edge and center coordinates of a rect along one axis.
+ */
+function anchors(rect: SnapRect, axis: Axis): number[] {
+  return [start(rect, axis), start(rect, axis) + size(rect, axis) / 2, end(rect, axis)];
+}
+
+/** True when the two rects overlap when projected onto the other axis (same row/column) */
+function overlapsAcross(a: SnapRect, b: SnapRect, axis: Axis): boolean {
+  const cross = other(axis);
+  return start(a, cross) < end(b, cross) && start(b, cross) < end(a, cross);
+}
+
+/**
+ * Finds the closest edge/center alignment along one axis.
+ */
+function findAlignment(moving: SnapRect, others: SnapRect[], axis: Axis, threshold: number): AxisSnap | null {
+  let best: { delta: number; value: number } | null = null;
+
+  for (const rect of others) {
+    for (const target of anchors(rect, axis)) {
+      for (const source of anchors(moving, axis)) {
+        const delta = target - source;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, value: target };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  const value = best.value;
+  return {
+    delta: best.delta,
+    guides: snapped => {
+      // One guide line through every card that shares this coordinate
+      const aligned = [snapped, ...others.filter(rect => anchors(rect, axis).some(a => Math.abs(a - value) < 0.5))];
+      const cross = other(axis);
+      const from = Math.min(...aligned.map(r => start(r, cross)));
+      const to = Math.max(...aligned.map(r => end(r, cross)));
+      return [axis === 'x'
+        ? { type: 'align', x1: value, y1: from, x2: value, y2: to }
+        : { type: 'align', x1: from, y1: value, x2: to, y2: value }];
+    }
+  };
+}
+
+/**
+ * Builds a spacing guide segment for the gap between two positions along an axis.
+ */
+function spacingGuide(axis: Axis, from: number, to: number, crossAt: number): SnapGuide {
+  return axis === 'x'
+    ? { type: 'spacing', x1: from, y1: crossAt, x2: to, y2: crossAt }
+    : { type: 'spacing', x1: crossAt, y1: from, x2: crossAt, y2: to };
+}
+
+/**
+ * Finds an equal-spacing position along one axis among cards in the same row/column.
+ */
+function findEqualSpacing(moving: SnapRect, others: SnapRect[], axis: Axis, threshold: number): AxisSnap | null {
+  const cross = other(axis);
+  const row = others
+    .filter(rect => overlapsAcross(rect, moving, axis))
+    .sort((a, b) => start(a, axis) - start(b, axis));
+  const crossAt = (rect: SnapRect) => start(rect, cross) + size(rect, cross) / 2;
+
+  let best: AxisSnap | null = null;
+  const consider = (delta: number, guides: AxisSnap['guides']) => {
+    if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+      best = { delta, guides };
+    }
+  };
+
+  const before = row.filter(rect => end(rect, axis) <= start(moving, axis) + threshold);
+  const after = row.filter(rect => start(rect, axis) >= end(moving, axis) - threshold);
+  const left = before[before.length - 1];
+  const right = after[0];
+
+  // Centered between the nearest neighbors on both sides
+  if (left && right) {
+    const gap = (start(right, axis) - end(left, axis) - size(moving, axis)) / 2;
+    if (gap > 0) {
+      consider(end(left, axis) + gap - start(moving, axis), snapped => [
+        spacingGuide(axis, end(left, axis), start(snapped, axis), crossAt(snapped)),
+        spacingGuide(axis, end(snapped, axis), start(right, axis), crossAt(snapped))
+      ]);
+    }
+  }
+
+  // Repeating the gap of an existing neighboring pair
+  for (let i = 0; i + 1 < row.length; i++) {
+    const a = row[i];
+    const b = row[i + 1];
+    const gap = start(b, axis) - end(a, axis);
+    if (gap <= 0) continue;
+
+    if (b === left) {
+      consider(end(b, axis) + gap - start(moving, axis), snapped => [
+        spacingGuide(axis, end(a, axis), start(b, axis), crossAt(b)),
+        spacingGuide(axis, end(b, axis), start(snapped, axis), crossAt(snapped))
+      ]);
+    }
+    if (a === right) {
+      consider(start(a, axis) - gap - end(moving, axis), snapped => [
+        spacingGuide(axis, end(snapped, axis), start(a, axis), crossAt(snapped)),
+        spacingGuide(axis, end(a, axis), start(b, axis), crossAt(a))
+      ]);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Snaps the rect's leading edge to the grid along one axis.
+ */
+function findGridSnap(moving: SnapRect, axis: Axis, gridSize: number): AxisSnap | null {
+  if (gridSize <= 0) return null;
+  const value = start(moving, axis);
+  return { delta: Math.round(value / gridSize) * gridSize - value, guides: () => [] };
+}
+
+/**
+ * Works out how far to nudge a dragged rect so it snaps, and which guides to show.
+ */
+export function computeSnap(moving: SnapRect, others: SnapRect[], options: SnapOptions): SnapResult {
+  const snapAxis = (axis: Axis): AxisSnap | null => {
+    if (options.guides) {
+      const smart = findAlignment(moving, others, axis, options.threshold)
+        ?? findEqualSpacing(moving, others, axis, options.threshold);
+      if (smart) return smart;
+    }
+    return findGridSnap(moving, axis, options.gridSize);
+  };
+
+  const snapX = snapAxis('x');
+  const snapY = snapAxis('y');
+  const dx = snapX?.delta ?? 0;
+  const dy = snapY?.delta ?? 0;
+  const snapped = { ...moving, x: moving.x + dx, y: moving.y + dy };
+
+  return {
+    dx,
+    dy,
+    guides: [...(snapX?.guides(snapped) ?? []), ...(snapY?.guides(snapped) ?? [])]
+  };
+}
@@ -7,7 +7,13 @@ export default defineConfig({
   build: {
     target: 'esnext',
     minify: false,
-    sourcemap: true
+    sourcemap: true,
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        benchmark: 'benchmark.html'
+      }
+    }
   },
   server: {
     fs: {